@@ -0,0 +1,126 @@
+// Batch predictions: several jobs sharing one credential, run with bounded concurrency
+import { ConfigEnv, readBytes, readInteger } from './env';
+import { ProxyResponse, ReplicateRequest, validateReplicateRequest } from './types';
+import type { AuthMode } from './config';
+
+export const BATCH_PATH = '/api/replicate/batch';
+
+export interface BatchOptions {
+  maxJobs: number;
+  concurrency: number;
+  // Limit for the whole batch body, which carries every job's input
+  maxRequestSize: number;
+}
+
+export const loadBatchOptions = (env: ConfigEnv = process.env): BatchOptions => ({
+  maxJobs: readInteger(env, 'BATCH_MAX_JOBS', 12, 1),
+  concurrency: readInteger(env, 'BATCH_CONCURRENCY', 4, 1),
+  maxRequestSize: readBytes(env, 'BATCH_MAX_REQUEST_SIZE', 4 * 1048576, 1) // 4MB default
+});
+
+// A job is a single-prediction request body without the credential
+export type BatchJob = Pick<ReplicateRequest, 'model' | 'deployment' | 'input' | 'mode' | 'cache' | 'outputFormat'>;
+
+export interface BatchRequest {
+  jobs: BatchJob[];
+  apiKey?: string;
+  token?: string;
+}
+
+export type BatchItemResult =
+  | { index: number; status: 'succeeded'; statusCode: number; output: any }
+  // Async jobs, and sync jobs handed off near the invocation deadline, return their prediction to poll
+  | { index: number; status: 'accepted'; statusCode: number; prediction: any }
+  | { index: number; status: 'failed'; statusCode: number; error: { code: string; error: string; details?: any; fields?: any } };
+
+export interface BatchResponse {
+  results: BatchItemResult[];
+  succeeded: number;
+  accepted: number;
+  failed: number;
+}
+
+// Each job is checked with the single-prediction rules, with the shared credential filled in
+export const validateBatchRequest = (
+  body: any,
+  authMode: AuthMode,
+  maxJobs: number
+): { isValid: boolean; error?: string } => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { isValid: false, error: 'Request body must be a valid JSON object' };
+  }
+  if (!Array.isArray(body.jobs) || body.jobs.length === 0) {
+    return { isValid: false, error: 'Jobs must be a non-empty array' };
+  }
+  if (body.jobs.length > maxJobs) {
+    return { isValid: false, error: `A batch can have at most ${maxJobs} jobs` };
+  }
+
+  for (const [index, job] of body.jobs.entries()) {
+    if (!job || typeof job !== 'object' || Array.isArray(job)) {
+      return { isValid: false, error: `jobs[${index}]: Job must be an object` };
+    }
+    if (job.apiKey !== undefined || job.token !== undefined) {
+      return { isValid: false, error: `jobs[${index}]: Jobs share the batch credential and can't carry their own` };
+    }
+    // One response can't carry several event streams
+    if (job.mode === 'stream') {
+      return { isValid: false, error: `jobs[${index}]: Stream mode is not supported in batches` };
+    }
+    const validation = validateReplicateRequest({ ...job, apiKey: body.apiKey, token: body.token }, authMode);
+    if (!validation.isValid) {
+      return { isValid: false, error: `jobs[${index}]: ${validation.error}` };
+    }
+  }
+
+  return { isValid: true };
+};
+
+// Like Promise.all over items, but with at most `limit` calls in flight; results keep the input order
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Shape a job's single-prediction response as its entry in the batch results
+export const toBatchItemResult = (index: number, response: ProxyResponse): BatchItemResult => {
+  let body: any;
+  try {
+    body = JSON.parse(response.body);
+  } catch {
+    body = response.body;
+  }
+
+  if (response.statusCode === 202) {
+    return { index, status: 'accepted', statusCode: response.statusCode, prediction: body };
+  }
+  if (response.statusCode < 300) {
+    return { index, status: 'succeeded', statusCode: response.statusCode, output: body };
+  }
+  const { code, error, details, fields } = body ?? {};
+  return {
+    index,
+    status: 'failed',
+    statusCode: response.statusCode,
+    error: { code: code ?? 'INTERNAL_ERROR', error: error ?? 'Job failed', ...(details !== undefined && { details }), ...(fields !== undefined && { fields }) }
+  };
+};
+
+export const summarizeBatch = (results: BatchItemResult[]): BatchResponse => ({
+  results,
+  succeeded: results.filter(result => result.status === 'succeeded').length,
+  accepted: results.filter(result => result.status === 'accepted').length,
+  failed: results.filter(result => result.status === 'failed').length
+});
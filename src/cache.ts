@@ -0,0 +1,104 @@
+// Deterministic response cache for repeated sync predictions
+import { createHash } from 'crypto';
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, output: unknown, ttlSeconds: number): Promise<void>;
+}
+
+// Sort object keys recursively and drop undefined values so equivalent inputs hash the same
+export const normalizeInput = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(normalizeInput);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => [key, normalizeInput((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+// Entries are scoped to the caller (a token subject or a hashed API key), so a hit never
+// hands one caller's paid output to another, or to a key Replicate hasn't accepted
+export const responseCacheKey = (model: string, input: Record<string, any>, scope: string): string => {
+  const [name, version] = model.split(':');
+  const canonical = JSON.stringify({ scope, model: name, version: version || null, input: normalizeInput(input) });
+  return createHash('sha256').update(canonical).digest('hex');
+};
+
+// Without a seed most models are non-deterministic, so only seeded or explicitly marked requests are cached
+export const isCacheableRequest = (input: Record<string, any> | undefined, cache?: boolean): boolean => {
+  if (cache !== undefined) return cache;
+  return typeof input?.seed === 'number';
+};
+
+// `Cache-Control: no-cache` skips the lookup but still stores the fresh output
+export const isCacheBypassed = (cacheControl?: string): boolean =>
+  !!cacheControl && /\bno-cache\b/i.test(cacheControl);
+
+export const createLruCacheStore = (maxEntries: number = 100): ResponseCacheStore & { clear(): void; size(): number } => {
+  const entries = new Map<string, { output: unknown; expiresAt: number }>();
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.output;
+    },
+    set: async (key, output, ttlSeconds) => {
+      entries.delete(key);
+      entries.set(key, { output, expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    clear: () => entries.clear(),
+    size: () => entries.size
+  };
+};
+
+// Minimal client shape for an external KV store (Redis, Memcached, Cloudflare KV wrappers, ...)
+export interface KeyValueClient {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<unknown>;
+}
+
+export const createKeyValueCacheStore = (client: KeyValueClient, prefix: string = 'replicate-proxy:'): ResponseCacheStore => ({
+  get: async (key) => {
+    const value = await client.get(prefix + key);
+    return value == null ? undefined : JSON.parse(value);
+  },
+  set: async (key, output, ttlSeconds) => {
+    await client.set(prefix + key, JSON.stringify(output), ttlSeconds);
+  }
+});
+
+let defaultCacheStore: ReturnType<typeof createLruCacheStore> | undefined;
+let injectedStore: ResponseCacheStore | undefined;
+
+// An external store lets a hit on one instance serve requests first seen on another
+export const setResponseCacheStore = (store: ResponseCacheStore | undefined): void => {
+  injectedStore = store;
+};
+
+export const getResponseCacheStore = (maxEntries: number): ResponseCacheStore => {
+  if (injectedStore) return injectedStore;
+  defaultCacheStore ??= createLruCacheStore(maxEntries);
+  return defaultCacheStore;
+};
+
+export const clearResponseCache = (): void => {
+  defaultCacheStore?.clear();
+};
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// Command-line entry point: replicate-proxy serve [options]
+import { runCli } from './serve';
+
+runCli(process.argv.slice(2))
+  .then(code => {
+    if (code !== 0) process.exit(code);
+  })
+  .catch((error) => {
+    console.error(error?.message ?? error);
+    process.exit(1);
+  });
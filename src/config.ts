@@ -1,29 +1,170 @@
 // Configuration and constants for the Replicate proxy
+import { readFileSync } from 'fs';
+import { ConfigEnv, readBoolean, readBytes, readDuration, readEnum, readInteger, readUrl } from './env';
+import { ModelPolicy, loadModelPolicy } from './policy';
+import { InputValidationMode } from './schemas';
+import { RateLimitRule, loadRateLimitRules } from './ratelimit';
+import { OutputStorageConfig, loadOutputStorageConfig } from './storage';
+import { UploadLimits, parseAllowedTypes } from './uploads';
+import { CorsOptions, loadCorsOptions } from './cors';
+import { LogLevel, loadLoggerOptions } from './logger';
+import { MetricsOptions, loadMetricsOptions } from './metrics';
+import { TracingOptions, loadTracingOptions } from './tracing';
+import { UsageOptions, loadUsageOptions } from './usage';
+import { RetryPolicy, loadRetryPolicy } from './retry';
+import { BatchOptions, loadBatchOptions } from './batch';
 
+// apiKey: the browser sends its own Replicate key with each request
+// token: the Replicate key stays in server config and the browser sends a signed client token
+export type AuthMode = 'apiKey' | 'token';
+
+// Every field is validated when the config is built, and the result is frozen
 export interface ProxyConfig {
-  maxRequestSize: number;
-  replicateTimeout: number;
-  corsAllowedOrigins: string[];
-  logLevel: 'debug' | 'info' | 'warn' | 'error';
-  enableStackTraces: boolean;
+  readonly maxRequestSize: number;
+  readonly replicateTimeout: number;
+  readonly retry: RetryPolicy;
+  readonly deadlineSafetyMargin: number;
+  readonly cors: CorsOptions;
+  readonly logLevel: LogLevel;
+  readonly logRedactPaths: string[];
+  readonly logDebugSampleRate: number;
+  readonly enableStackTraces: boolean;
+  readonly webhookUrl?: string;
+  readonly webhookSigningSecret?: string;
+  readonly webhookToleranceSeconds: number;
+  readonly webhookForwardUrl?: string;
+  readonly authMode: AuthMode;
+  readonly replicateApiKey?: string;
+  readonly clientTokenSecret?: string;
+  readonly modelPolicy?: ModelPolicy;
+  readonly inputValidation: InputValidationMode;
+  readonly inputSchemaCacheTtl: number;
+  readonly rateLimits: RateLimitRule[];
+  readonly usage: UsageOptions;
+  readonly responseCacheTtl: number;
+  readonly responseCacheMaxEntries: number;
+  readonly outputStorage?: OutputStorageConfig;
+  readonly inlineOutputMaxBytes: number;
+  readonly uploads: UploadLimits;
+  readonly batch: BatchOptions;
+  readonly metrics: MetricsOptions;
+  readonly tracing: TracingOptions;
 }
 
-export const getConfig = (): ProxyConfig => {
-  const isProduction = process.env.NODE_ENV === 'production';
-  
-  return {
-    maxRequestSize: parseInt(process.env.MAX_REQUEST_SIZE || '1048576'), // 1MB default
-    replicateTimeout: parseInt(process.env.REPLICATE_TIMEOUT || '300000'), // 5 minutes default
-    corsAllowedOrigins: process.env.CORS_ALLOWED_ORIGINS?.split(',') || ['*'],
-    logLevel: (process.env.LOG_LEVEL as ProxyConfig['logLevel']) || (isProduction ? 'warn' : 'debug'),
-    enableStackTraces: process.env.ENABLE_STACK_TRACES === 'true' || (process.env.ENABLE_STACK_TRACES !== 'false' && !isProduction)
+// CONFIG_FILE holds the same variable names as the environment; JSON settings such as
+// RATE_LIMITS or MODEL_POLICY may be written as objects instead of strings
+const readConfigFile = (path: string): ConfigEnv => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`Unable to read CONFIG_FILE ${path}: ${e.message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid CONFIG_FILE ${path}: expected an object of configuration variables`);
+  }
+
+  return Object.fromEntries(Object.entries(parsed).map(([key, value]) => {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(key)) {
+      throw new Error(`Invalid CONFIG_FILE ${path}: "${key}" is not a variable name such as MAX_REQUEST_SIZE`);
+    }
+    return [key, value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value)];
+  }));
+};
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+// Defaults, then CONFIG_FILE, then the environment. Every setting is checked before throwing,
+// so one startup error lists all the mistakes.
+export const loadConfig = (env: ConfigEnv = process.env): ProxyConfig => {
+  const source: ConfigEnv = env.CONFIG_FILE ? { ...readConfigFile(env.CONFIG_FILE), ...env } : env;
+  const errors: string[] = [];
+  const read = <T>(load: () => T): T => {
+    try {
+      return load();
+    } catch (e: any) {
+      errors.push(e.message);
+      return undefined as T;
+    }
+  };
+
+  const isProduction = source.NODE_ENV === 'production';
+  const logging = read(() => loadLoggerOptions(source)); // LOG_LEVEL, LOG_REDACT_PATHS, LOG_DEBUG_SAMPLE_RATE
+
+  const config: ProxyConfig = {
+    maxRequestSize: read(() => readBytes(source, 'MAX_REQUEST_SIZE', 1048576, 1)), // 1MB default
+    replicateTimeout: read(() => readDuration(source, 'REPLICATE_TIMEOUT', 300000, 'ms', 1)), // 5 minutes default
+    deadlineSafetyMargin: read(() => readDuration(source, 'DEADLINE_SAFETY_MARGIN', 3000, 'ms')), // kept back from the Lambda deadline to respond
+    retry: read(() => loadRetryPolicy(source)), // REPLICATE_RETRY_ATTEMPTS and the other REPLICATE_RETRY_* settings
+    cors: read(() => loadCorsOptions(source)), // CORS_ALLOWED_ORIGINS and the other CORS_* settings
+    logLevel: logging?.level,
+    logRedactPaths: logging?.redactPaths,
+    logDebugSampleRate: logging?.debugSampleRate,
+    enableStackTraces: read(() => readBoolean(source, 'ENABLE_STACK_TRACES', !isProduction)),
+    webhookUrl: read(() => readUrl(source, 'REPLICATE_WEBHOOK_URL')), // public URL of POST /api/replicate/webhooks
+    webhookSigningSecret: source.REPLICATE_WEBHOOK_SECRET || undefined, // whsec_... from Replicate
+    webhookToleranceSeconds: read(() => readDuration(source, 'WEBHOOK_TOLERANCE_SECONDS', 300, 's', 1)), // 5 minutes default
+    webhookForwardUrl: read(() => readUrl(source, 'WEBHOOK_FORWARD_URL')),
+    authMode: read(() => readEnum<AuthMode>(source, 'AUTH_MODE', ['apiKey', 'token'], 'apiKey')),
+    replicateApiKey: source.REPLICATE_API_TOKEN || undefined, // only used in token mode
+    clientTokenSecret: source.CLIENT_TOKEN_SECRET || undefined,
+    modelPolicy: read(() => loadModelPolicy(source)), // MODEL_POLICY JSON or MODEL_POLICY_FILE path
+    inputValidation: read(() => readEnum<InputValidationMode>(source, 'INPUT_VALIDATION', ['off', 'lenient', 'strict'], 'off')),
+    inputSchemaCacheTtl: read(() => readDuration(source, 'INPUT_SCHEMA_CACHE_TTL', 600000, 'ms')), // 10 minutes default
+    rateLimits: read(() => loadRateLimitRules(source)), // RATE_LIMITS JSON array of token-bucket rules
+    usage: read(() => loadUsageOptions(source)), // USAGE_QUOTAS, USAGE_PRICES and USAGE_TRACKING
+    responseCacheTtl: read(() => readDuration(source, 'RESPONSE_CACHE_TTL', 0, 's')), // 0 disables the cache
+    responseCacheMaxEntries: read(() => readInteger(source, 'RESPONSE_CACHE_MAX_ENTRIES', 100, 1)),
+    outputStorage: read(() => loadOutputStorageConfig(source)), // rehost outputs when OUTPUT_BUCKET is set
+    inlineOutputMaxBytes: read(() => readBytes(source, 'INLINE_OUTPUT_MAX_BYTES', 5000000)), // stays under Lambda's 6MB response limit
+    uploads: {
+      maxFileSize: read(() => readBytes(source, 'UPLOAD_MAX_FILE_SIZE', 5242880, 1)), // 5MB default
+      allowedTypes: read(() => parseAllowedTypes(source.UPLOAD_ALLOWED_TYPES || 'image/*,audio/*,video/*')),
+      dataUriMaxSize: read(() => readBytes(source, 'UPLOAD_DATA_URI_MAX_SIZE', 262144)) // 256KB default
+    },
+    batch: read(() => loadBatchOptions(source)), // BATCH_MAX_JOBS, BATCH_CONCURRENCY and BATCH_MAX_REQUEST_SIZE
+    metrics: read(() => loadMetricsOptions(source)), // METRICS_ENABLED and METRICS_NAMESPACE
+    tracing: read(() => loadTracingOptions(source)) // TRACING_ENABLED and the OTEL_* exporter settings
   };
+
+  // Token mode signs client tokens and calls Replicate with server-held credentials, so both must be set
+  if (config.authMode === 'token') {
+    if (!config.replicateApiKey) errors.push('AUTH_MODE=token needs REPLICATE_API_TOKEN');
+    if (!config.clientTokenSecret) errors.push('AUTH_MODE=token needs CLIENT_TOKEN_SECRET');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+  return deepFreeze(config);
+};
+
+let cachedConfig: ProxyConfig | undefined;
+
+// Built once per cold start, on first use
+export const getConfig = (): ProxyConfig => {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig();
+  }
+  return cachedConfig;
+};
+
+// Rebuild from the environment on the next getConfig (the dev server's env reload, tests)
+export const resetConfig = (): void => {
+  cachedConfig = undefined;
 };
 
 export const CONSTANTS = {
   REQUEST_TIMEOUT: 300000, // 5 minutes
-  MAX_MODEL_NAME_LENGTH: 100,
+  MAX_MODEL_NAME_LENGTH: 165, // 100-character owner/model plus ":" and a 64-character version
   MIN_API_KEY_LENGTH: 8,
   MAX_API_KEY_LENGTH: 200,
+  MAX_BODY_SIZE: 6 * 1024 * 1024, // default for server adapters, matching Lambda's payload limit
   SUPPORTED_HTTP_METHODS: ['GET', 'POST', 'OPTIONS'] as const,
 } as const;
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Origin matching for CORS_ALLOWED_ORIGINS
+import { ConfigEnv, readBoolean, readDuration } from './env';
+
+export interface CorsOptions {
+  // Exact origins, "https://*.example.com" subdomain wildcards, "/regex/" patterns or "*"
+  allowedOrigins: string[];
+  allowedHeaders: string[];
+  exposedHeaders: string[];
+  allowCredentials: boolean;
+  maxAgeSeconds: number;
+}
+
+// Request headers the proxy reads; Cache-Control lets browser code force a response cache refresh,
+// traceparent lets a browser trace continue into the proxy
+const DEFAULT_ALLOWED_HEADERS = 'Content-Type, Authorization, Cache-Control, traceparent';
+
+// Headers the proxy sets that browser code may need to read
+const DEFAULT_EXPOSED_HEADERS = 'X-Proxy-Cache, X-Replicate-Attempts, X-Trace-Id, Retry-After, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset';
+
+const parseList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+const isRegexPattern = (pattern: string): boolean =>
+  pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+
+// Entries are separated by whitespace, which no origin contains, so regexes can use commas as in \d{1,3}.
+// Commas still separate exact origins and wildcards, as they did before regexes were supported
+export const parseOriginList = (value: string): string[] =>
+  value.split(/\s+/).filter(Boolean).flatMap(entry => {
+    const trimmed = entry.replace(/,$/, '');
+    return isRegexPattern(trimmed) ? [trimmed] : parseList(entry);
+  });
+
+export const loadCorsOptions = (env: ConfigEnv = process.env): CorsOptions => {
+  const allowedOrigins = env.CORS_ALLOWED_ORIGINS !== undefined ? parseOriginList(env.CORS_ALLOWED_ORIGINS) : ['*'];
+  for (const pattern of allowedOrigins.filter(isRegexPattern)) {
+    try {
+      new RegExp(pattern.slice(1, -1));
+    } catch (e: any) {
+      throw new Error(`CORS_ALLOWED_ORIGINS has an invalid regex ${pattern}: ${e.message}`);
+    }
+  }
+
+  const allowCredentials = readBoolean(env, 'CORS_ALLOW_CREDENTIALS', false);
+  // Credentials with every origin allowed would let any site make authenticated calls
+  if (allowCredentials && allowedOrigins.includes('*')) {
+    throw new Error('CORS_ALLOW_CREDENTIALS=true needs CORS_ALLOWED_ORIGINS to list the allowed origins instead of "*"');
+  }
+
+  return {
+    allowedOrigins,
+    allowedHeaders: parseList(env.CORS_ALLOWED_HEADERS || DEFAULT_ALLOWED_HEADERS),
+    exposedHeaders: parseList(env.CORS_EXPOSED_HEADERS ?? DEFAULT_EXPOSED_HEADERS),
+    allowCredentials,
+    maxAgeSeconds: readDuration(env, 'CORS_MAX_AGE', 600, 's') // 10 minutes default
+  };
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const matchesOrigin = (origin: string, pattern: string): boolean => {
+  if (pattern === '*') return true;
+
+  if (isRegexPattern(pattern)) {
+    try {
+      return new RegExp(pattern.slice(1, -1)).test(origin);
+    } catch {
+      return false;
+    }
+  }
+
+  // "https://*.example.com" matches any subdomain depth but not the apex domain
+  if (pattern.includes('://*.')) {
+    const [scheme, host] = pattern.split('://*.');
+    return new RegExp(`^${escapeRegExp(scheme)}://([a-z0-9-]+\\.)+${escapeRegExp(host)}$`, 'i').test(origin);
+  }
+
+  return origin.toLowerCase() === pattern.toLowerCase();
+};
+
+export const isOriginAllowed = (origin: string, allowedOrigins: string[]): boolean =>
+  allowedOrigins.some(pattern => matchesOrigin(origin, pattern));
+
+// Value for Access-Control-Allow-Origin, or undefined when the origin gets no CORS headers
+export const resolveAllowedOrigin = (origin: string | undefined, options: CorsOptions): string | undefined => {
+  if (options.allowedOrigins.includes('*')) {
+    // Browsers reject "*" on credentialed requests, which is what keeps them off a wildcard config
+    return '*';
+  }
+  return origin && isOriginAllowed(origin, options.allowedOrigins) ? origin : undefined;
+};
@@ -0,0 +1,107 @@
+// Validated readers for configuration variables, including human-friendly sizes ("1MB") and durations ("30s")
+
+export type ConfigEnv = Record<string, string | undefined>;
+
+const BYTE_UNITS: Record<string, number> = { '': 1, b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+// "1048576", "512KB" or "1.5mb"; sizes are binary, so 1MB is 1048576 bytes
+export const parseByteSize = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+  const multiplier = match ? BYTE_UNITS[match[2].toLowerCase()] : undefined;
+  return multiplier === undefined ? undefined : Math.round(parseFloat(match![1]) * multiplier);
+};
+
+// "500ms", "30s", "5m" or "1h"; a bare number is already in the setting's own unit
+export const parseDuration = (value: string, unit: 'ms' | 's'): number | undefined => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1]);
+  if (!match[2]) return amount;
+  const ms = DURATION_UNITS[match[2].toLowerCase()];
+  return ms === undefined ? undefined : Math.round(amount * ms / DURATION_UNITS[unit]);
+};
+
+// Empty variables count as unset, like the `|| default` reads they replace
+const raw = (env: ConfigEnv, name: string): string | undefined => {
+  const value = env[name]?.trim();
+  return value ? value : undefined;
+};
+
+const invalid = (name: string, expected: string, value: string): Error =>
+  new Error(`${name} must be ${expected}, got "${value}"`);
+
+export const readInteger = (env: ConfigEnv, name: string, fallback: number, min: number = 0): number => {
+  const value = raw(env, name);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw invalid(name, `a whole number of at least ${min}`, value);
+  }
+  return parsed;
+};
+
+export const readNumber = (env: ConfigEnv, name: string, fallback: number, min: number, max: number): number => {
+  const value = raw(env, name);
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < min || parsed > max) {
+    throw invalid(name, `a number from ${min} to ${max}`, value);
+  }
+  return parsed;
+};
+
+// Pass min 1 for limits where 0 would refuse everything rather than turn the feature off
+export const readBytes = (env: ConfigEnv, name: string, fallback: number, min: number = 0): number => {
+  const value = raw(env, name);
+  if (value === undefined) return fallback;
+  const parsed = parseByteSize(value);
+  if (parsed === undefined) {
+    throw invalid(name, 'a size such as 1048576, 512KB or 1MB', value);
+  }
+  if (parsed < min) {
+    throw invalid(name, `a size of at least ${min} byte${min === 1 ? '' : 's'}`, value);
+  }
+  return parsed;
+};
+
+// Returns the duration in `unit`, which is also how bare numbers are read; min is in the same unit
+export const readDuration = (env: ConfigEnv, name: string, fallback: number, unit: 'ms' | 's', min: number = 0): number => {
+  const value = raw(env, name);
+  if (value === undefined) return fallback;
+  const parsed = parseDuration(value, unit);
+  if (parsed === undefined) {
+    throw invalid(name, `a duration such as ${unit === 'ms' ? '30000, 500ms' : '60'}, 30s or 5m`, value);
+  }
+  if (parsed < min) {
+    throw invalid(name, `a duration of at least ${min}${unit}`, value);
+  }
+  return parsed;
+};
+
+export const readBoolean = (env: ConfigEnv, name: string, fallback: boolean): boolean => {
+  const value = raw(env, name)?.toLowerCase();
+  if (value === undefined) return fallback;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  throw invalid(name, 'true or false', env[name]!);
+};
+
+export const readEnum = <T extends string>(env: ConfigEnv, name: string, values: readonly T[], fallback: T): T => {
+  const value = raw(env, name);
+  if (value === undefined) return fallback;
+  if (!values.includes(value as T)) {
+    throw invalid(name, `one of ${values.join(', ')}`, value);
+  }
+  return value as T;
+};
+
+export const readUrl = (env: ConfigEnv, name: string): string | undefined => {
+  const value = raw(env, name);
+  if (value === undefined) return undefined;
+  if (!URL.canParse(value) || !/^https?:$/.test(new URL(value).protocol)) {
+    throw invalid(name, 'an http or https URL', value);
+  }
+  return value;
+};
@@ -0,0 +1,104 @@
+// Maps failures onto the stable error codes of ErrorResponse, including Replicate's HTTP errors
+import type { AuthMode } from './config';
+import { ErrorCode, ProxyResponse } from './types';
+
+// Generic codes for errors raised without a more specific one
+const STATUS_ERROR_CODES: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  422: 'VALIDATION_FAILED',
+  429: 'RATE_LIMITED',
+  499: 'CLIENT_CLOSED_REQUEST'
+};
+
+export const errorCodeForStatus = (statusCode: number): ErrorCode =>
+  STATUS_ERROR_CODES[statusCode] ?? (statusCode < 500 ? 'BAD_REQUEST' : 'INTERNAL_ERROR');
+
+export interface UpstreamError {
+  statusCode: number;
+  code: ErrorCode;
+  error: string;
+  details?: string;
+  headers: Record<string, string>;
+}
+
+// Replicate's ApiError message ends with its problem body: "... failed with status 422 Unprocessable Entity: {...}."
+const parseProblemBody = (message: string): { title?: string; detail?: string } | undefined => {
+  const match = message.match(/failed with status \d+[^:]*: (\{[\s\S]*\})\.?$/);
+  if (!match) return undefined;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return undefined;
+  }
+};
+
+// Translate an error from a Replicate call into the status and code the client sees
+export const mapReplicateError = (replicateError: any, authMode: AuthMode = 'apiKey'): UpstreamError => {
+  const status: number | undefined = replicateError?.status || replicateError?.response?.status;
+  const message: string = replicateError?.message || 'Failed to call Replicate API';
+  const problem = parseProblemBody(message);
+  const details: string = replicateError?.detail || problem?.detail || message;
+  const upstream = (statusCode: number, code: ErrorCode, headers: Record<string, string> = {}): UpstreamError =>
+    ({ statusCode, code, error: problem?.title || message, details, headers });
+
+  // Safety checkers fail the prediction with an "NSFW content detected" error
+  if (/\bnsfw\b/i.test(`${message} ${details}`)) {
+    return upstream(422, 'NSFW_FLAGGED');
+  }
+
+  if (status) {
+    switch (status) {
+      // In token mode the rejected key and account are the server's own, which the caller can't fix
+      case 401:
+      case 403:
+        return upstream(authMode === 'token' ? 502 : 401, 'UPSTREAM_UNAUTHORIZED');
+      case 402:
+        return upstream(authMode === 'token' ? 502 : 402, 'UPSTREAM_PAYMENT_REQUIRED');
+      case 404:
+        return upstream(404, 'UPSTREAM_NOT_FOUND');
+      case 422:
+        return upstream(422, 'UPSTREAM_VALIDATION_FAILED');
+      case 429: {
+        const retryAfter = replicateError?.response?.headers?.get?.('retry-after');
+        return upstream(429, 'UPSTREAM_RATE_LIMITED', retryAfter ? { 'Retry-After': retryAfter } : {});
+      }
+      case 503:
+        return upstream(503, 'UPSTREAM_UNAVAILABLE');
+      default:
+        return status >= 500 ? upstream(502, 'UPSTREAM_ERROR') : upstream(status, 'UPSTREAM_ERROR');
+    }
+  }
+
+  if (replicateError?.name === 'TimeoutError') {
+    return upstream(504, 'UPSTREAM_TIMEOUT');
+  }
+  if (replicateError?.name === 'AbortError') {
+    return upstream(499, 'CLIENT_CLOSED_REQUEST');
+  }
+  if (message.startsWith('Prediction failed')) {
+    return upstream(502, 'PREDICTION_FAILED');
+  }
+  if (message === 'Prediction was canceled') {
+    return upstream(409, 'PREDICTION_CANCELED');
+  }
+  return upstream(500, 'INTERNAL_ERROR');
+};
+
+// Error bodies are built without the request context, so handleRequest adds the request id here
+export const withRequestId = (response: ProxyResponse, requestId: string): ProxyResponse => {
+  if (response.statusCode < 400 || !response.body) return response;
+
+  let body: any;
+  try {
+    body = JSON.parse(response.body);
+  } catch {
+    return response;
+  }
+  if (!body || typeof body !== 'object' || typeof body.code !== 'string') return response;
+  return { ...response, body: JSON.stringify({ ...body, requestId }) };
+};
@@ -0,0 +1,85 @@
+// Fetch API adapters for Workers-style runtimes and Bun.serve
+import { handleRequest } from './proxy';
+import { ProxyRequest, ProxyResponse, ResponseStreamWriter } from './types';
+import { customError } from './responses';
+import { CONSTANTS } from './config';
+
+export interface FetchAdapterOptions {
+  // Largest request body read into memory (default 6MB, Lambda's payload limit)
+  maxBodySize?: number;
+  // Client address for IP rate limits, e.g. request => request.headers.get('cf-connecting-ip')
+  getSourceIp?: (request: Request) => string | null | undefined;
+}
+
+export const fromFetchRequest = async (request: Request, sourceIp?: string): Promise<ProxyRequest> => {
+  const url = new URL(request.url);
+  const body = new Uint8Array(await request.arrayBuffer());
+  return {
+    method: request.method,
+    path: url.pathname,
+    headers: Object.fromEntries(request.headers),
+    body: body.length > 0 ? body : null,
+    query: Object.fromEntries(url.searchParams),
+    sourceIp
+  };
+};
+
+const toFetchResponse = (response: ProxyResponse): Response =>
+  new Response(response.body, { status: response.statusCode, headers: response.headers });
+
+// Resolves as soon as a streamed prediction starts so events reach the client while they arrive
+export const handleFetchRequest = async (request: Request, options: FetchAdapterOptions = {}): Promise<Response> => {
+  const maxBodySize = options.maxBodySize ?? CONSTANTS.MAX_BODY_SIZE;
+  const origin = request.headers.get('origin') ?? undefined;
+
+  if (Number(request.headers.get('content-length')) > maxBodySize) {
+    return toFetchResponse(customError(413, `Request body too large. Maximum size: ${maxBodySize} bytes`, undefined, origin));
+  }
+  const proxyRequest = await fromFetchRequest(request, options.getSourceIp?.(request) ?? undefined);
+  // Chunked uploads carry no Content-Length, so check what was actually read
+  if (proxyRequest.body && proxyRequest.body.length > maxBodySize) {
+    return toFetchResponse(customError(413, `Request body too large. Maximum size: ${maxBodySize} bytes`, undefined, origin));
+  }
+
+  return new Promise<Response>((resolve, reject) => {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const encoder = new TextEncoder();
+    let streaming = false;
+
+    // Writes fail once the client disconnects; the request signal cancels the prediction
+    const responseStream: ResponseStreamWriter = {
+      start: (statusCode, headers) => {
+        streaming = true;
+        resolve(new Response(readable, { status: statusCode, headers }));
+      },
+      write: (chunk) => {
+        writer.write(encoder.encode(chunk)).catch(() => undefined);
+      }
+    };
+
+    handleRequest(proxyRequest, { signal: request.signal, responseStream, eventType: 'fetch' })
+      .then(result => {
+        if (streaming) {
+          writer.close().catch(() => undefined);
+        } else {
+          resolve(toFetchResponse(result));
+        }
+      })
+      .catch(reject);
+  });
+};
+
+// Workers-style module export: export default { fetch: createFetchHandler() }
+export const createFetchHandler = (options: FetchAdapterOptions = {}) =>
+  (request: Request): Promise<Response> => handleFetchRequest(request, options);
+
+// Minimal shape of the Bun server passed to Bun.serve's fetch handler
+export interface BunServerLike {
+  requestIP(request: Request): { address: string } | null;
+}
+
+// Bun.serve({ port: 3000, fetch: createBunHandler() })
+export const createBunHandler = (options: FetchAdapterOptions = {}) =>
+  (request: Request, server: BunServerLike): Promise<Response> =>
+    handleFetchRequest(request, { getSourceIp: (req) => server.requestIP(req)?.address, ...options });
@@ -1,39 +1,225 @@
 // Main entry point for @subscribe.dev/replicate-frontend-proxy
-export { handler } from './proxy';
+export { handler, createHandler, streamingHandler, createStreamingHandler, handleRequest, fromLambdaEvent, getLambdaEventType } from './proxy';
+
+// Export runtime adapters for Node http, Bun.serve and Fetch-API platforms
+export type { NodeAdapterOptions } from './node';
+export { createNodeListener, fromNodeRequest } from './node';
+export type { FetchAdapterOptions, BunServerLike } from './fetch';
+export { handleFetchRequest, createFetchHandler, createBunHandler, fromFetchRequest } from './fetch';
 
 // Export types for consumers
 export type {
   ReplicateRequest,
+  HandlerOptions,
+  RequestOptions,
+  ProxyRequest,
+  ProxyResponse,
+  ResponseStreamWriter,
+  PredictionMode,
+  OutputFormat,
+  PredictionResponse,
   HealthResponse,
   ApiInstructionsResponse,
-  ErrorResponse
+  ErrorResponse,
+  ErrorCode,
+  ClientErrorCode,
+  UpstreamErrorCode,
+  ServerErrorCode
 } from './types';
 
+// Export error code mapping
+export type { UpstreamError } from './errors';
+export { mapReplicateError, errorCodeForStatus } from './errors';
+
 // Export validation functions
 export {
   isValidApiKey,
   isValidModelName,
+  isValidDeploymentName,
+  isValidPredictionId,
   validateReplicateRequest
 } from './types';
 
+// Export client token helpers for the server-held key mode
+export type { ClientTokenClaims, ClientTokenVerification } from './tokens';
+export {
+  mintClientToken,
+  verifyClientToken,
+  isValidClientToken
+} from './tokens';
+
+// Export model policy helpers
+export type { ModelPolicy, ModelPolicyDecision } from './policy';
+export {
+  evaluateModelPolicy,
+  parseModelPolicy
+} from './policy';
+
+// Export input schema validation helpers
+export type { InputValidationMode, InputSchema, InputFieldError, InputValidationResult } from './schemas';
+export {
+  extractInputSchema,
+  validateModelInput,
+  preloadInputSchemas,
+  clearInputSchemaCache
+} from './schemas';
+
+// Export rate limiting
+export type { RateLimitKey, RateLimitRule, RateLimitBucket, RateLimitStore, RateLimitResult, DynamoDocumentClient } from './ratelimit';
+export {
+  createMemoryRateLimitStore,
+  createDynamoRateLimitStore,
+  setRateLimitStore,
+  parseRateLimitRules
+} from './ratelimit';
+
+// Export usage accounting and quotas
+export type {
+  UsagePeriod,
+  UsageMetric,
+  UsageTotals,
+  UsageQuotas,
+  ModelPrice,
+  PriceTable,
+  UsageOptions,
+  UsageStore,
+  UsageQuotaResult,
+  UsageReport,
+  UsagePeriodReport,
+  PendingPrediction,
+  DynamoUsageClient
+} from './usage';
+export {
+  createMemoryUsageStore,
+  createDynamoUsageStore,
+  setUsageStore,
+  parseUsageQuotas,
+  parseUsagePrices,
+  estimateCost,
+  getUsageReport
+} from './usage';
+
+// Export retry policy for prediction creation
+export type { RetryPolicy, RetryEvent, RetryOptions } from './retry';
+export { loadRetryPolicy, withRetry, retryDelay } from './retry';
+
+// Export batch predictions
+export type { BatchOptions, BatchJob, BatchRequest, BatchItemResult, BatchResponse } from './batch';
+export { BATCH_PATH, loadBatchOptions, validateBatchRequest, mapWithConcurrency } from './batch';
+
+// Export response caching
+export type { CacheStatus, ResponseCacheStore, KeyValueClient } from './cache';
+export {
+  createLruCacheStore,
+  createKeyValueCacheStore,
+  setResponseCacheStore,
+  responseCacheKey
+} from './cache';
+
+// Export output rehosting
+export type { OutputStorage, OutputStorageConfig, S3Credentials } from './storage';
+export {
+  createS3OutputStorage,
+  setOutputStorage,
+  setRehostedOutputStore,
+  rehostOutputs,
+  signS3Request,
+  presignS3Url
+} from './storage';
+
+// Export inline output helpers
+export type { InlineFile, InlineOutputResponse } from './inline';
+export { inlineOutputs } from './inline';
+
+// Export multipart upload helpers
+export type { UploadLimits, UploadedFile } from './uploads';
+export { isMultipartRequest, parseMultipartRequest, resolveUploadedFiles } from './uploads';
+
 // Export configuration types and utilities
-export type { ProxyConfig } from './config';
-export { getConfig } from './config';
+export type { ProxyConfig, AuthMode } from './config';
+export { getConfig, loadConfig, resetConfig } from './config';
+export { parseByteSize, parseDuration } from './env';
 
 // Export utility functions
 export {
   withTimeout,
   sanitizeForLogs,
-  isValidJsonSize
+  redact,
+  isValidJsonSize,
+  resolveFileOutputs
 } from './utils';
 
+// Export structured logging
+export type { Logger, LogLevel, LogFields, LogSink, LoggerOptions } from './logger';
+export { createLogger, setLogSink, DEFAULT_REDACT_PATHS } from './logger';
+
+// Export the local development server and its offline Replicate stand-in
+export type { ServeOptions, DevServer } from './serve';
+export { startDevServer, parseServeArgs, parseEnvFile } from './serve';
+export type { MockReplicateOptions } from './mock';
+export { createMockReplicate } from './mock';
+
+// Export CloudWatch EMF metrics
+export type { Metrics, MetricsBatch, MetricsSink, MetricsOptions, MetricEntry, MetricUnit, MetricDimensions } from './metrics';
+export { createMetrics, setMetricsSink, emfMetricsSink, noopMetricsSink, toEmfDocument } from './metrics';
+
+// Export OpenTelemetry-compatible tracing
+export type { Span, SpanData, SpanKind, SpanAttributes, SpanExporter, MemorySpanExporter, TracingOptions, TraceContext } from './tracing';
+export {
+  setSpanExporter,
+  createMemorySpanExporter,
+  createOtlpHttpExporter,
+  parseTraceparent,
+  formatTraceparent,
+  toOtlpPayload
+} from './tracing';
+
+// Export prediction helpers
+export type { CreatePredictionOptions, RunPredictionOptions, ReplicateClientFactory } from './predictions';
+export {
+  setReplicateClientFactory,
+  createPrediction,
+  createDeploymentPrediction,
+  runPrediction,
+  runDeploymentPrediction,
+  toPredictionResponse
+} from './predictions';
+
+// Export webhook verification and sinks
+export type { WebhookEvent, WebhookSink, MemoryWebhookStore } from './webhooks';
+export {
+  verifyWebhookSignature,
+  createMemoryWebhookStore,
+  createCallbackWebhookSink,
+  defaultWebhookStore,
+  setWebhookSink
+} from './webhooks';
+
+// Export streaming helpers
+export type { PredictionStreamOptions } from './streaming';
+export {
+  formatServerSentEvent,
+  openPredictionStream
+} from './streaming';
+
 // Export response helpers
 export {
   ok,
+  accepted,
+  eventStream,
+  errorResponse,
   badRequest,
+  invalidInput,
   unauthorized,
+  paymentRequired,
+  tooManyRequests,
   notFound,
   internalServerError,
   corsPreflightResponse,
-  customError
-} from './responses';
\ No newline at end of file
+  customError,
+  getCorsHeaders
+} from './responses';
+
+// Export CORS origin matching
+export type { CorsOptions } from './cors';
+export { matchesOrigin, isOriginAllowed, loadCorsOptions } from './cors';
\ No newline at end of file
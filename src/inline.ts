@@ -0,0 +1,99 @@
+// Inline file outputs as base64 or data URLs for clients that can't fetch replicate.delivery
+import { OutputFormat } from './types';
+import { downloadFile } from './storage';
+import { createLogger } from './logger';
+
+export interface InlineFile {
+  contentType: string;
+  size: number; // decoded bytes
+  base64?: string;
+  dataUrl?: string;
+}
+
+export interface InlineOutputResponse {
+  output: any;
+  format: OutputFormat;
+  // Set when some files were left as URLs to stay under the size ceiling
+  warning?: string;
+}
+
+export interface InlineOutputOptions {
+  format: Exclude<OutputFormat, 'url'>;
+  // Ceiling on the total encoded size of inlined files
+  maxBytes: number;
+  isFileUrl: (value: string) => boolean;
+  fetchImpl?: typeof fetch;
+  requestId?: string;
+}
+
+// Base64 grows data by 4/3; this is the largest file that encodes within `encodedBytes`
+const maxDecodedBytes = (encodedBytes: number): number => Math.floor(encodedBytes / 4) * 3;
+
+// Files are inlined in output order until the ceiling is reached; the rest stay as URLs
+export const inlineOutputs = async (output: any, options: InlineOutputOptions): Promise<InlineOutputResponse> => {
+  const { format, maxBytes, isFileUrl, fetchImpl, requestId } = options;
+  let remaining = maxBytes;
+  let overLimit = 0;
+  let failed = 0;
+
+  const inlineFile = async (url: string): Promise<InlineFile | string> => {
+    try {
+      const file = await downloadFile(url, { maxBytes: maxDecodedBytes(remaining), fetchImpl });
+      if (file) {
+        const base64 = file.body.toString('base64');
+        const prefix = `data:${file.contentType};base64,`;
+        const encodedSize = format === 'dataUrl' ? prefix.length + base64.length : base64.length;
+        if (encodedSize <= remaining) {
+          remaining -= encodedSize;
+          return format === 'dataUrl'
+            ? { dataUrl: prefix + base64, contentType: file.contentType, size: file.body.length }
+            : { base64, contentType: file.contentType, size: file.body.length };
+        }
+      }
+    } catch (error: any) {
+      createLogger({ requestId }).error('Failed to inline output', { url, error: error?.message });
+      failed++;
+      return url;
+    }
+    overLimit++;
+    return url;
+  };
+
+  // Sequential so earlier outputs get the budget first
+  const walk = async (value: any): Promise<any> => {
+    if (Array.isArray(value)) {
+      const items = [];
+      for (const item of value) {
+        items.push(await walk(item));
+      }
+      return items;
+    }
+    if (typeof value === 'string') {
+      return isFileUrl(value) ? inlineFile(value) : value;
+    }
+    // Nested FileOutput objects from the Replicate client
+    if (value && typeof value.url === 'function') {
+      return inlineFile(String(value.url()));
+    }
+    if (value && typeof value === 'object') {
+      const entries: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        entries[key] = await walk(item);
+      }
+      return entries;
+    }
+    return value;
+  };
+
+  const inlined = await walk(output);
+  const warnings = [
+    overLimit > 0 && `Inline output limit of ${maxBytes} bytes reached; ${overLimit} file(s) returned as URLs`,
+    failed > 0 && `${failed} file(s) could not be downloaded and were returned as URLs`
+  ].filter(Boolean);
+
+  if (warnings.length > 0) {
+    createLogger({ requestId }).warn(warnings.join('. '));
+    return { output: inlined, format, warning: warnings.join('. ') };
+  }
+  return { output: inlined, format };
+};
@@ -0,0 +1,91 @@
+// Structured JSON logging: one line per event with redaction and level filtering
+import { redact } from './utils';
+import { ConfigEnv, readEnum, readNumber } from './env';
+import { getConfig } from './config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+// Receives each formatted line; the default writes to the console so Lambda ships it to CloudWatch
+export type LogSink = (level: LogLevel, line: string) => void;
+
+export interface LoggerOptions {
+  level: LogLevel;
+  // Key paths whose values are replaced before writing, e.g. "apiKey" or "input.*prompt"
+  redactPaths: string[];
+  // Fraction of requests (0-1) that log at debug regardless of level
+  debugSampleRate: number;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Attach fields such as route and model to every later line
+  assign(fields: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Credentials and prompt text never reach the logs
+export const DEFAULT_REDACT_PATHS = ['apiKey', 'token', 'authorization', 'cookie', 'input.*prompt', 'input.messages'];
+
+export const loadLoggerOptions = (env: ConfigEnv = process.env): LoggerOptions => {
+  const isProduction = env.NODE_ENV === 'production';
+  const extraPaths = (env.LOG_REDACT_PATHS || '').split(',').map(path => path.trim()).filter(Boolean);
+  return {
+    level: readEnum(env, 'LOG_LEVEL', Object.keys(LEVELS) as LogLevel[], isProduction ? 'warn' : 'debug'),
+    redactPaths: [...DEFAULT_REDACT_PATHS, ...extraPaths],
+    debugSampleRate: readNumber(env, 'LOG_DEBUG_SAMPLE_RATE', 0, 0, 1)
+  };
+};
+
+const consoleSink: LogSink = (level, line) => {
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+};
+
+let injectedSink: LogSink | undefined;
+
+// Ship log lines somewhere other than the console
+export const setLogSink = (sink: LogSink | undefined): void => {
+  injectedSink = sink;
+};
+
+// Loggers created without options follow the validated config, so LOG_* settings from CONFIG_FILE apply to them too
+const configuredLoggerOptions = (): LoggerOptions => {
+  const { logLevel, logRedactPaths, logDebugSampleRate } = getConfig();
+  return { level: logLevel, redactPaths: logRedactPaths, debugSampleRate: logDebugSampleRate };
+};
+
+export const createLogger = (context: LogFields = {}, options: LoggerOptions = configuredLoggerOptions()): Logger => {
+  const bound: LogFields = { ...context };
+  // Sampling is decided once so a sampled request logs all of its debug lines
+  const sampled = options.debugSampleRate > 0 && Math.random() < options.debugSampleRate;
+  const threshold = LEVELS[sampled ? 'debug' : options.level] ?? LEVELS.info;
+
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LEVELS[level] < threshold) return;
+    const entry = redact({
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...bound,
+      ...fields,
+      ...(sampled && { sampled: true })
+    }, options.redactPaths);
+    (injectedSink ?? consoleSink)(level, JSON.stringify(entry));
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    assign: (fields) => {
+      Object.assign(bound, fields);
+    }
+  };
+};
@@ -0,0 +1,106 @@
+// CloudWatch Embedded Metric Format (EMF): one JSON document per request that CloudWatch turns into metrics
+import { ConfigEnv, readBoolean } from './env';
+
+export type MetricUnit = 'Count' | 'Milliseconds';
+export type MetricDimensions = Record<string, string>;
+
+export interface MetricsOptions {
+  enabled: boolean;
+  namespace: string;
+}
+
+export interface MetricEntry {
+  name: string;
+  unit: MetricUnit;
+  values: number[];
+}
+
+// Everything recorded during one request, flushed together
+export interface MetricsBatch {
+  namespace: string;
+  timestamp: number;
+  dimensions: MetricDimensions;
+  metrics: MetricEntry[];
+}
+
+// Receives each flushed batch; the default writes EMF to stdout so Lambda ships it to CloudWatch
+export type MetricsSink = (batch: MetricsBatch) => void;
+
+export interface Metrics {
+  put(name: string, value: number, unit?: MetricUnit): void;
+  // Set dimensions such as Route and Model for the whole batch
+  assign(dimensions: MetricDimensions): void;
+  flush(): void;
+}
+
+export const loadMetricsOptions = (env: ConfigEnv = process.env): MetricsOptions => ({
+  // On by default inside Lambda, where stdout reaches CloudWatch Logs
+  enabled: readBoolean(env, 'METRICS_ENABLED', Boolean(env.AWS_LAMBDA_FUNCTION_NAME)),
+  namespace: env.METRICS_NAMESPACE || 'ReplicateProxy'
+});
+
+// Metrics roll up per route and event type, and per model when the request named one
+export const toEmfDocument = (batch: MetricsBatch): Record<string, unknown> => {
+  const dimensionSets = [['Route', 'EventType'].filter(name => name in batch.dimensions)];
+  if (batch.dimensions.Model) {
+    dimensionSets.push(['Model']);
+  }
+
+  return {
+    _aws: {
+      Timestamp: batch.timestamp,
+      CloudWatchMetrics: [{
+        Namespace: batch.namespace,
+        Dimensions: dimensionSets,
+        Metrics: batch.metrics.map(({ name, unit }) => ({ Name: name, Unit: unit }))
+      }]
+    },
+    ...batch.dimensions,
+    ...Object.fromEntries(batch.metrics.map(({ name, values }) => [name, values.length === 1 ? values[0] : values]))
+  };
+};
+
+// Bypasses console.log so runtimes that prefix log lines can't break the JSON
+export const emfMetricsSink: MetricsSink = (batch) => {
+  process.stdout.write(`${JSON.stringify(toEmfDocument(batch))}\n`);
+};
+
+export const noopMetricsSink: MetricsSink = () => undefined;
+
+let injectedSink: MetricsSink | undefined;
+
+// Send metric batches somewhere other than CloudWatch EMF on stdout, such as StatsD
+export const setMetricsSink = (sink: MetricsSink | undefined): void => {
+  injectedSink = sink;
+};
+
+export const createMetrics = (options: MetricsOptions, dimensions: MetricDimensions = {}): Metrics => {
+  const bound: MetricDimensions = { ...dimensions };
+  const entries = new Map<string, MetricEntry>();
+
+  return {
+    put: (name, value, unit = 'Count') => {
+      if (!options.enabled) return;
+      const entry = entries.get(name);
+      if (entry) {
+        entry.values.push(value);
+      } else {
+        entries.set(name, { name, unit, values: [value] });
+      }
+    },
+    assign: (fields) => {
+      Object.assign(bound, fields);
+    },
+    flush: () => {
+      if (!options.enabled || entries.size === 0) return;
+      const batch: MetricsBatch = {
+        namespace: options.namespace,
+        timestamp: Date.now(),
+        dimensions: { ...bound },
+        metrics: [...entries.values()]
+      };
+      entries.clear();
+      (injectedSink ?? emfMetricsSink)(batch);
+    }
+  };
+};
@@ -0,0 +1,125 @@
+// Offline stand-in for the Replicate client, used by the dev server's --mock mode
+import Replicate, { Prediction, ServerSentEvent } from 'replicate';
+import { randomUUID } from 'crypto';
+
+export interface MockReplicateOptions {
+  // Returned by sync runs and completed async predictions (default: one placeholder image)
+  output?: unknown;
+  // Streamed word by word in stream mode
+  streamText?: string;
+}
+
+const PLACEHOLDER_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#d4d4d8"/><text x="50%" y="50%" font-family="sans-serif" font-size="32" text-anchor="middle" fill="#52525b">mock output</text></svg>';
+
+// A data URL so frontends can render the output without network access
+export const MOCK_IMAGE_OUTPUT = `data:image/svg+xml;base64,${Buffer.from(PLACEHOLDER_SVG).toString('base64')}`;
+
+const DEFAULT_STREAM_TEXT = 'This is a mock response from the local Replicate proxy.';
+
+const modelAndVersion = (identifier: string): { model: string; version: string } => {
+  const [model, version = 'mock'] = identifier.split(':');
+  return { model, version };
+};
+
+// Predictions live in memory and complete on their first poll
+export const createMockReplicate = (options: MockReplicateOptions = {}): Replicate => {
+  const output = options.output ?? [MOCK_IMAGE_OUTPUT];
+  const streamText = options.streamText ?? DEFAULT_STREAM_TEXT;
+  const predictions = new Map<string, Prediction>();
+
+  const newPrediction = (identifier: string, input: object): Prediction => {
+    const id = randomUUID().replace(/-/g, '').slice(0, 26);
+    return {
+      id,
+      status: 'starting',
+      ...modelAndVersion(identifier),
+      input,
+      source: 'api',
+      logs: '',
+      created_at: new Date().toISOString(),
+      urls: {
+        get: `https://api.replicate.com/v1/predictions/${id}`,
+        cancel: `https://api.replicate.com/v1/predictions/${id}/cancel`
+      }
+    };
+  };
+
+  const findPrediction = (id: string): Prediction => {
+    const prediction = predictions.get(id);
+    if (!prediction) {
+      throw Object.assign(new Error(`Prediction ${id} not found`), { response: { status: 404 } });
+    }
+    return prediction;
+  };
+
+  const client = {
+    run: async (identifier: string, { input }: { input: object }, progress?: (prediction: Prediction) => void) => {
+      progress?.(newPrediction(identifier, input));
+      return output;
+    },
+
+    stream: async function* (): AsyncGenerator<ServerSentEvent> {
+      const words = streamText.split(/(?<= )/);
+      for (const word of words) {
+        yield { event: 'output', data: word };
+      }
+      yield { event: 'done', data: '{}' };
+    },
+
+    predictions: {
+      create: async ({ model, version, input }: { model?: string; version?: string; input: object }) => {
+        const prediction = newPrediction(model ?? `mock/model:${version}`, input);
+        predictions.set(prediction.id, prediction);
+        return prediction;
+      },
+      get: async (id: string) => {
+        const prediction = findPrediction(id);
+        if (prediction.status === 'starting' || prediction.status === 'processing') {
+          Object.assign(prediction, { status: 'succeeded', output, completed_at: new Date().toISOString() });
+        }
+        return prediction;
+      },
+      cancel: async (id: string) => {
+        const prediction = findPrediction(id);
+        if (prediction.status === 'starting' || prediction.status === 'processing') {
+          Object.assign(prediction, { status: 'canceled', completed_at: new Date().toISOString() });
+        }
+        return prediction;
+      }
+    },
+
+    deployments: {
+      predictions: {
+        create: async (owner: string, name: string, { input }: { input: object }) => {
+          const prediction = newPrediction(`${owner}/${name}`, input);
+          predictions.set(prediction.id, prediction);
+          return prediction;
+        }
+      }
+    },
+
+    wait: async (prediction: Prediction) => client.predictions.get(prediction.id),
+
+    // No schema is published, so input validation is skipped
+    models: {
+      get: async () => ({ latest_version: undefined }),
+      versions: {
+        get: async () => ({ openapi_schema: undefined })
+      }
+    },
+
+    files: {
+      create: async (file: Blob) => {
+        const id = randomUUID();
+        return {
+          id,
+          content_type: file.type,
+          size: file.size,
+          urls: { get: `data:${file.type};base64,${Buffer.from(await file.arrayBuffer()).toString('base64')}` }
+        };
+      }
+    }
+  };
+
+  return client as unknown as Replicate;
+};
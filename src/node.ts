@@ -0,0 +1,91 @@
+// Node.js http adapter: http.createServer(createNodeListener()).listen(3000)
+import type { IncomingMessage, ServerResponse } from 'http';
+import { handleRequest } from './proxy';
+import { ProxyRequest, ProxyResponse, ResponseStreamWriter } from './types';
+import { customError, internalServerError } from './responses';
+import { CONSTANTS } from './config';
+
+export interface NodeAdapterOptions {
+  // Largest request body read into memory (default 6MB, Lambda's payload limit)
+  maxBodySize?: number;
+}
+
+// Resolves undefined once the body passes maxBytes; the rest of the upload is drained and dropped
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer | undefined> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () => resolve(size <= maxBytes ? Buffer.concat(chunks) : undefined));
+    req.on('error', reject);
+  });
+
+export const fromNodeRequest = (req: IncomingMessage, body: Buffer): ProxyRequest => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  return {
+    method: req.method || 'GET',
+    path: url.pathname,
+    // Repeated headers arrive as arrays; join them the way fetch Headers does
+    headers: Object.fromEntries(
+      Object.entries(req.headers)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value!])
+    ),
+    body: body.length > 0 ? body : null,
+    query: Object.fromEntries(url.searchParams),
+    sourceIp: req.socket.remoteAddress
+  };
+};
+
+const sendResponse = (res: ServerResponse, response: ProxyResponse): void => {
+  res.writeHead(response.statusCode, response.headers);
+  res.end(response.body);
+};
+
+export const createNodeListener = (options: NodeAdapterOptions = {}) => {
+  const maxBodySize = options.maxBodySize ?? CONSTANTS.MAX_BODY_SIZE;
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const origin = req.headers.origin;
+    try {
+      const body = await readBody(req, maxBodySize);
+      if (!body) {
+        sendResponse(res, customError(413, `Request body too large. Maximum size: ${maxBodySize} bytes`, undefined, origin));
+        return;
+      }
+
+      // A closed connection before the response finished means the client went away
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+      });
+
+      const responseStream: ResponseStreamWriter = {
+        start: (statusCode, headers) => {
+          res.writeHead(statusCode, headers);
+          res.flushHeaders();
+        },
+        write: (chunk) => {
+          res.write(chunk);
+        }
+      };
+
+      const result = await handleRequest(fromNodeRequest(req, body), { signal: controller.signal, responseStream, eventType: 'node' });
+      // Streamed predictions have already written their status and events
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendResponse(res, result);
+    } catch (error: any) {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      sendResponse(res, internalServerError('Internal server error', error?.message, undefined, origin));
+    }
+  };
+};
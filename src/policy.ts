@@ -0,0 +1,95 @@
+// Model allowlist/denylist policy
+import { readFileSync } from 'fs';
+
+// Rules are exact "owner/model", owner wildcards "owner/*" or pinned versions "owner/model:version"
+export interface ModelPolicy {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface ModelPolicyDecision {
+  allowed: boolean;
+  rule?: string;
+  reason?: string;
+}
+
+const RULE_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9-_.]*\/(\*|[a-zA-Z0-9][a-zA-Z0-9-_.]*(:[a-zA-Z0-9]+)?)$/;
+
+export const parseModelPolicy = (json: string, source: string): ModelPolicy => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Invalid model policy in ${source}: ${e.message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid model policy in ${source}: expected an object with "allow" and/or "deny" lists`);
+  }
+
+  for (const key of ['allow', 'deny'] as const) {
+    const rules = parsed[key];
+    if (rules === undefined) continue;
+    if (!Array.isArray(rules)) {
+      throw new Error(`Invalid model policy in ${source}: "${key}" must be an array`);
+    }
+    const invalid = rules.find((rule: unknown) => typeof rule !== 'string' || !RULE_PATTERN.test(rule));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid model policy in ${source}: "${key}" rule ${JSON.stringify(invalid)} must be "owner/model", "owner/*" or "owner/model:version"`);
+    }
+  }
+
+  return { allow: parsed.allow, deny: parsed.deny };
+};
+
+const policyFileCache = new Map<string, ModelPolicy>();
+
+// MODEL_POLICY (inline JSON) wins over MODEL_POLICY_FILE; files are read once per cold start
+export const loadModelPolicy = (env: Record<string, string | undefined> = process.env): ModelPolicy | undefined => {
+  if (env.MODEL_POLICY) {
+    return parseModelPolicy(env.MODEL_POLICY, 'MODEL_POLICY');
+  }
+
+  const file = env.MODEL_POLICY_FILE;
+  if (!file) return undefined;
+
+  if (!policyFileCache.has(file)) {
+    let contents: string;
+    try {
+      contents = readFileSync(file, 'utf8');
+    } catch (e: any) {
+      throw new Error(`Unable to read MODEL_POLICY_FILE ${file}: ${e.message}`);
+    }
+    policyFileCache.set(file, parseModelPolicy(contents, file));
+  }
+  return policyFileCache.get(file);
+};
+
+export const matchesModelRule = (rule: string, model: string): boolean => {
+  const [name] = model.split(':');
+  if (rule.endsWith('/*')) {
+    return name.startsWith(rule.slice(0, -1));
+  }
+  // A rule without a version covers every version; a pinned rule only that version
+  return rule.includes(':') ? rule === model : rule === name;
+};
+
+// Deny rules win over allow rules; with an allowlist, anything it doesn't cover is denied
+export const evaluateModelPolicy = (policy: ModelPolicy | undefined, model: string): ModelPolicyDecision => {
+  if (!policy) return { allowed: true };
+
+  const denyRule = policy.deny?.find(rule => matchesModelRule(rule, model));
+  if (denyRule) {
+    return { allowed: false, rule: `deny:${denyRule}`, reason: `Model ${model} matches deny rule "${denyRule}"` };
+  }
+
+  if (policy.allow && policy.allow.length > 0) {
+    const allowRule = policy.allow.find(rule => matchesModelRule(rule, model));
+    if (!allowRule) {
+      return { allowed: false, rule: 'allow', reason: `Model ${model} does not match any allow rule` };
+    }
+    return { allowed: true, rule: `allow:${allowRule}` };
+  }
+
+  return { allowed: true };
+};
@@ -0,0 +1,248 @@
+// Helpers for running, polling and cancelling predictions created through the proxy
+import Replicate, { Prediction } from 'replicate';
+import { PredictionResponse } from './types';
+import { resolveFileOutputs, withTimeout } from './utils';
+import { createLogger } from './logger';
+import { RetryEvent, RetryPolicy, withRetry } from './retry';
+
+export const PREDICTIONS_PATH = '/api/replicate/predictions';
+
+// Matches /api/replicate/predictions/{id} and /api/replicate/predictions/{id}/cancel
+export const PREDICTION_ROUTE = /^\/api\/replicate\/predictions\/([^/]+)(\/cancel)?$/;
+
+export const predictionPath = (id: string): string => `${PREDICTIONS_PATH}/${id}`;
+
+export type ReplicateClientFactory = (auth: string) => Replicate;
+
+let injectedClientFactory: ReplicateClientFactory | undefined;
+
+// The dev server's --mock mode swaps in an offline stand-in for the Replicate client
+export const setReplicateClientFactory = (factory: ReplicateClientFactory | undefined): void => {
+  injectedClientFactory = factory;
+};
+
+export const createReplicateClient = (auth: string): Replicate =>
+  injectedClientFactory ? injectedClientFactory(auth) : new Replicate({ auth });
+
+// Creation failures happen before Replicate has started (and billed) anything, so only they are retried
+export interface PredictionRetryOptions {
+  retry?: RetryPolicy;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface CreatePredictionOptions extends PredictionRetryOptions {
+  // Replicate posts the completed prediction here
+  webhook?: string;
+  // Epoch ms after which no retry is started
+  deadline?: number;
+}
+
+const createWithRetry = <T>(options: PredictionRetryOptions, deadline: number | undefined, create: () => Promise<T>): Promise<T> =>
+  options.retry ? withRetry(create, { policy: options.retry, deadline, onRetry: options.onRetry }) : create();
+
+const webhookOptions = (options: CreatePredictionOptions) => options.webhook
+  ? { webhook: options.webhook, webhook_events_filter: ['completed' as const] }
+  : {};
+
+// Start a prediction without waiting for it to finish
+export const createPrediction = (
+  replicate: Replicate,
+  model: string,
+  input: Record<string, any>,
+  options: CreatePredictionOptions = {}
+): Promise<Prediction> => {
+  const [name, version] = model.split(':');
+  return createWithRetry(options, options.deadline, () => version
+    ? replicate.predictions.create({ version, input, ...webhookOptions(options) })
+    : replicate.predictions.create({ model: name, input, ...webhookOptions(options) }));
+};
+
+// Start a prediction on a deployment's current release
+export const createDeploymentPrediction = (
+  replicate: Replicate,
+  deployment: string,
+  input: Record<string, any>,
+  options: CreatePredictionOptions = {}
+): Promise<Prediction> => {
+  const [owner, name] = deployment.split('/');
+  return createWithRetry(options, options.deadline, () =>
+    replicate.deployments.predictions.create(owner, name, { input, ...webhookOptions(options) }));
+};
+
+// Shape a Replicate prediction for the client, converting file outputs to URLs like the sync path.
+// Token-mode predictions pass their owner tag, which the URLs carry as ?owner=
+export const toPredictionResponse = async (prediction: Prediction, ownerTag?: string): Promise<PredictionResponse> => {
+  const query = ownerTag ? `?owner=${ownerTag}` : '';
+  return {
+    id: prediction.id,
+    status: prediction.status,
+    output: await resolveFileOutputs(prediction.output ?? null),
+    logs: prediction.logs ?? '',
+    error: prediction.error ? String(prediction.error) : null,
+    urls: {
+      get: `${predictionPath(prediction.id)}${query}`,
+      cancel: `${predictionPath(prediction.id)}/cancel${query}`
+    }
+  };
+};
+
+export interface RunPredictionOptions extends PredictionRetryOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  requestId?: string;
+  // Receives the prediction as Replicate reports it, ending with its settled state
+  onPrediction?: (prediction: Prediction) => void;
+  // Time left before the invocation is stopped; a prediction still running then is handed back instead of cancelled
+  handoffAfterMs?: number;
+}
+
+// Thrown by the sync runners when the prediction outlives the invocation; the caller polls it from here on
+export const isPredictionHandoff = (error: any): error is Error & { prediction: Prediction } => error?.name === 'HandoffError';
+
+const handedOffError = () => Promise.reject(new Error('Prediction was handed off'));
+
+// Once a prediction is handed off the caller polls it, so run() and wait() get a view of the client
+// that stops polling without cancelling; aborting their signal instead would cancel the prediction
+const detachOnHandoff = (replicate: Replicate, handoff: AbortSignal): Replicate =>
+  Object.assign(Object.create(replicate), {
+    predictions: {
+      ...replicate.predictions,
+      get: (id: string) => handoff.aborted ? handedOffError() : replicate.predictions.get(id),
+      cancel: (id: string) => handoff.aborted ? handedOffError() : replicate.predictions.cancel(id)
+    }
+  });
+
+// Shared timeout and cancellation handling for sync predictions
+const runToCompletion = async (
+  replicate: Replicate,
+  options: RunPredictionOptions,
+  // blocking asks Replicate to hold the create response (Prefer: wait) until the prediction finishes
+  start: (
+    client: Replicate,
+    signal: AbortSignal,
+    onProgress: (prediction: Prediction) => void,
+    blocking: boolean,
+    handoff: AbortSignal
+  ) => Promise<any>
+): Promise<any> => {
+  const { timeoutMs, handoffAfterMs, signal, requestId } = options;
+  const controller = new AbortController();
+  // Aborted when the prediction is handed off: polling stops but the prediction keeps running
+  const handoff = new AbortController();
+  const client = detachOnHandoff(replicate, handoff.signal);
+  let predictionId: string | undefined;
+  let latestPrediction: Prediction | undefined;
+  let handedOff: Prediction | undefined;
+
+  // REPLICATE_TIMEOUT cancels the prediction; running out of invocation time first hands it off
+  const handsOff = handoffAfterMs !== undefined && handoffAfterMs < timeoutMs;
+  const budgetMs = handsOff ? Math.max(0, handoffAfterMs) : timeoutMs;
+  // A blocking create reports no prediction until Replicate stops waiting, which can be after the
+  // handoff point, so a prediction that may be handed off is created right away and polled instead
+  const blocking = !handsOff;
+
+  const onProgress = (prediction: Prediction) => {
+    // The 202 has already described the prediction; later states are for the caller's polls
+    if (handoff.signal.aborted) return;
+    predictionId = prediction.id;
+    latestPrediction = prediction;
+    options.onPrediction?.(prediction);
+  };
+  // Retries share the time budget, and stop for good once Replicate has reported a prediction
+  const run = options.retry
+    ? withRetry(() => start(client, controller.signal, onProgress, blocking, handoff.signal), {
+        policy: options.retry,
+        deadline: Date.now() + budgetMs,
+        signal: controller.signal,
+        canRetry: () => predictionId === undefined,
+        onRetry: options.onRetry
+      })
+    : start(client, controller.signal, onProgress, blocking, handoff.signal);
+
+  const clientGone = new Promise<never>((_, reject) => {
+    const onAbort = () => reject(Object.assign(new Error('Client closed the connection'), { name: 'AbortError' }));
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await withTimeout(
+      Promise.race([run, clientGone]),
+      budgetMs,
+      handsOff ? 'Replicate API call did not start before the invocation deadline' : `Replicate API call timed out after ${timeoutMs}ms`,
+      () => {
+        // Leave a started prediction running; one still being created can't be handed off, so it is abandoned
+        if (handsOff && latestPrediction) {
+          handedOff = latestPrediction;
+          handoff.abort();
+        } else {
+          controller.abort();
+        }
+      }
+    );
+  } catch (error) {
+    if (handedOff) {
+      throw Object.assign(new Error('Prediction is still running'), { name: 'HandoffError', prediction: handedOff });
+    }
+    if (controller.signal.aborted || signal?.aborted) {
+      controller.abort();
+      // Without an id the prediction is still being created; the aborted signal makes run() cancel it once it exists
+      if (predictionId) {
+        try {
+          await replicate.predictions.cancel(predictionId);
+          createLogger({ requestId }).warn('Cancelled prediction', { predictionId });
+        } catch (cancelError: any) {
+          createLogger({ requestId }).error('Failed to cancel prediction', { predictionId, error: cancelError?.message });
+        }
+      }
+    }
+    throw error;
+  }
+};
+
+// Run a prediction to completion, cancelling it on Replicate if the timeout fires or the client goes away
+export const runPrediction = (
+  replicate: Replicate,
+  model: string,
+  input: Record<string, any>,
+  options: RunPredictionOptions
+): Promise<any> =>
+  runToCompletion(replicate, options, (client, signal, onProgress, blocking) => client.run(
+    model as `${string}/${string}` | `${string}/${string}:${string}`,
+    { input, signal, ...(!blocking && { wait: { mode: 'poll' as const } }) },
+    onProgress
+  ));
+
+// Deployments have no run() helper, so create the prediction and poll it until it settles
+export const runDeploymentPrediction = (
+  replicate: Replicate,
+  deployment: string,
+  input: Record<string, any>,
+  options: RunPredictionOptions
+): Promise<any> =>
+  runToCompletion(replicate, options, async (client, signal, onProgress, blocking, handoff) => {
+    const [owner, name] = deployment.split('/');
+    // Like run(), a blocking create has Replicate hold the response until the prediction finishes or its wait limit passes
+    const created = await client.deployments.predictions.create(owner, name, { input, wait: blocking, signal });
+    onProgress(created);
+    const prediction = await client.wait(created, {}, async () => signal.aborted || handoff.aborted);
+    if (handoff.aborted) {
+      throw new Error('Prediction was handed off');
+    }
+    onProgress(prediction);
+    // Like run(), cancel a prediction whose creation finished after the abort
+    if (signal.aborted) {
+      await replicate.predictions.cancel(created.id);
+      throw new Error('Prediction aborted');
+    }
+    if (prediction.status === 'failed') {
+      throw new Error(`Prediction failed: ${prediction.error}`);
+    }
+    if (prediction.status === 'canceled') {
+      throw new Error('Prediction was canceled');
+    }
+    return prediction.output;
+  });
@@ -0,0 +1,220 @@
+// Token-bucket rate limiting keyed on client IP, Origin or hashed credential
+import { createHash } from 'crypto';
+import { matchesModelRule } from './policy';
+
+export type RateLimitKey = 'ip' | 'origin' | 'credential';
+
+// A bucket holds `limit` tokens and refills completely over `windowSeconds`
+export interface RateLimitRule {
+  key: RateLimitKey;
+  limit: number;
+  windowSeconds: number;
+  // Only apply to matching models ("owner/model", "owner/*" or "owner/model:version")
+  model?: string;
+}
+
+export interface RateLimitBucket {
+  tokens: number;
+  updatedAt: number; // ms since epoch
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitBucket | undefined>;
+  // Write only if the bucket still matches `previous`; returns false when another request won the race
+  set(key: string, bucket: RateLimitBucket, previous: RateLimitBucket | undefined, ttlSeconds: number): Promise<boolean>;
+}
+
+export interface RateLimitIdentity {
+  ip?: string;
+  origin?: string;
+  credential?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  rule?: RateLimitRule;
+  limit?: number;
+  remaining?: number;
+  resetSeconds?: number;
+  retryAfterSeconds?: number;
+}
+
+const RATE_LIMIT_KEYS: RateLimitKey[] = ['ip', 'origin', 'credential'];
+const MAX_WRITE_ATTEMPTS = 3;
+
+export const parseRateLimitRules = (json: string, source: string): RateLimitRule[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Invalid rate limits in ${source}: ${e.message}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Invalid rate limits in ${source}: expected an array of rules`);
+  }
+
+  return parsed.map((rule: any, index: number) => {
+    if (!rule || !RATE_LIMIT_KEYS.includes(rule.key)) {
+      throw new Error(`Invalid rate limits in ${source}: rule ${index} "key" must be one of: ${RATE_LIMIT_KEYS.join(', ')}`);
+    }
+    if (!Number.isInteger(rule.limit) || rule.limit < 1) {
+      throw new Error(`Invalid rate limits in ${source}: rule ${index} "limit" must be a positive integer`);
+    }
+    if (typeof rule.windowSeconds !== 'number' || !(rule.windowSeconds > 0)) {
+      throw new Error(`Invalid rate limits in ${source}: rule ${index} "windowSeconds" must be a positive number`);
+    }
+    if (rule.model !== undefined && typeof rule.model !== 'string') {
+      throw new Error(`Invalid rate limits in ${source}: rule ${index} "model" must be a string`);
+    }
+    return { key: rule.key, limit: rule.limit, windowSeconds: rule.windowSeconds, ...(rule.model && { model: rule.model }) };
+  });
+};
+
+export const loadRateLimitRules = (env: Record<string, string | undefined> = process.env): RateLimitRule[] =>
+  env.RATE_LIMITS ? parseRateLimitRules(env.RATE_LIMITS, 'RATE_LIMITS') : [];
+
+// Credentials are only ever used as bucket keys in hashed form
+export const hashCredential = (credential: string): string =>
+  createHash('sha256').update(credential).digest('hex').slice(0, 32);
+
+export const createMemoryRateLimitStore = (): RateLimitStore & { clear(): void } => {
+  const buckets = new Map<string, RateLimitBucket & { expiresAt: number }>();
+  return {
+    get: async (key) => {
+      const bucket = buckets.get(key);
+      if (!bucket || bucket.expiresAt <= Date.now()) return undefined;
+      return { tokens: bucket.tokens, updatedAt: bucket.updatedAt };
+    },
+    set: async (key, bucket, previous, ttlSeconds) => {
+      const current = buckets.get(key);
+      const currentUpdatedAt = current && current.expiresAt > Date.now() ? current.updatedAt : undefined;
+      if (currentUpdatedAt !== previous?.updatedAt) return false;
+      buckets.set(key, { ...bucket, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return true;
+    },
+    clear: () => buckets.clear()
+  };
+};
+
+// The subset of DynamoDBDocument (@aws-sdk/lib-dynamodb) used by the adapter
+export interface DynamoDocumentClient {
+  get(params: { TableName: string; Key: Record<string, any>; ConsistentRead?: boolean }): Promise<{ Item?: Record<string, any> }>;
+  put(params: {
+    TableName: string;
+    Item: Record<string, any>;
+    ConditionExpression?: string;
+    ExpressionAttributeValues?: Record<string, any>;
+  }): Promise<unknown>;
+}
+
+// Buckets are items keyed by `pk`; enable DynamoDB TTL on `expiresAt` to clean up idle buckets
+export const createDynamoRateLimitStore = (client: DynamoDocumentClient, tableName: string): RateLimitStore => ({
+  get: async (key) => {
+    const { Item } = await client.get({ TableName: tableName, Key: { pk: key }, ConsistentRead: true });
+    return Item ? { tokens: Item.tokens, updatedAt: Item.updatedAt } : undefined;
+  },
+  set: async (key, bucket, previous, ttlSeconds) => {
+    try {
+      await client.put({
+        TableName: tableName,
+        Item: { pk: key, ...bucket, expiresAt: Math.ceil(Date.now() / 1000) + ttlSeconds },
+        ...(previous
+          ? { ConditionExpression: 'updatedAt = :previous', ExpressionAttributeValues: { ':previous': previous.updatedAt } }
+          : { ConditionExpression: 'attribute_not_exists(pk)' })
+      });
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') return false;
+      throw error;
+    }
+  }
+});
+
+const refill = (bucket: RateLimitBucket | undefined, rule: RateLimitRule, now: number): number => {
+  if (!bucket) return rule.limit;
+  const refillPerMs = rule.limit / (rule.windowSeconds * 1000);
+  return Math.min(rule.limit, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs);
+};
+
+// Take one token from the bucket, retrying when a concurrent request updated it first
+export const consumeRateLimit = async (
+  store: RateLimitStore,
+  bucketKey: string,
+  rule: RateLimitRule,
+  now: number = Date.now()
+): Promise<RateLimitResult> => {
+  const msPerToken = (rule.windowSeconds * 1000) / rule.limit;
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const previous = await store.get(bucketKey);
+    const tokens = refill(previous, rule, now);
+
+    if (tokens < 1) {
+      return {
+        allowed: false,
+        rule,
+        limit: rule.limit,
+        remaining: 0,
+        resetSeconds: Math.ceil(((rule.limit - tokens) * msPerToken) / 1000),
+        retryAfterSeconds: Math.max(1, Math.ceil(((1 - tokens) * msPerToken) / 1000))
+      };
+    }
+
+    const bucket = { tokens: tokens - 1, updatedAt: now };
+    if (await store.set(bucketKey, bucket, previous, Math.ceil(rule.windowSeconds))) {
+      return {
+        allowed: true,
+        rule,
+        limit: rule.limit,
+        remaining: Math.floor(bucket.tokens),
+        resetSeconds: Math.ceil(((rule.limit - bucket.tokens) * msPerToken) / 1000)
+      };
+    }
+  }
+
+  // Heavy contention on one bucket is itself a sign the client should back off
+  return { allowed: false, rule, limit: rule.limit, remaining: 0, resetSeconds: Math.ceil(msPerToken / 1000), retryAfterSeconds: 1 };
+};
+
+// Apply every rule for this model in order; the first exhausted bucket rejects the request
+export const checkRateLimits = async (
+  store: RateLimitStore,
+  rules: RateLimitRule[],
+  identity: RateLimitIdentity,
+  model: string,
+  now: number = Date.now()
+): Promise<RateLimitResult> => {
+  for (const rule of rules) {
+    if (rule.model && !matchesModelRule(rule.model, model)) continue;
+
+    const value = identity[rule.key];
+    if (!value) continue;
+
+    const bucketKey = `${rule.key}:${rule.model || '*'}:${rule.limit}/${rule.windowSeconds}:${value}`;
+    const result = await consumeRateLimit(store, bucketKey, rule, now);
+    if (!result.allowed) return result;
+  }
+  return { allowed: true };
+};
+
+export const rateLimitHeaders = (result: RateLimitResult): Record<string, string> => ({
+  'Retry-After': String(result.retryAfterSeconds ?? 1),
+  'RateLimit-Limit': String(result.limit),
+  'RateLimit-Remaining': String(result.remaining),
+  'RateLimit-Reset': String(result.resetSeconds)
+});
+
+const defaultRateLimitStore = createMemoryRateLimitStore();
+let injectedStore: RateLimitStore | undefined;
+
+// Concurrent instances each refill their own buckets unless they share a store
+export const setRateLimitStore = (store: RateLimitStore | undefined): void => {
+  injectedStore = store;
+};
+
+export const getRateLimitStore = (): RateLimitStore => injectedStore || defaultRateLimitStore;
+
+export const resetRateLimits = (): void => {
+  defaultRateLimitStore.clear();
+};
@@ -1,59 +1,134 @@
-import { APIGatewayProxyResult } from 'aws-lambda';
+import { ProxyResponse, ErrorResponse, ErrorCode } from './types';
+import { errorCodeForStatus } from './errors';
 import { getConfig } from './config';
+import { InputFieldError } from './schemas';
+import { resolveAllowedOrigin } from './cors';
 
-// Generate CORS headers based on configuration
-const getCorsHeaders = (origin?: string) => {
-  const config = getConfig();
-  const allowedOrigins = config.corsAllowedOrigins;
-  
-  let corsOrigin = '*';
-  if (origin && allowedOrigins.length > 0 && !allowedOrigins.includes('*')) {
-    corsOrigin = allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+// Generate CORS headers for the request origin; disallowed origins only get Vary
+export const getCorsHeaders = (origin?: string, preflight: boolean = false): Record<string, string> => {
+  const { cors } = getConfig();
+  // Responses differ by origin, so shared caches must key on it
+  const headers: Record<string, string> = { 'Vary': 'Origin' };
+
+  const allowOrigin = resolveAllowedOrigin(origin, cors);
+  if (!allowOrigin) {
+    return headers;
   }
-  
-  return {
-    'Access-Control-Allow-Origin': corsOrigin,
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    'Content-Type': 'application/json'
-  };
+
+  headers['Access-Control-Allow-Origin'] = allowOrigin;
+  headers['Access-Control-Allow-Methods'] = 'GET, POST, OPTIONS';
+  headers['Access-Control-Allow-Headers'] = cors.allowedHeaders.join(', ');
+  if (cors.allowCredentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  if (preflight) {
+    headers['Access-Control-Max-Age'] = String(cors.maxAgeSeconds);
+  } else if (cors.exposedHeaders.length > 0) {
+    headers['Access-Control-Expose-Headers'] = cors.exposedHeaders.join(', ');
+  }
+  return headers;
+};
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+// Proxies and CDNs must not buffer or cache an event stream
+const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'X-Accel-Buffering': 'no'
 };
 
+// Headers for a streamed response, where the body is written separately
+export const eventStreamHeaders = (origin?: string): Record<string, string> => 
+  ({ ...getCorsHeaders(origin), ...EVENT_STREAM_HEADERS });
+
 export const createResponse = (
   statusCode: number,
   body: object | string,
   headers: Record<string, string> = {},
   origin?: string
-): APIGatewayProxyResult => {
+): ProxyResponse => {
   const corsHeaders = getCorsHeaders(origin);
   return {
     statusCode,
-    headers: { ...corsHeaders, ...headers },
+    headers: { ...corsHeaders, ...JSON_HEADERS, ...headers },
     body: typeof body === 'string' ? body : JSON.stringify(body)
   };
 };
 
-export const ok = (body: object, origin?: string): APIGatewayProxyResult => 
+export const ok = (body: object, origin?: string): ProxyResponse => 
   createResponse(200, body, {}, origin);
 
-export const badRequest = (error: string, details?: string, origin?: string): APIGatewayProxyResult => 
-  createResponse(400, { error, ...(details && { details }) }, {}, origin);
+export const accepted = (body: object, origin?: string): ProxyResponse => 
+  createResponse(202, body, {}, origin);
 
-export const unauthorized = (error: string = 'API key is required', origin?: string): APIGatewayProxyResult => 
-  createResponse(401, { error }, {}, origin);
+// Buffered Server-Sent Events body for runtimes without response streaming
+export const eventStream = (body: string, origin?: string): ProxyResponse => 
+  createResponse(200, body, EVENT_STREAM_HEADERS, origin);
 
-export const notFound = (message: string, origin?: string): APIGatewayProxyResult => 
-  createResponse(404, { message, error: 'Not Found', statusCode: 404 }, {}, origin);
+// Every error shares one envelope: a stable code, a message and the time it happened
+export const errorResponse = (
+  statusCode: number,
+  code: ErrorCode,
+  error: string,
+  extra: Pick<ErrorResponse, 'details' | 'stack' | 'fields'> = {},
+  headers: Record<string, string> = {},
+  origin?: string
+): ProxyResponse => {
+  const body: ErrorResponse = {
+    code,
+    error,
+    ...(extra.details && { details: extra.details }),
+    ...(extra.fields && { fields: extra.fields }),
+    ...(extra.stack && { stack: extra.stack }),
+    timestamp: new Date().toISOString()
+  };
+  return createResponse(statusCode, body, headers, origin);
+};
+
+export const badRequest = (error: string, details?: string, origin?: string, code: ErrorCode = 'BAD_REQUEST'): ProxyResponse => 
+  errorResponse(400, code, error, { details }, {}, origin);
 
-export const internalServerError = (error: string, details?: string, stack?: string, origin?: string): APIGatewayProxyResult => 
-  createResponse(500, { 
-    error, 
-    ...(details && { details }),
-    ...(stack && { stack })
+export const invalidInput = (fields: InputFieldError[], origin?: string): ProxyResponse => 
+  errorResponse(400, 'INVALID_INPUT', 'Invalid model input', {
+    details: fields.map(field => `${field.path}: ${field.message}`).join('; '),
+    fields
   }, {}, origin);
 
-export const corsPreflightResponse = (origin?: string): APIGatewayProxyResult => 
-  createResponse(200, '', {}, origin);
+export const unauthorized = (error: string = 'API key is required', origin?: string): ProxyResponse => 
+  errorResponse(401, 'UNAUTHORIZED', error, {}, {}, origin);
+
+export const paymentRequired = (error: string, headers: Record<string, string>, origin?: string, code: ErrorCode = 'SPEND_QUOTA_EXCEEDED'): ProxyResponse => 
+  errorResponse(402, code, error, {}, headers, origin);
+
+export const tooManyRequests = (error: string, headers: Record<string, string>, origin?: string, code: ErrorCode = 'RATE_LIMITED'): ProxyResponse => 
+  errorResponse(429, code, error, {}, headers, origin);
+
+export const notFound = (message: string, origin?: string): ProxyResponse => 
+  errorResponse(404, 'NOT_FOUND', message, {}, {}, origin);
+
+export const internalServerError = (error: string, details?: string, stack?: string, origin?: string, code: ErrorCode = 'INTERNAL_ERROR'): ProxyResponse => 
+  errorResponse(500, code, error, { details, stack }, {}, origin);
+
+// Used when the configuration itself fails to load, so it can't depend on getConfig; without
+// CORS settings there are no CORS headers, and browsers see a network error
+export const configurationErrorResponse = (): ProxyResponse => {
+  const body: ErrorResponse = { code: 'NOT_CONFIGURED', error: 'Server configuration is invalid', timestamp: new Date().toISOString() };
+  return { statusCode: 500, headers: JSON_HEADERS, body: JSON.stringify(body) };
+};
+
+// Preflights from origins outside CORS_ALLOWED_ORIGINS are refused outright
+export const corsPreflightResponse = (origin?: string): ProxyResponse => {
+  if (origin && !resolveAllowedOrigin(origin, getConfig().cors)) {
+    return errorResponse(403, 'ORIGIN_NOT_ALLOWED', 'Origin not allowed', {}, {}, origin);
+  }
+  return {
+    statusCode: 200,
+    headers: { ...getCorsHeaders(origin, true), ...JSON_HEADERS },
+    body: ''
+  };
+};
 
-export const customError = (statusCode: number, error: string, details?: string, origin?: string): APIGatewayProxyResult => 
-  createResponse(statusCode, { error, ...(details && { details }) }, {}, origin);
\ No newline at end of file
+// The code defaults to the generic one for the status
+export const customError = (statusCode: number, error: string, details?: string, origin?: string, code?: ErrorCode): ProxyResponse => 
+  errorResponse(statusCode, code ?? errorCodeForStatus(statusCode), error, { details }, {}, origin);
\ No newline at end of file
@@ -0,0 +1,113 @@
+// Retries transient Replicate failures while a prediction is being created, with exponential backoff and jitter
+import { ConfigEnv, readDuration, readInteger } from './env';
+
+export interface RetryPolicy {
+  // Total calls including the first; 1 turns retries off
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Replicate HTTP statuses worth another attempt
+  retryableStatuses: number[];
+}
+
+export interface RetryEvent {
+  // The attempt about to be made
+  attempt: number;
+  delayMs: number;
+  error: any;
+}
+
+export interface RetryOptions {
+  policy: RetryPolicy;
+  // Epoch ms; a retry that could not start before this is not attempted
+  deadline?: number;
+  // Aborting ends a backoff early and rethrows the last error
+  signal?: AbortSignal;
+  // Checked after each failure, e.g. to refuse once the prediction has started
+  canRetry?: (error: any) => boolean;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+const parseStatuses = (value: string): number[] => value.split(',').map(item => {
+  const status = Number(item.trim());
+  if (!Number.isInteger(status) || status < 400 || status > 599) {
+    throw new Error(`REPLICATE_RETRY_STATUSES must list HTTP error statuses, got "${item.trim()}"`);
+  }
+  return status;
+});
+
+// REPLICATE_RETRY_ATTEMPTS, REPLICATE_RETRY_BASE_DELAY, REPLICATE_RETRY_MAX_DELAY and REPLICATE_RETRY_STATUSES
+export const loadRetryPolicy = (env: ConfigEnv = process.env): RetryPolicy => ({
+  maxAttempts: readInteger(env, 'REPLICATE_RETRY_ATTEMPTS', 3, 1),
+  baseDelayMs: readDuration(env, 'REPLICATE_RETRY_BASE_DELAY', 250, 'ms'),
+  maxDelayMs: readDuration(env, 'REPLICATE_RETRY_MAX_DELAY', 5000, 'ms', 1),
+  // Only 503 by default: after a 502 or 504 the prediction may exist and be billed, and the
+  // Replicate client already retries 429s itself
+  retryableStatuses: parseStatuses(env.REPLICATE_RETRY_STATUSES || '503')
+});
+
+const errorStatus = (error: any): number | undefined => error?.status || error?.response?.status;
+
+export const isRetryableError = (error: any, policy: RetryPolicy): boolean => {
+  const status = errorStatus(error);
+  return status !== undefined && policy.retryableStatuses.includes(status);
+};
+
+// Retry-After is either delay seconds or an HTTP date
+export const getRetryAfterMs = (error: any, now: number = Date.now()): number | undefined => {
+  const value = error?.response?.headers?.get?.('retry-after');
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Full jitter over an exponentially growing cap; Replicate's Retry-After sets the floor
+export const retryDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number => {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(random() * cap);
+  return retryAfterMs !== undefined ? Math.max(jittered, retryAfterMs) : jittered;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<boolean> => new Promise(resolve => {
+  if (signal?.aborted) return resolve(false);
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve(false);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve(true);
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Call fn until it succeeds, the error isn't transient, attempts run out or the deadline would pass
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { policy, deadline, signal, canRetry, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error, policy) || (canRetry && !canRetry(error))) {
+        throw error;
+      }
+      const delayMs = retryDelay(attempt, policy, getRetryAfterMs(error));
+      if (deadline !== undefined && Date.now() + delayMs >= deadline) {
+        throw error;
+      }
+      onRetry?.({ attempt: attempt + 1, delayMs, error });
+      if (!(await sleep(delayMs, signal))) {
+        throw error;
+      }
+    }
+  }
+};
@@ -0,0 +1,193 @@
+// Per-model input validation against the model version's OpenAPI schema
+import Replicate from 'replicate';
+import { createLogger } from './logger';
+
+// off: no validation; lenient: reject invalid values, warn about unknown keys; strict: reject both
+export type InputValidationMode = 'off' | 'lenient' | 'strict';
+
+export interface InputPropertySchema {
+  type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  items?: InputPropertySchema;
+}
+
+export interface InputSchema {
+  properties: Record<string, InputPropertySchema>;
+  required: string[];
+}
+
+export interface InputFieldError {
+  path: string;
+  message: string;
+  expected?: string;
+  allowed?: unknown[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface InputValidationResult {
+  errors: InputFieldError[];
+  warnings: InputFieldError[];
+}
+
+// Resolve "#/components/schemas/X" references, including the single-entry allOf Replicate uses for enums
+const resolveProperty = (property: any, components: Record<string, any>): InputPropertySchema => {
+  if (!property || typeof property !== 'object') return {};
+
+  let resolved = property;
+  const ref = property.$ref || (property.allOf?.length === 1 && property.allOf[0].$ref);
+  if (typeof ref === 'string') {
+    const target = components[ref.replace('#/components/schemas/', '')] || {};
+    resolved = { ...target, ...property };
+  }
+
+  const { type, enum: allowed, minimum, maximum, exclusiveMinimum, exclusiveMaximum, items } = resolved;
+  return {
+    ...(type && { type }),
+    ...(allowed && { enum: allowed }),
+    ...(minimum !== undefined && { minimum }),
+    ...(maximum !== undefined && { maximum }),
+    ...(exclusiveMinimum !== undefined && { exclusiveMinimum }),
+    ...(exclusiveMaximum !== undefined && { exclusiveMaximum }),
+    ...(items && { items: resolveProperty(items, components) })
+  };
+};
+
+// Accepts a model version's full openapi_schema or an already extracted Input schema
+export const extractInputSchema = (schema: any): InputSchema => {
+  const components = schema?.components?.schemas || {};
+  const input = components.Input || schema || {};
+  const properties: Record<string, InputPropertySchema> = {};
+  for (const [key, property] of Object.entries(input.properties || {})) {
+    properties[key] = resolveProperty(property, components);
+  }
+  return { properties, required: Array.isArray(input.required) ? input.required : [] };
+};
+
+const matchesType = (value: unknown, type: InputPropertySchema['type']): boolean => {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'string': return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    default: return true;
+  }
+};
+
+const validateValue = (path: string, value: unknown, property: InputPropertySchema, errors: InputFieldError[]): void => {
+  if (!matchesType(value, property.type)) {
+    errors.push({ path, message: `Expected ${property.type}`, expected: property.type });
+    return;
+  }
+
+  if (property.enum && !property.enum.includes(value)) {
+    errors.push({ path, message: `Must be one of: ${property.enum.join(', ')}`, allowed: property.enum });
+    return;
+  }
+
+  if (typeof value === 'number') {
+    const minimum = property.minimum ?? property.exclusiveMinimum;
+    const maximum = property.maximum ?? property.exclusiveMaximum;
+    const belowMinimum = property.minimum !== undefined ? value < property.minimum
+      : property.exclusiveMinimum !== undefined && value <= property.exclusiveMinimum;
+    const aboveMaximum = property.maximum !== undefined ? value > property.maximum
+      : property.exclusiveMaximum !== undefined && value >= property.exclusiveMaximum;
+    if (belowMinimum || aboveMaximum) {
+      const range = [minimum !== undefined && `>= ${minimum}`, maximum !== undefined && `<= ${maximum}`].filter(Boolean).join(' and ');
+      errors.push({
+        path,
+        message: `Must be ${range}`,
+        ...(minimum !== undefined && { minimum }),
+        ...(maximum !== undefined && { maximum })
+      });
+    }
+  }
+
+  if (Array.isArray(value) && property.items) {
+    value.forEach((item, index) => validateValue(`${path}[${index}]`, item, property.items!, errors));
+  }
+};
+
+export const validateModelInput = (
+  schema: InputSchema,
+  input: Record<string, any>,
+  strict: boolean = false
+): InputValidationResult => {
+  const errors: InputFieldError[] = [];
+  const warnings: InputFieldError[] = [];
+
+  for (const key of schema.required) {
+    if (input[key] === undefined) {
+      errors.push({ path: key, message: 'Is required' });
+    }
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    const property = schema.properties[key];
+    if (!property) {
+      (strict ? errors : warnings).push({ path: key, message: 'Is not a known input for this model' });
+      continue;
+    }
+    if (value !== undefined) {
+      validateValue(key, value, property, errors);
+    }
+  }
+
+  return { errors, warnings };
+};
+
+interface CachedSchema {
+  schema: InputSchema;
+  expiresAt: number;
+}
+
+// Pinned versions never change; unpinned names are re-fetched after the TTL to pick up new versions
+const schemaCache = new Map<string, CachedSchema>();
+
+// Offline preload, keyed by "owner/model" or "owner/model:version"; preloaded schemas never expire
+export const preloadInputSchemas = (schemas: Record<string, any>): void => {
+  for (const [model, schema] of Object.entries(schemas)) {
+    schemaCache.set(model, { schema: extractInputSchema(schema), expiresAt: Infinity });
+  }
+};
+
+export const clearInputSchemaCache = (): void => {
+  schemaCache.clear();
+};
+
+// Fetch the model's input schema, or undefined when it can't be loaded (Replicate still validates)
+export const getInputSchema = async (
+  replicate: Replicate,
+  model: string,
+  options: { ttlMs: number; requestId?: string }
+): Promise<InputSchema | undefined> => {
+  const cached = schemaCache.get(model);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.schema;
+  }
+
+  const [name, version] = model.split(':');
+  const [owner, modelName] = name.split('/');
+  try {
+    const openapiSchema = version
+      ? (await replicate.models.versions.get(owner, modelName, version)).openapi_schema
+      : (await replicate.models.get(owner, modelName)).latest_version?.openapi_schema;
+    if (!openapiSchema) {
+      createLogger({ requestId: options.requestId }).warn('No input schema published', { model });
+      return undefined;
+    }
+
+    const schema = extractInputSchema(openapiSchema);
+    schemaCache.set(model, { schema, expiresAt: version ? Infinity : Date.now() + options.ttlMs });
+    return schema;
+  } catch (error: any) {
+    createLogger({ requestId: options.requestId }).warn('Failed to load input schema', { model, error: error?.message });
+    return undefined;
+  }
+};
@@ -0,0 +1,261 @@
+// Local development server: `replicate-proxy serve` runs the proxy over Node http
+import { createServer, Server } from 'http';
+import { existsSync, readFileSync, watch, FSWatcher } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import type { AddressInfo } from 'net';
+import { createNodeListener } from './node';
+import { setReplicateClientFactory, PREDICTIONS_PATH } from './predictions';
+import { WEBHOOKS_PATH } from './webhooks';
+import { USAGE_PATH } from './usage';
+import { BATCH_PATH } from './batch';
+import { createMockReplicate } from './mock';
+import { getConfig, resetConfig } from './config';
+
+export interface ServeOptions {
+  port: number;
+  host: string;
+  envFile: string;
+  // Overrides CORS_ALLOWED_ORIGINS
+  corsOrigins?: string;
+  // Overrides LOG_LEVEL
+  logLevel?: string;
+  // Serve canned outputs instead of calling Replicate
+  mock: boolean;
+  // Re-read the env file when it changes
+  watch: boolean;
+}
+
+export const SERVE_USAGE = `Usage: replicate-proxy serve [options]
+
+Options:
+  -p, --port <port>        Port to listen on (default 3000, or PORT)
+  -H, --host <host>        Interface to bind (default 127.0.0.1)
+  --env-file <path>        Environment file to load (default .env)
+  --cors-origins <list>    Space-separated allowed origins (CORS_ALLOWED_ORIGINS)
+  --log-level <level>      debug, info, warn or error (LOG_LEVEL)
+  --mock                   Serve canned outputs instead of calling Replicate
+  --no-watch               Don't reload the env file when it changes
+  -h, --help               Show this help`;
+
+export const parseServeArgs = (args: string[], env: NodeJS.ProcessEnv = process.env): ServeOptions => {
+  const options: ServeOptions = {
+    port: parseInt(env.PORT || '3000'),
+    host: '127.0.0.1',
+    envFile: '.env',
+    mock: false,
+    watch: true
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    // Accept both --flag value and --flag=value
+    const [flag, inlineValue] = args[i].startsWith('--') && args[i].includes('=')
+      ? [args[i].slice(0, args[i].indexOf('=')), args[i].slice(args[i].indexOf('=') + 1)]
+      : [args[i], undefined];
+    const value = (): string => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined || next === '') {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '-p':
+      case '--port': {
+        const raw = value();
+        const port = Number(raw);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port: ${raw}`);
+        }
+        options.port = port;
+        break;
+      }
+      case '-H':
+      case '--host':
+        options.host = value();
+        break;
+      case '--env-file':
+        options.envFile = value();
+        break;
+      case '--cors-origins':
+        options.corsOrigins = value();
+        break;
+      case '--log-level': {
+        const level = value();
+        if (!['debug', 'info', 'warn', 'error'].includes(level)) {
+          throw new Error(`Invalid log level: ${level}`);
+        }
+        options.logLevel = level;
+        break;
+      }
+      case '--mock':
+        options.mock = true;
+        break;
+      case '--no-watch':
+        options.watch = false;
+        break;
+      default:
+        throw new Error(`Unknown option: ${args[i]}`);
+    }
+  }
+
+  return options;
+};
+
+// Parses KEY=value lines; supports comments, `export` prefixes and single or double quotes
+export const parseEnvFile = (contents: string): Record<string, string> => {
+  const vars: Record<string, string> = {};
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, rawValue] = match;
+    const quoted = rawValue.match(/^(['"])(.*)\1$/);
+    if (quoted) {
+      vars[key] = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n') : quoted[2];
+    } else {
+      // Unquoted values end at an inline comment
+      vars[key] = rawValue.replace(/\s+#.*$/, '').trim();
+    }
+  }
+  return vars;
+};
+
+// Applies the env file and flags to process.env. Variables from the shell win over the file and
+// flags win over both; keys dropped from the file are removed on reload.
+export const createEnvLoader = (options: ServeOptions, env: NodeJS.ProcessEnv = process.env) => {
+  const shellKeys = new Set(Object.keys(env));
+  let fileKeys: string[] = [];
+
+  return (): Record<string, string> => {
+    const path = resolve(options.envFile);
+    const vars = existsSync(path) ? parseEnvFile(readFileSync(path, 'utf8')) : {};
+
+    for (const key of fileKeys) {
+      if (!(key in vars)) delete env[key];
+    }
+    fileKeys = Object.keys(vars).filter(key => !shellKeys.has(key));
+    for (const key of fileKeys) {
+      env[key] = vars[key];
+    }
+
+    if (options.corsOrigins) env.CORS_ALLOWED_ORIGINS = options.corsOrigins;
+    if (options.logLevel) env.LOG_LEVEL = options.logLevel;
+    return vars;
+  };
+};
+
+export const formatRoutes = (baseUrl: string): string => [
+  `  GET     ${baseUrl}/health`,
+  `  GET     ${baseUrl}/api/replicate`,
+  `  POST    ${baseUrl}/api/replicate`,
+  `  POST    ${baseUrl}${BATCH_PATH}`,
+  `  GET     ${baseUrl}${PREDICTIONS_PATH}/:id`,
+  `  POST    ${baseUrl}${PREDICTIONS_PATH}/:id/cancel`,
+  `  GET     ${baseUrl}${USAGE_PATH}`,
+  `  POST    ${baseUrl}${WEBHOOKS_PATH}`
+].join('\n');
+
+export interface DevServer {
+  server: Server;
+  url: string;
+  close(): Promise<void>;
+}
+
+export const startDevServer = async (options: ServeOptions, log: (line: string) => void = console.log): Promise<DevServer> => {
+  const loadEnv = createEnvLoader(options);
+  const loaded = loadEnv();
+  if (Object.keys(loaded).length > 0) {
+    log(`Loaded ${Object.keys(loaded).length} variables from ${options.envFile}`);
+  }
+  // Report configuration mistakes before listening rather than on the first request
+  resetConfig();
+  getConfig();
+
+  if (options.mock) {
+    // One client for the whole server so async predictions can be polled later
+    const mockReplicate = createMockReplicate();
+    setReplicateClientFactory(() => mockReplicate);
+  }
+
+  const server = createServer(createNodeListener());
+  await new Promise<void>((resolveListen, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolveListen();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const url = `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`;
+  log(`Replicate proxy listening on ${url}${options.mock ? ' (mock mode: no calls reach Replicate)' : ''}`);
+  log(formatRoutes(url));
+
+  // Config is cached, so a reload rebuilds it and the new settings apply from the next request
+  let watcher: FSWatcher | undefined;
+  let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+  if (options.watch) {
+    // Watch the directory: editors that save by renaming would detach a watcher on the file itself
+    const envPath = resolve(options.envFile);
+    watcher = watch(dirname(envPath), (_, filename) => {
+      if (filename !== basename(envPath)) return;
+      // Editors often fire several events per save
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        try {
+          loadEnv();
+          resetConfig();
+          getConfig();
+          log(`Reloaded ${options.envFile}`);
+        } catch (error: any) {
+          log(`Failed to reload ${options.envFile}: ${error?.message}`);
+        }
+      }, 100);
+    });
+  }
+
+  return {
+    server,
+    url,
+    close: async () => {
+      watcher?.close();
+      clearTimeout(reloadTimer);
+      if (options.mock) {
+        setReplicateClientFactory(undefined);
+      }
+      await new Promise<void>((resolveClose) => server.close(() => resolveClose()));
+    }
+  };
+};
+
+export const runCli = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(SERVE_USAGE);
+    return 0;
+  }
+  if (command !== 'serve') {
+    console.error(`Unknown command: ${command}\n\n${SERVE_USAGE}`);
+    return 1;
+  }
+
+  let options: ServeOptions;
+  try {
+    options = parseServeArgs(args);
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${SERVE_USAGE}`);
+    return 1;
+  }
+
+  const devServer = await startDevServer(options);
+  const shutdown = () => {
+    devServer.close().then(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  return 0;
+};
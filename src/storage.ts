@@ -0,0 +1,377 @@
+// Rehost Replicate output files to S3-compatible storage so saved URLs don't expire
+import { createHash, createHmac } from 'crypto';
+import { createLogger } from './logger';
+import { ConfigEnv, readBoolean, readBytes, readDuration, readUrl } from './env';
+import { ResponseCacheStore, createLruCacheStore } from './cache';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface OutputStorageConfig {
+  bucket: string;
+  region: string;
+  // Path-style endpoint, e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 for MinIO
+  endpoint: string;
+  credentials: S3Credentials;
+  keyPrefix: string;
+  // Base URL that serves the bucket publicly (e.g. a CDN); ignored when presigning
+  publicUrl?: string;
+  // Return presigned GET URLs valid for this long; 0 returns plain URLs
+  presignSeconds: number;
+  // Larger files keep their Replicate URL
+  maxFileSize: number;
+  // Detect content types from file signatures instead of trusting the download's header
+  sniffContentType: boolean;
+}
+
+export interface OutputStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  url(key: string): string;
+}
+
+export const loadOutputStorageConfig = (env: ConfigEnv = process.env): OutputStorageConfig | undefined => {
+  if (!env.OUTPUT_BUCKET) return undefined;
+
+  const region = env.OUTPUT_S3_REGION || env.AWS_REGION || 'us-east-1';
+  const accessKeyId = env.OUTPUT_S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = env.OUTPUT_S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error('OUTPUT_BUCKET requires OUTPUT_S3_ACCESS_KEY_ID and OUTPUT_S3_SECRET_ACCESS_KEY (or the Lambda role credentials)');
+  }
+
+  return {
+    bucket: env.OUTPUT_BUCKET,
+    region,
+    endpoint: (readUrl(env, 'OUTPUT_S3_ENDPOINT') || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ''),
+    credentials: {
+      accessKeyId,
+      secretAccessKey,
+      // Lambda role credentials are temporary and need the session token; explicit keys usually aren't
+      sessionToken: env.OUTPUT_S3_ACCESS_KEY_ID ? env.OUTPUT_S3_SESSION_TOKEN : env.AWS_SESSION_TOKEN
+    },
+    keyPrefix: env.OUTPUT_KEY_PREFIX ?? 'outputs/',
+    publicUrl: readUrl(env, 'OUTPUT_PUBLIC_URL')?.replace(/\/+$/, ''),
+    presignSeconds: readDuration(env, 'OUTPUT_PRESIGN_SECONDS', 0, 's'),
+    maxFileSize: readBytes(env, 'OUTPUT_MAX_FILE_SIZE', 104857600, 1), // 100MB default
+    sniffContentType: readBoolean(env, 'OUTPUT_SNIFF_CONTENT_TYPE', true)
+  };
+};
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as required by SigV4
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodePath = (path: string): string => path.split('/').map(encodeRfc3986).join('/');
+
+const amzDates = (now: Date) => {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return { amzDate, date: amzDate.slice(0, 8) };
+};
+
+const signature = (
+  credentials: S3Credentials,
+  region: string,
+  amzDate: string,
+  canonicalRequest: string
+): { signature: string; scope: string } => {
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), region), 's3'), 'aws4_request');
+  return { signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex'), scope };
+};
+
+const canonicalQuery = (params: URLSearchParams): string =>
+  Array.from(params.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+// Sign a request with AWS Signature Version 4 and return the headers to send
+export const signS3Request = (input: {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  payloadHash: string;
+  credentials: S3Credentials;
+  region: string;
+  now?: Date;
+}): Record<string, string> => {
+  const url = new URL(input.url);
+  const { amzDate } = amzDates(input.now || new Date());
+  const headers: Record<string, string> = {
+    ...input.headers,
+    host: url.host,
+    'x-amz-content-sha256': input.payloadHash,
+    'x-amz-date': amzDate,
+    ...(input.credentials.sessionToken && { 'x-amz-security-token': input.credentials.sessionToken })
+  };
+
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = names.map(name => `${name}:${lowerCased[name].trim()}\n`).join('');
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    input.method,
+    encodePath(decodeURIComponent(url.pathname)),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash
+  ].join('\n');
+
+  const signed = signature(input.credentials, input.region, amzDate, canonicalRequest);
+  const { host, ...sendHeaders } = headers;
+  return {
+    ...sendHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${input.credentials.accessKeyId}/${signed.scope},SignedHeaders=${signedHeaders},Signature=${signed.signature}`
+  };
+};
+
+// Build a presigned GET URL (query-string authentication)
+export const presignS3Url = (input: {
+  url: string;
+  expiresSeconds: number;
+  credentials: S3Credentials;
+  region: string;
+  now?: Date;
+}): string => {
+  const url = new URL(input.url);
+  const { amzDate, date } = amzDates(input.now || new Date());
+  url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  url.searchParams.set('X-Amz-Credential', `${input.credentials.accessKeyId}/${date}/${input.region}/s3/aws4_request`);
+  url.searchParams.set('X-Amz-Date', amzDate);
+  url.searchParams.set('X-Amz-Expires', String(input.expiresSeconds));
+  if (input.credentials.sessionToken) {
+    url.searchParams.set('X-Amz-Security-Token', input.credentials.sessionToken);
+  }
+  url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+  const canonicalRequest = [
+    'GET',
+    encodePath(decodeURIComponent(url.pathname)),
+    canonicalQuery(url.searchParams),
+    `host:${url.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD'
+  ].join('\n');
+
+  const signed = signature(input.credentials, input.region, amzDate, canonicalRequest);
+  return `${url.origin}${encodePath(decodeURIComponent(url.pathname))}?${canonicalQuery(url.searchParams)}&X-Amz-Signature=${signed.signature}`;
+};
+
+export const createS3OutputStorage = (config: OutputStorageConfig, fetchImpl: typeof fetch = fetch): OutputStorage => {
+  const objectUrl = (key: string) => `${config.endpoint}/${config.bucket}/${encodePath(key)}`;
+
+  return {
+    put: async (key, body, contentType) => {
+      const url = objectUrl(key);
+      const headers = signS3Request({
+        method: 'PUT',
+        url,
+        headers: { 'content-type': contentType, 'content-length': String(body.length) },
+        payloadHash: sha256Hex(body),
+        credentials: config.credentials,
+        region: config.region
+      });
+      const response = await fetchImpl(url, { method: 'PUT', headers, body: new Uint8Array(body) });
+      if (!response.ok) {
+        throw new Error(`Upload of ${key} failed with status ${response.status}`);
+      }
+    },
+    url: (key) => {
+      if (config.presignSeconds > 0) {
+        return presignS3Url({ url: objectUrl(key), expiresSeconds: config.presignSeconds, credentials: config.credentials, region: config.region });
+      }
+      return config.publicUrl ? `${config.publicUrl}/${encodePath(key)}` : objectUrl(key);
+    }
+  };
+};
+
+const FILE_SIGNATURES: Array<{ contentType: string; matches: (bytes: Buffer) => boolean }> = [
+  { contentType: 'image/png', matches: b => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/jpeg', matches: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { contentType: 'image/gif', matches: b => b.subarray(0, 4).toString('latin1') === 'GIF8' },
+  { contentType: 'image/webp', matches: b => b.subarray(0, 4).toString('latin1') === 'RIFF' && b.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { contentType: 'audio/wav', matches: b => b.subarray(0, 4).toString('latin1') === 'RIFF' && b.subarray(8, 12).toString('latin1') === 'WAVE' },
+  { contentType: 'audio/mpeg', matches: b => b.subarray(0, 3).toString('latin1') === 'ID3' || (b[0] === 0xff && (b[1] & 0xe0) === 0xe0) },
+  { contentType: 'video/mp4', matches: b => b.subarray(4, 8).toString('latin1') === 'ftyp' },
+  { contentType: 'video/webm', matches: b => b.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3])) },
+  { contentType: 'application/pdf', matches: b => b.subarray(0, 5).toString('latin1') === '%PDF-' }
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'audio/wav': '.wav',
+  'audio/mpeg': '.mp3',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'application/pdf': '.pdf',
+  'application/json': '.json',
+  'text/plain': '.txt'
+};
+
+export const sniffContentType = (bytes: Buffer): string | undefined =>
+  FILE_SIGNATURES.find(signature => signature.matches(bytes))?.contentType;
+
+// Replicate serves file outputs from replicate.delivery and its subdomains
+export const isReplicateFileUrl = (value: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(value);
+    return protocol === 'https:' && (hostname === 'replicate.delivery' || hostname.endsWith('.replicate.delivery'));
+  } catch {
+    return false;
+  }
+};
+
+// Replicate URLs, or URLs of files already rehosted to the output bucket
+export const isFileOutputUrl = (value: string, config?: OutputStorageConfig): boolean => {
+  if (isReplicateFileUrl(value)) return true;
+  if (!config) return false;
+  return value.startsWith(`${config.endpoint}/${config.bucket}/`) ||
+         (!!config.publicUrl && value.startsWith(`${config.publicUrl}/`));
+};
+
+const readLimited = async (response: Response, maxBytes: number): Promise<Buffer | undefined> => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return undefined;
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks);
+};
+
+export interface RehostOptions {
+  config: OutputStorageConfig;
+  storage: OutputStorage;
+  fetchImpl?: typeof fetch;
+  requestId?: string;
+}
+
+export interface DownloadedFile {
+  body: Buffer;
+  contentType: string;
+}
+
+// Download a file output; resolves undefined when it is larger than maxBytes
+export const downloadFile = async (
+  url: string,
+  options: { maxBytes: number; sniff?: boolean; fetchImpl?: typeof fetch }
+): Promise<DownloadedFile | undefined> => {
+  const { maxBytes, sniff = true, fetchImpl = fetch } = options;
+
+  const response = await fetchImpl(url);
+  if (!response.ok) {
+    throw new Error(`Download of ${url} failed with status ${response.status}`);
+  }
+
+  const body = await readLimited(response, maxBytes);
+  if (!body) return undefined;
+
+  const headerType = response.headers.get('content-type')?.split(';')[0].trim() || undefined;
+  return { body, contentType: (sniff && sniffContentType(body)) || headerType || 'application/octet-stream' };
+};
+
+// Download a file, store it under a content-hashed key and return the new URL
+export const rehostFile = async (url: string, options: RehostOptions): Promise<string> => {
+  const { config, storage, fetchImpl, requestId } = options;
+
+  const file = await downloadFile(url, { maxBytes: config.maxFileSize, sniff: config.sniffContentType, fetchImpl });
+  if (!file) {
+    createLogger({ requestId }).warn('Output exceeds the maximum file size, keeping the Replicate URL', { url, maxFileSize: config.maxFileSize });
+    return url;
+  }
+
+  const { body, contentType } = file;
+  const extension = EXTENSIONS[contentType] || new URL(url).pathname.match(/\.[a-z0-9]{1,5}$/i)?.[0] || '';
+  const key = `${config.keyPrefix}${sha256Hex(body)}${extension}`;
+
+  await storage.put(key, body, contentType);
+  return storage.url(key);
+};
+
+// Walk arrays and objects, replacing file outputs (FileOutput objects or replicate.delivery URLs)
+export const rehostOutputs = async (output: any, options: RehostOptions): Promise<any> => {
+  if (Array.isArray(output)) {
+    return Promise.all(output.map(item => rehostOutputs(item, options)));
+  }
+
+  const fileUrl = output && typeof output === 'object' && typeof output.url === 'function'
+    ? String(output.url())
+    : typeof output === 'string' && isReplicateFileUrl(output) ? output : undefined;
+
+  if (fileUrl) {
+    try {
+      return await rehostFile(fileUrl, options);
+    } catch (error: any) {
+      createLogger({ requestId: options.requestId }).error('Failed to rehost output', { url: fileUrl, error: error?.message });
+      return fileUrl;
+    }
+  }
+
+  if (output && typeof output === 'object' && Object.getPrototypeOf(output) === Object.prototype) {
+    const entries = await Promise.all(
+      Object.entries(output).map(async ([key, value]) => [key, await rehostOutputs(value, options)])
+    );
+    return Object.fromEntries(entries);
+  }
+
+  return output;
+};
+
+let injectedStorage: OutputStorage | undefined;
+
+// Write rehosted files somewhere other than the S3 bucket from OUTPUT_BUCKET
+export const setOutputStorage = (storage: OutputStorage | undefined): void => {
+  injectedStorage = storage;
+};
+
+export const getOutputStorage = (config: OutputStorageConfig): OutputStorage =>
+  injectedStorage || createS3OutputStorage(config);
+
+// Polls of a succeeded prediction reuse its first rehosting instead of copying the files again
+const REHOSTED_OUTPUT_TTL_SECONDS = 24 * 60 * 60;
+
+// Presigned URLs stop working after presignSeconds, so records don't outlive them
+export const rehostedOutputTtl = (config: OutputStorageConfig): number =>
+  config.presignSeconds > 0 ? Math.min(config.presignSeconds, REHOSTED_OUTPUT_TTL_SECONDS) : REHOSTED_OUTPUT_TTL_SECONDS;
+
+const defaultRehostedStore = createLruCacheStore(1000);
+let injectedRehostedStore: ResponseCacheStore | undefined;
+
+// Shared records stop a poll that lands on another instance from copying the files again
+export const setRehostedOutputStore = (store: ResponseCacheStore | undefined): void => {
+  injectedRehostedStore = store;
+};
+
+// Keyed by prediction id
+export const getRehostedOutputStore = (): ResponseCacheStore => injectedRehostedStore || defaultRehostedStore;
+
+export const clearRehostedOutputs = (): void => {
+  defaultRehostedStore.clear();
+};
@@ -0,0 +1,128 @@
+// Server-Sent Events streaming for language models
+import Replicate, { Prediction, ServerSentEvent } from 'replicate';
+import { createLogger } from './logger';
+import { PredictionRetryOptions } from './predictions';
+import { RetryOptions, withRetry } from './retry';
+
+export interface PredictionStreamOptions extends PredictionRetryOptions {
+  // Covers the whole stream; callers pass the smaller of REPLICATE_TIMEOUT and the invocation's time left
+  timeoutMs: number;
+  signal?: AbortSignal;
+  requestId?: string;
+}
+
+export const formatServerSentEvent = (event: string, data: string, id?: string): string => {
+  const lines = id ? [`id: ${id}`, `event: ${event}`] : [`event: ${event}`];
+  // Multi-line payloads need one data field per line
+  for (const line of data.split('\n')) {
+    lines.push(`data: ${line}`);
+  }
+  return lines.join('\n') + '\n\n';
+};
+
+// replicate.stream() doesn't expose the prediction it creates, so give it a view of the client that reports it.
+// The same view retries the create, the only step that fails before Replicate has started anything
+const observePredictionCreate = (
+  replicate: Replicate,
+  onCreate: (prediction: Prediction) => void,
+  retry?: RetryOptions
+): Replicate =>
+  Object.assign(Object.create(replicate), {
+    predictions: {
+      ...replicate.predictions,
+      create: async (...args: Parameters<Replicate['predictions']['create']>) => {
+        const create = () => replicate.predictions.create(...args);
+        const prediction = await (retry ? withRetry(create, retry) : create());
+        onCreate(prediction);
+        return prediction;
+      }
+    }
+  });
+
+// Start streaming a prediction. The first event is awaited up front so that
+// upstream failures (bad key, unknown model, no stream support) reject here and
+// can still be returned as regular JSON errors. Later failures are sent as an
+// `error` event followed by `done`, including the timeout, so a stream ends
+// cleanly before the invocation is killed. A stream cut short by the timeout or
+// the client going away cancels its prediction so it stops running on Replicate.
+export const openPredictionStream = async (
+  replicate: Replicate,
+  model: string,
+  input: Record<string, any>,
+  options: PredictionStreamOptions
+): Promise<AsyncGenerator<string>> => {
+  const { timeoutMs, signal, requestId, retry, onRetry } = options;
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  const timer = setTimeout(abort, timeoutMs);
+
+  let predictionId: string | undefined;
+
+  const cleanup = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  };
+
+  const cancelIfAborted = async () => {
+    if (!controller.signal.aborted || !predictionId) return;
+    try {
+      await replicate.predictions.cancel(predictionId);
+      createLogger({ requestId }).warn('Cancelled prediction', { predictionId });
+    } catch (cancelError: any) {
+      createLogger({ requestId }).error('Failed to cancel prediction', { predictionId, error: cancelError?.message });
+    }
+  };
+
+  const retryOptions = retry && { policy: retry, deadline: Date.now() + timeoutMs, signal: controller.signal, onRetry };
+  const events = observePredictionCreate(replicate, prediction => { predictionId = prediction.id; }, retryOptions).stream(
+    model as `${string}/${string}` | `${string}/${string}:${string}`,
+    { input, signal: controller.signal }
+  );
+
+  let first: IteratorResult<ServerSentEvent>;
+  try {
+    first = await events.next();
+  } catch (error) {
+    cleanup();
+    await cancelIfAborted();
+    throw error;
+  }
+
+  return (async function* () {
+    let done = false;
+    try {
+      let current = first;
+      while (!current.done) {
+        const { event, data, id } = current.value;
+        done = done || event === 'done';
+        yield formatServerSentEvent(event, data, id);
+        current = await events.next();
+      }
+    } catch (error: any) {
+      const message = controller.signal.aborted && !signal?.aborted
+        ? `Replicate stream timed out after ${timeoutMs}ms`
+        : error?.message || 'Stream failed';
+      createLogger({ requestId }).error('Replicate stream error', { error: error?.message });
+      yield formatServerSentEvent('error', message);
+    } finally {
+      cleanup();
+      if (!done) {
+        await cancelIfAborted();
+      }
+    }
+
+    if (!done) {
+      yield formatServerSentEvent('done', '{}');
+    }
+  })();
+};
+
+// Drain a stream into a single body for runtimes without response streaming
+export const collectStream = async (stream: AsyncGenerator<string>): Promise<string> => {
+  let body = '';
+  for await (const chunk of stream) {
+    body += chunk;
+  }
+  return body;
+};
@@ -0,0 +1,117 @@
+// Short-lived client tokens for the server-held Replicate key mode
+// Tokens are HS256 JWTs minted by your backend with the shared CLIENT_TOKEN_SECRET
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface ClientTokenClaims {
+  sub: string;
+  exp: number; // seconds since epoch
+  iat?: number;
+  jti?: string;
+  // Exact "owner/model" names or "owner/*" wildcards; omitted means any model
+  models?: string[];
+  maxPredictions?: number;
+}
+
+export interface ClientTokenVerification {
+  isValid: boolean;
+  claims?: ClientTokenClaims;
+  error?: string;
+  statusCode?: 401 | 403;
+}
+
+const base64url = (input: Buffer | string): string => Buffer.from(input).toString('base64url');
+
+const sign = (data: string, secret: string): string =>
+  createHmac('sha256', secret).update(data).digest('base64url');
+
+const JWT_HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+export const isValidClientToken = (token: string): boolean => {
+  return typeof token === 'string' &&
+         token.length <= 4096 &&
+         /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(token);
+};
+
+// Mint a token on your backend; never ship the secret to the browser
+export const mintClientToken = (claims: ClientTokenClaims, secret: string): string => {
+  const payload = base64url(JSON.stringify({ iat: Math.floor(Date.now() / 1000), ...claims }));
+  return `${JWT_HEADER}.${payload}.${sign(`${JWT_HEADER}.${payload}`, secret)}`;
+};
+
+export const verifyClientToken = (token: string, secret: string, now: number = Date.now()): ClientTokenVerification => {
+  if (!isValidClientToken(token)) {
+    return { isValid: false, statusCode: 401, error: 'Malformed client token' };
+  }
+
+  const [header, payload, signature] = token.split('.');
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { isValid: false, statusCode: 401, error: 'Invalid client token signature' };
+  }
+
+  let claims: ClientTokenClaims;
+  try {
+    const parsedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (parsedHeader.alg !== 'HS256') {
+      return { isValid: false, statusCode: 401, error: 'Unsupported client token algorithm' };
+    }
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    return { isValid: false, statusCode: 401, error: 'Malformed client token' };
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub || typeof claims.exp !== 'number') {
+    return { isValid: false, statusCode: 401, error: 'Client token must include sub and exp claims' };
+  }
+
+  if (claims.exp * 1000 <= now) {
+    return { isValid: false, statusCode: 401, error: 'Client token has expired' };
+  }
+
+  return { isValid: true, claims };
+};
+
+// Predictions started with a token carry a tag in their polling URLs tying them to the token's subject,
+// so other subjects can't read or cancel them by id
+export const predictionOwnerTag = (predictionId: string, sub: string, secret: string): string =>
+  sign(`prediction:${predictionId}:${sub}`, secret);
+
+export const isPredictionOwner = (predictionId: string, claims: ClientTokenClaims, tag: string | undefined, secret: string): boolean => {
+  if (!tag) return false;
+  const expected = Buffer.from(predictionOwnerTag(predictionId, claims.sub, secret));
+  const actual = Buffer.from(tag);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const isModelAllowedByToken = (claims: ClientTokenClaims, model: string): boolean => {
+  if (!claims.models) return true;
+  const [name] = model.split(':');
+  const [owner] = name.split('/');
+  return claims.models.some(allowed => allowed === name || allowed === model || allowed === `${owner}/*`);
+};
+
+// Predictions started per token. Counts live in the Lambda container, so the
+// limit is enforced per warm instance; pair it with short expiries.
+const tokenPredictionCounts = new Map<string, number>();
+
+const tokenCountKey = (claims: ClientTokenClaims): string => claims.jti || `${claims.sub}:${claims.iat}:${claims.exp}`;
+
+// Checks without counting, for work that should be skipped when no prediction could follow
+export const hasTokenPredictionsLeft = (claims: ClientTokenClaims): boolean =>
+  claims.maxPredictions === undefined || (tokenPredictionCounts.get(tokenCountKey(claims)) || 0) < claims.maxPredictions;
+
+export const consumeTokenPrediction = (claims: ClientTokenClaims): boolean => {
+  if (claims.maxPredictions === undefined) return true;
+
+  const key = tokenCountKey(claims);
+  const used = tokenPredictionCounts.get(key) || 0;
+  if (used >= claims.maxPredictions) return false;
+
+  tokenPredictionCounts.set(key, used + 1);
+  return true;
+};
+
+export const resetTokenPredictionCounts = (): void => {
+  tokenPredictionCounts.clear();
+};
@@ -0,0 +1,281 @@
+// Optional OpenTelemetry-compatible tracing: W3C trace context in, spans out through a pluggable exporter
+import { randomBytes } from 'crypto';
+import { ConfigEnv, readBoolean, readDuration, readUrl } from './env';
+
+export type SpanKind = 'server' | 'client' | 'internal';
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  // Epoch milliseconds with sub-millisecond precision
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+}
+
+// Receives every finished span of a request at once, after the response is built
+export interface SpanExporter {
+  export(spans: SpanData[]): void | Promise<void>;
+}
+
+export interface Span {
+  // Empty when tracing is disabled
+  readonly traceId: string;
+  readonly spanId: string;
+  updateName(name: string): void;
+  setAttributes(attributes: SpanAttributes): void;
+  recordError(error: unknown): void;
+  // Run fn in a child span that ends when fn settles; errors mark the span and are rethrown
+  trace<T>(name: string, fn: (span: Span) => T | Promise<T>, kind?: SpanKind): Promise<T>;
+  end(): void;
+}
+
+export interface TracingOptions {
+  enabled: boolean;
+  serviceName: string;
+  // OTLP/HTTP collector base URL; spans are posted to <url>/v1/traces
+  exporterUrl?: string;
+  exporterHeaders: Record<string, string>;
+  // Export runs before the response returns, so a slow collector is cut off after this long
+  exporterTimeoutMs: number;
+}
+
+// Uses the standard OTEL_* variable names so existing collector settings carry over
+export const loadTracingOptions = (env: ConfigEnv = process.env): TracingOptions => ({
+  enabled: readBoolean(env, 'TRACING_ENABLED', false),
+  serviceName: env.OTEL_SERVICE_NAME || 'replicate-proxy',
+  exporterUrl: readUrl(env, 'OTEL_EXPORTER_OTLP_ENDPOINT'),
+  exporterHeaders: Object.fromEntries(
+    (env.OTEL_EXPORTER_OTLP_HEADERS || '')
+      .split(',')
+      .map(pair => pair.split('=').map(part => decodeURIComponent(part.trim())))
+      .filter(([key, value]) => key && value !== undefined)
+  ),
+  exporterTimeoutMs: readDuration(env, 'OTEL_EXPORTER_OTLP_TIMEOUT', 1000, 'ms', 1)
+});
+
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// Parses a W3C traceparent header; invalid or all-zero ids are ignored as the spec requires
+export const parseTraceparent = (header: string | undefined): TraceContext | undefined => {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match) return undefined;
+  const [, version, traceId, spanId, flags] = match;
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+};
+
+export const formatTraceparent = (context: TraceContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+
+const now = (): number => performance.timeOrigin + performance.now();
+
+const noopSpan: Span = {
+  traceId: '',
+  spanId: '',
+  updateName: () => undefined,
+  setAttributes: () => undefined,
+  recordError: () => undefined,
+  trace: async (_name, fn) => fn(noopSpan),
+  end: () => undefined
+};
+
+const createSpan = (
+  name: string,
+  kind: SpanKind,
+  traceId: string,
+  parentSpanId: string | undefined,
+  finished: SpanData[]
+): Span => {
+  const data: SpanData = {
+    traceId,
+    spanId: randomBytes(8).toString('hex'),
+    parentSpanId,
+    name,
+    kind,
+    startTime: now(),
+    endTime: 0,
+    attributes: {},
+    status: { code: 'unset' }
+  };
+
+  const span: Span = {
+    traceId,
+    spanId: data.spanId,
+    updateName: (newName) => {
+      data.name = newName;
+    },
+    setAttributes: (attributes) => {
+      Object.assign(data.attributes, attributes);
+    },
+    recordError: (error) => {
+      data.status = { code: 'error', message: error instanceof Error ? error.message : String(error) };
+    },
+    trace: async (childName, fn, childKind = 'internal') => {
+      const child = createSpan(childName, childKind, traceId, data.spanId, finished);
+      try {
+        return await fn(child);
+      } catch (error) {
+        child.recordError(error);
+        throw error;
+      } finally {
+        child.end();
+      }
+    },
+    end: () => {
+      if (data.endTime) return;
+      data.endTime = now();
+      finished.push(data);
+    }
+  };
+  return span;
+};
+
+export interface RequestTrace {
+  span: Span;
+  // Ends the request span and exports every span of the request
+  finish(): Promise<void>;
+}
+
+// Spans of unsampled requests are still created so ids propagate, but nothing is exported
+export const startRequestTrace = (
+  name: string,
+  options: TracingOptions,
+  traceparent?: string
+): RequestTrace => {
+  const exporter = options.enabled ? getSpanExporter(options) : undefined;
+  if (!exporter) {
+    return { span: noopSpan, finish: async () => undefined };
+  }
+
+  const parent = parseTraceparent(traceparent);
+  const finished: SpanData[] = [];
+  const span = createSpan(name, 'server', parent?.traceId ?? randomBytes(16).toString('hex'), parent?.spanId, finished);
+
+  return {
+    span,
+    finish: async () => {
+      span.end();
+      if (parent && !parent.sampled) return;
+      await exporter.export(finished.splice(0));
+    }
+  };
+};
+
+export interface MemorySpanExporter extends SpanExporter {
+  spans: SpanData[];
+  reset(): void;
+}
+
+export const createMemorySpanExporter = (): MemorySpanExporter => {
+  const exporter: MemorySpanExporter = {
+    spans: [],
+    export: (spans) => {
+      exporter.spans.push(...spans);
+    },
+    reset: () => {
+      exporter.spans = [];
+    }
+  };
+  return exporter;
+};
+
+const SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+
+const toAnyValue = (value: string | number | boolean) => {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+};
+
+const toUnixNano = (ms: number): string => (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+
+// OTLP/HTTP JSON encoding, accepted by the OpenTelemetry Collector and most tracing backends
+export const toOtlpPayload = (spans: SpanData[], serviceName: string) => ({
+  resourceSpans: [{
+    resource: { attributes: [{ key: 'service.name', value: { stringValue: serviceName } }] },
+    scopeSpans: [{
+      scope: { name: 'replicate-proxy' },
+      spans: spans.map(span => ({
+        traceId: span.traceId,
+        spanId: span.spanId,
+        ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+        name: span.name,
+        kind: SPAN_KINDS[span.kind],
+        startTimeUnixNano: toUnixNano(span.startTime),
+        endTimeUnixNano: toUnixNano(span.endTime),
+        attributes: Object.entries(span.attributes).map(([key, value]) => ({ key, value: toAnyValue(value) })),
+        status: { code: STATUS_CODES[span.status.code], ...(span.status.message && { message: span.status.message }) }
+      }))
+    }]
+  }]
+});
+
+export const createOtlpHttpExporter = (options: {
+  url: string;
+  serviceName: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}): SpanExporter => ({
+  export: async (spans) => {
+    if (spans.length === 0) return;
+    const timeoutMs = options.timeoutMs ?? 1000;
+    let response: Response;
+    try {
+      response = await fetch(`${options.url.replace(/\/$/, '')}/v1/traces`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify(toOtlpPayload(spans, options.serviceName)),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`OTLP export timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`OTLP export failed with status ${response.status}`);
+    }
+  }
+});
+
+let injectedExporter: SpanExporter | undefined;
+let otlpExporter: { key: string; exporter: SpanExporter } | undefined;
+
+// Hand spans to a vendor SDK instead of the OTLP exporter built from OTEL_* settings
+export const setSpanExporter = (exporter: SpanExporter | undefined): void => {
+  injectedExporter = exporter;
+};
+
+// Without an injected exporter or a collector URL there is nowhere to send spans, so tracing stays off
+export const getSpanExporter = (options: TracingOptions): SpanExporter | undefined => {
+  if (injectedExporter) return injectedExporter;
+  if (!options.exporterUrl) return undefined;
+
+  const key = JSON.stringify([options.exporterUrl, options.serviceName, options.exporterHeaders, options.exporterTimeoutMs]);
+  if (otlpExporter?.key !== key) {
+    otlpExporter = {
+      key,
+      exporter: createOtlpHttpExporter({
+        url: options.exporterUrl,
+        serviceName: options.serviceName,
+        headers: options.exporterHeaders,
+        timeoutMs: options.exporterTimeoutMs
+      })
+    };
+  }
+  return otlpExporter.exporter;
+};
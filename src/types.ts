@@ -1,9 +1,78 @@
 // Request/Response types for the Replicate proxy API
+import { AuthMode, CONSTANTS } from './config';
+import type { InputFieldError } from './schemas';
+import { isValidClientToken } from './tokens';
+
+export type PredictionMode = 'sync' | 'async' | 'stream';
+
+// url: file outputs are returned as URLs; dataUrl/base64: inlined with their MIME type and size
+export type OutputFormat = 'url' | 'dataUrl' | 'base64';
 
 export interface ReplicateRequest {
-  model: string;
+  // "owner/model" or a pinned "owner/model:<version>"; omit when sending a deployment
+  model?: string;
+  // "owner/name" of a Replicate deployment
+  deployment?: string;
   input?: Record<string, any>;
-  apiKey: string;
+  // Required in apiKey mode
+  apiKey?: string;
+  // Client token in token mode; may also be sent as an Authorization bearer token
+  token?: string;
+  mode?: PredictionMode;
+  // Cache sync output for identical requests; defaults to true when input includes a seed
+  cache?: boolean;
+  outputFormat?: OutputFormat;
+}
+
+export interface PredictionResponse {
+  id: string;
+  status: string;
+  output?: any;
+  logs?: string;
+  error?: string | null;
+  urls: {
+    get: string;
+    cancel: string;
+  };
+}
+
+// Sink for response streaming; start() must be called before the first write()
+export interface ResponseStreamWriter {
+  start(statusCode: number, headers: Record<string, string>): void;
+  write(chunk: string): void;
+}
+
+export interface HandlerOptions {
+  // Aborted when the client disconnects; pending predictions are cancelled on Replicate
+  signal?: AbortSignal;
+  // When set, stream mode writes events here as they arrive instead of buffering them
+  responseStream?: ResponseStreamWriter;
+}
+
+// Platform-neutral request that every runtime adapter translates into
+export interface ProxyRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  // Bytes for binary bodies such as multipart uploads, otherwise text
+  body: string | Uint8Array | null;
+  query: Record<string, string>;
+  sourceIp?: string;
+}
+
+export interface ProxyResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface RequestOptions extends HandlerOptions {
+  // Defaults to a random UUID; the AWS adapter passes the Lambda request id
+  requestId?: string;
+  // EventType metric dimension, e.g. "apigateway-v1" or "node"
+  eventType?: string;
+  // Epoch ms when the platform stops the invocation; the AWS adapter reads it from the Lambda context
+  deadline?: number;
 }
 
 export interface HealthResponse {
@@ -20,46 +89,147 @@ export interface ApiInstructionsResponse {
     endpoint: string;
     body: {
       model: string;
+      deployment: string;
       input: string;
       apiKey: string;
+      mode: string;
+    };
+    modes: Record<PredictionMode, string>;
+    polling: {
+      method: string;
+      endpoint: string;
+      headers: Record<string, string>;
+    };
+    // Models permitted by the configured policy; ["*"] when unrestricted
+    models: {
+      allow: string[];
+      deny: string[];
     };
   };
 }
 
+// Stable, machine-readable error codes; match on these rather than on messages, which may change
+export type ClientErrorCode =
+  | 'BAD_REQUEST'
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'VALIDATION_FAILED'
+  | 'INVALID_INPUT'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'MODEL_NOT_ALLOWED'
+  | 'TOKEN_LIMIT_REACHED'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'USAGE_QUOTA_EXCEEDED'
+  | 'SPEND_QUOTA_EXCEEDED'
+  | 'CLIENT_CLOSED_REQUEST';
+
+// Failures reported by Replicate or by the prediction itself
+export type UpstreamErrorCode =
+  | 'UPSTREAM_UNAUTHORIZED'
+  | 'UPSTREAM_PAYMENT_REQUIRED'
+  | 'UPSTREAM_NOT_FOUND'
+  | 'UPSTREAM_VALIDATION_FAILED'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'PREDICTION_FAILED'
+  | 'PREDICTION_CANCELED'
+  | 'NSFW_FLAGGED';
+
+export type ServerErrorCode = 'NOT_CONFIGURED' | 'INTERNAL_ERROR';
+
+export type ErrorCode = ClientErrorCode | UpstreamErrorCode | ServerErrorCode;
+
+// The body of every error response
 export interface ErrorResponse {
+  code: ErrorCode;
   error: string;
   details?: string;
-  statusCode?: number;
+  timestamp: string;
+  // Set on every response from handleRequest; matches the request id in the logs
   requestId?: string;
-  timestamp?: string;
   stack?: string;
+  fields?: InputFieldError[];
 }
 
 // Input validation functions
-export const isValidApiKey = (apiKey: string): boolean => {
+// In token mode the credential is a client token rather than a Replicate key
+export const isValidApiKey = (apiKey: string, authMode: AuthMode = 'apiKey'): boolean => {
+  if (authMode === 'token') {
+    return isValidClientToken(apiKey);
+  }
   return typeof apiKey === 'string' && 
          apiKey.length >= 8 && 
          apiKey.length <= 200 && 
          apiKey.trim() === apiKey;
 };
 
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9-_]*\/[a-zA-Z0-9][a-zA-Z0-9-_]*$/;
+const VERSION_PATTERN = /^[a-f0-9]{64}$/;
+
+// Accepts "owner/model" and "owner/model:<64 hex character version>"
 export const isValidModelName = (model: string): boolean => {
-  return typeof model === 'string' && 
-         model.length > 0 && 
-         /^[a-zA-Z0-9][a-zA-Z0-9-_]*\/[a-zA-Z0-9][a-zA-Z0-9-_]*$/.test(model) &&
-         model.length <= 100;
+  if (typeof model !== 'string' || model.length === 0 || model.length > CONSTANTS.MAX_MODEL_NAME_LENGTH) {
+    return false;
+  }
+  const [name, version, ...rest] = model.split(':');
+  return rest.length === 0 &&
+         NAME_PATTERN.test(name) &&
+         name.length <= 100 &&
+         (version === undefined || VERSION_PATTERN.test(version));
+};
+
+export const isValidDeploymentName = (deployment: string): boolean => {
+  return typeof deployment === 'string' &&
+         NAME_PATTERN.test(deployment) &&
+         deployment.length <= 100;
+};
+
+export const PREDICTION_MODES: PredictionMode[] = ['sync', 'async', 'stream'];
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['url', 'dataUrl', 'base64'];
+
+export const isValidPredictionId = (id: string): boolean => {
+  return typeof id === 'string' &&
+         /^[a-zA-Z0-9]+$/.test(id) &&
+         id.length <= 64;
 };
 
-export const validateReplicateRequest = (body: any): { isValid: boolean; error?: string } => {
+export const validateReplicateRequest = (body: any, authMode: AuthMode = 'apiKey'): { isValid: boolean; error?: string } => {
   if (!body || typeof body !== 'object') {
     return { isValid: false, error: 'Request body must be a valid JSON object' };
   }
 
-  if (!body.model || !isValidModelName(body.model)) {
+  if (body.model !== undefined && body.deployment !== undefined) {
+    return { isValid: false, error: 'Send either model or deployment, not both' };
+  }
+
+  if (body.deployment !== undefined) {
+    if (!isValidDeploymentName(body.deployment)) {
+      return { isValid: false, error: 'Deployment must be in format "owner/name"' };
+    }
+    if (body.mode === 'stream') {
+      return { isValid: false, error: 'Stream mode is not supported for deployments' };
+    }
+  } else if (!body.model || !isValidModelName(body.model)) {
+    // A well-formed name with a bad version gets its own message so pinning mistakes are obvious
+    const [name, version] = typeof body.model === 'string' ? body.model.split(':') : [];
+    if (version !== undefined && isValidModelName(name)) {
+      return { isValid: false, error: 'Model version must be a 64-character lowercase hex id, as in "owner/model:<version>"' };
+    }
     return { isValid: false, error: 'Model name is required and must be in format "owner/model"' };
   }
 
-  if (!body.apiKey || !isValidApiKey(body.apiKey)) {
+  if (authMode === 'token') {
+    if (!body.token || !isValidApiKey(body.token, authMode)) {
+      return { isValid: false, error: 'A valid client token is required' };
+    }
+  } else if (!body.apiKey || !isValidApiKey(body.apiKey)) {
     return { isValid: false, error: 'Valid API key is required (8-200 characters)' };
   }
 
@@ -67,5 +237,22 @@ export const validateReplicateRequest = (body: any): { isValid: boolean; error?:
     return { isValid: false, error: 'Input must be an object if provided' };
   }
 
+  if (body.mode !== undefined && !PREDICTION_MODES.includes(body.mode)) {
+    return { isValid: false, error: `Mode must be one of: ${PREDICTION_MODES.join(', ')}` };
+  }
+
+  if (body.cache !== undefined && typeof body.cache !== 'boolean') {
+    return { isValid: false, error: 'Cache must be a boolean if provided' };
+  }
+
+  if (body.outputFormat !== undefined) {
+    if (!OUTPUT_FORMATS.includes(body.outputFormat)) {
+      return { isValid: false, error: `Output format must be one of: ${OUTPUT_FORMATS.join(', ')}` };
+    }
+    if (body.outputFormat !== 'url' && (body.mode ?? 'sync') !== 'sync') {
+      return { isValid: false, error: 'Inline output formats are only supported in sync mode' };
+    }
+  }
+
   return { isValid: true };
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+// multipart/form-data requests with file inputs
+import Replicate from 'replicate';
+import { sniffContentType } from './storage';
+
+export interface UploadLimits {
+  maxFileSize: number;
+  // Exact types or "type/*" wildcards
+  allowedTypes: string[];
+  // Files up to this size are sent inline as data URIs instead of through the files API
+  dataUriMaxSize: number;
+}
+
+export interface UploadedFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface MultipartParseResult {
+  body?: Record<string, any>;
+  files?: UploadedFile[];
+  error?: string;
+  statusCode?: 400 | 413 | 415;
+}
+
+// Top-level request fields; everything else must be a file part or live in the `input` JSON field
+const REQUEST_FIELDS = ['model', 'deployment', 'apiKey', 'token', 'mode', 'outputFormat', 'cache'];
+
+export const isMultipartRequest = (contentType?: string): boolean =>
+  !!contentType && /^multipart\/form-data\s*;/i.test(contentType);
+
+const CONTENT_TYPE_PATTERN = /^(?:\*\/\*|[a-z0-9][a-z0-9!#$&^_.+-]*\/(?:\*|[a-z0-9][a-z0-9!#$&^_.+-]*))$/i;
+
+// UPLOAD_ALLOWED_TYPES: a typo such as "image/" or "png" would silently refuse every upload
+export const parseAllowedTypes = (value: string): string[] => value.split(',').map(type => type.trim()).filter(Boolean).map(type => {
+  if (!CONTENT_TYPE_PATTERN.test(type)) {
+    throw new Error(`UPLOAD_ALLOWED_TYPES must list content types such as image/png or image/*, got "${type}"`);
+  }
+  return type;
+});
+
+export const isAllowedUploadType = (contentType: string, allowedTypes: string[]): boolean =>
+  allowedTypes.some(allowed =>
+    allowed === '*/*' ||
+    allowed === contentType ||
+    (allowed.endsWith('/*') && contentType.startsWith(allowed.slice(0, -1)))
+  );
+
+export const parseMultipartRequest = async (
+  rawBody: Buffer,
+  contentType: string,
+  limits: UploadLimits
+): Promise<MultipartParseResult> => {
+  const form = await new Response(new Uint8Array(rawBody), { headers: { 'Content-Type': contentType } })
+    .formData()
+    .catch(() => undefined);
+  if (!form) {
+    return { error: 'Invalid multipart/form-data body', statusCode: 400 };
+  }
+
+  const body: Record<string, any> = {};
+  const files: UploadedFile[] = [];
+
+  for (const [field, value] of form.entries()) {
+    if (typeof value === 'string') {
+      if (field === 'input') {
+        try {
+          body.input = JSON.parse(value);
+        } catch {
+          return { error: 'The input field must be a JSON object', statusCode: 400 };
+        }
+      } else if (field === 'cache') {
+        body.cache = value === 'true';
+      } else if (REQUEST_FIELDS.includes(field)) {
+        body[field] = value;
+      } else {
+        return { error: `Unexpected form field "${field}"; send input values in the input JSON field`, statusCode: 400 };
+      }
+      continue;
+    }
+
+    if (value.size > limits.maxFileSize) {
+      return { error: `File "${field}" exceeds the maximum size of ${limits.maxFileSize} bytes`, statusCode: 413 };
+    }
+
+    const fileBody = Buffer.from(await value.arrayBuffer());
+    // Browsers send application/octet-stream for unknown extensions, so fall back to the file signature
+    const declaredType = value.type.split(';')[0].trim();
+    const fileType = declaredType && declaredType !== 'application/octet-stream'
+      ? declaredType
+      : sniffContentType(fileBody) || 'application/octet-stream';
+    if (!isAllowedUploadType(fileType, limits.allowedTypes)) {
+      return { error: `File "${field}" has unsupported type ${fileType}`, statusCode: 415 };
+    }
+
+    files.push({ field, filename: value.name || field, contentType: fileType, body: fileBody });
+  }
+
+  if (body.input !== undefined && (typeof body.input !== 'object' || body.input === null || Array.isArray(body.input))) {
+    return { error: 'The input field must be a JSON object', statusCode: 400 };
+  }
+
+  return { body, files };
+};
+
+// Stand-in URIs for the file fields, so the input can be validated before anything is uploaded
+export const withUploadPlaceholders = (input: Record<string, any>, files: UploadedFile[]): Record<string, any> => ({
+  ...input,
+  ...Object.fromEntries(files.map(file => [file.field, `upload://${encodeURIComponent(file.filename)}`]))
+});
+
+// Substitute each file into the input under its field name: small files as data URIs, the rest via the files API
+export const resolveUploadedFiles = async (
+  replicate: Replicate,
+  input: Record<string, any>,
+  files: UploadedFile[],
+  dataUriMaxSize: number
+): Promise<Record<string, any>> => {
+  const resolved = { ...input };
+  for (const file of files) {
+    if (file.body.length <= dataUriMaxSize) {
+      resolved[file.field] = `data:${file.contentType};base64,${file.body.toString('base64')}`;
+      continue;
+    }
+
+    const blob = new Blob([new Uint8Array(file.body)], { type: file.contentType });
+    const uploaded = await replicate.files.create(blob, { field: file.field, filename: file.filename });
+    resolved[file.field] = uploaded.urls.get;
+  }
+  return resolved;
+};
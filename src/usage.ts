@@ -0,0 +1,423 @@
+// Per-subject usage accounting: prediction counts, predict_time and estimated spend, with daily and monthly quotas
+import { matchesModelRule } from './policy';
+import { ConfigEnv, readBoolean } from './env';
+import { DynamoDocumentClient, hashCredential } from './ratelimit';
+import { ClientTokenClaims } from './tokens';
+
+export const USAGE_PATH = '/api/replicate/usage';
+
+export type UsagePeriod = 'daily' | 'monthly';
+export type UsageMetric = 'predictions' | 'predictTimeSeconds' | 'costUsd';
+
+export interface UsageTotals {
+  predictions: number;
+  predictTimeSeconds: number;
+  // Estimated from the price table; Replicate's invoice is authoritative
+  costUsd: number;
+}
+
+// Limits per period; metrics left out are unlimited
+export type UsageQuotas = Partial<Record<UsagePeriod, Partial<UsageTotals>>>;
+
+export interface ModelPrice {
+  // USD per prediction, for models Replicate bills per output
+  perPrediction?: number;
+  // USD per second of predict_time
+  perSecond?: number;
+  // Bill predict_time at this hardware's per-second price
+  hardware?: string;
+}
+
+export interface PriceTable {
+  // Keyed by "owner/model", "owner/*" or "owner/model:version"; deployments by "owner/name"
+  models?: Record<string, ModelPrice>;
+  // USD per second of predict_time by hardware, e.g. "gpu-a100-large"
+  hardware?: Record<string, number>;
+  // Price for models without an entry
+  default?: ModelPrice;
+}
+
+export interface UsageOptions {
+  enabled: boolean;
+  prices: PriceTable;
+  quotas: UsageQuotas;
+}
+
+// Who started an async prediction, kept until it settles so its predict_time can be charged
+export interface PendingPrediction {
+  subject: string;
+  model: string;
+}
+
+export interface UsageStore {
+  get(key: string): Promise<UsageTotals | undefined>;
+  // Add to the totals under key, creating them when missing; must be atomic across instances
+  add(key: string, delta: UsageTotals, ttlSeconds: number): Promise<void>;
+  trackPrediction(predictionId: string, pending: PendingPrediction, ttlSeconds: number): Promise<void>;
+  // Remove and return the pending record; only the first caller gets it, so each prediction is charged once
+  takePrediction(predictionId: string): Promise<PendingPrediction | undefined>;
+}
+
+export interface UsageQuotaResult {
+  allowed: boolean;
+  period?: UsagePeriod;
+  metric?: UsageMetric;
+  limit?: number;
+  used?: number;
+  // Until the exhausted period resets
+  retryAfterSeconds?: number;
+}
+
+export interface UsagePeriodReport extends UsageTotals {
+  // "2026-10-19" for daily, "2026-10" for monthly (UTC)
+  period: string;
+  resetsAt: string;
+  limits: Partial<UsageTotals>;
+  remaining: Partial<UsageTotals>;
+}
+
+export interface UsageReport {
+  subject: string;
+  daily: UsagePeriodReport;
+  monthly: UsagePeriodReport;
+}
+
+const USAGE_PERIODS: UsagePeriod[] = ['daily', 'monthly'];
+const USAGE_METRICS: UsageMetric[] = ['predictions', 'predictTimeSeconds', 'costUsd'];
+const TERMINAL_STATUSES = ['succeeded', 'failed', 'canceled', 'aborted'];
+const EMPTY_TOTALS: UsageTotals = { predictions: 0, predictTimeSeconds: 0, costUsd: 0 };
+// Long enough for any prediction to settle; Replicate stops reporting on them well before this
+const PENDING_PREDICTION_TTL_SECONDS = 24 * 60 * 60;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isNonNegative = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const parseJsonObject = (json: string, source: string, what: string): Record<string, any> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Invalid ${what} in ${source}: ${e.message}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`Invalid ${what} in ${source}: expected an object`);
+  }
+  return parsed;
+};
+
+export const parseUsageQuotas = (json: string, source: string): UsageQuotas => {
+  const parsed = parseJsonObject(json, source, 'usage quotas');
+  const quotas: UsageQuotas = {};
+
+  for (const [period, limits] of Object.entries(parsed)) {
+    if (!USAGE_PERIODS.includes(period as UsagePeriod)) {
+      throw new Error(`Invalid usage quotas in ${source}: period "${period}" must be one of: ${USAGE_PERIODS.join(', ')}`);
+    }
+    if (!isObject(limits)) {
+      throw new Error(`Invalid usage quotas in ${source}: "${period}" must be an object`);
+    }
+    for (const [metric, limit] of Object.entries(limits)) {
+      if (!USAGE_METRICS.includes(metric as UsageMetric)) {
+        throw new Error(`Invalid usage quotas in ${source}: "${period}.${metric}" must be one of: ${USAGE_METRICS.join(', ')}`);
+      }
+      if (!isNonNegative(limit)) {
+        throw new Error(`Invalid usage quotas in ${source}: "${period}.${metric}" must be a non-negative number`);
+      }
+    }
+    quotas[period as UsagePeriod] = { ...limits };
+  }
+  return quotas;
+};
+
+const parseModelPrice = (price: unknown, path: string, hardware: Record<string, number>, source: string): ModelPrice => {
+  if (!isObject(price)) {
+    throw new Error(`Invalid usage prices in ${source}: "${path}" must be an object`);
+  }
+  for (const field of ['perPrediction', 'perSecond'] as const) {
+    if (price[field] !== undefined && !isNonNegative(price[field])) {
+      throw new Error(`Invalid usage prices in ${source}: "${path}.${field}" must be a non-negative number`);
+    }
+  }
+  if (price.hardware !== undefined && !(price.hardware in hardware)) {
+    throw new Error(`Invalid usage prices in ${source}: "${path}.hardware" must name an entry in "hardware"`);
+  }
+  return {
+    ...(price.perPrediction !== undefined && { perPrediction: price.perPrediction }),
+    ...(price.perSecond !== undefined && { perSecond: price.perSecond }),
+    ...(price.hardware !== undefined && { hardware: price.hardware })
+  };
+};
+
+export const parseUsagePrices = (json: string, source: string): PriceTable => {
+  const parsed = parseJsonObject(json, source, 'usage prices');
+
+  const hardware = parsed.hardware ?? {};
+  if (!isObject(hardware) || !Object.values(hardware).every(isNonNegative)) {
+    throw new Error(`Invalid usage prices in ${source}: "hardware" must map hardware names to non-negative USD per second`);
+  }
+
+  const models = parsed.models ?? {};
+  if (!isObject(models)) {
+    throw new Error(`Invalid usage prices in ${source}: "models" must be an object`);
+  }
+
+  return {
+    ...(parsed.models && {
+      models: Object.fromEntries(Object.entries(models).map(([rule, price]) => [rule, parseModelPrice(price, `models.${rule}`, hardware, source)]))
+    }),
+    ...(parsed.hardware && { hardware }),
+    ...(parsed.default !== undefined && { default: parseModelPrice(parsed.default, 'default', hardware, source) })
+  };
+};
+
+export const loadUsageOptions = (env: ConfigEnv = process.env): UsageOptions => {
+  const quotas = env.USAGE_QUOTAS ? parseUsageQuotas(env.USAGE_QUOTAS, 'USAGE_QUOTAS') : {};
+  return {
+    // Tracking turns on with quotas; USAGE_TRACKING=true records usage without enforcing anything
+    enabled: readBoolean(env, 'USAGE_TRACKING', Object.keys(quotas).length > 0),
+    prices: env.USAGE_PRICES ? parseUsagePrices(env.USAGE_PRICES, 'USAGE_PRICES') : {},
+    quotas
+  };
+};
+
+// Token subjects are your own user ids; API keys are only ever stored hashed
+export const getUsageSubject = (claims: ClientTokenClaims | undefined, apiKey: string | undefined): string =>
+  claims ? claims.sub : `key:${hashCredential(apiKey || '')}`;
+
+// Pinned versions beat model names, which beat owner wildcards
+const ruleSpecificity = (rule: string): number => rule.endsWith('/*') ? 0 : rule.includes(':') ? 2 : 1;
+
+export const findModelPrice = (prices: PriceTable, model: string): ModelPrice | undefined => {
+  const [rule] = Object.keys(prices.models ?? {})
+    .filter(candidate => matchesModelRule(candidate, model))
+    .sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a));
+  return rule ? prices.models![rule] : prices.default;
+};
+
+export const estimateCost = (
+  prices: PriceTable,
+  model: string,
+  usage: Pick<UsageTotals, 'predictions' | 'predictTimeSeconds'>
+): number => {
+  const price = findModelPrice(prices, model);
+  if (!price) return 0;
+  const perSecond = price.perSecond ?? (price.hardware ? prices.hardware?.[price.hardware] ?? 0 : 0);
+  return usage.predictions * (price.perPrediction ?? 0) + usage.predictTimeSeconds * perSecond;
+};
+
+// Replicate reports predict_time in seconds once a prediction has run
+export const getPredictTime = (prediction: { metrics?: { predict_time?: number } } | undefined): number => {
+  const predictTime = Number(prediction?.metrics?.predict_time);
+  return Number.isFinite(predictTime) && predictTime > 0 ? predictTime : 0;
+};
+
+// Periods follow UTC calendar days and months
+const periodLabel = (period: UsagePeriod, now: number): string =>
+  new Date(now).toISOString().slice(0, period === 'daily' ? 10 : 7);
+
+const periodEnd = (period: UsagePeriod, now: number): number => {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+};
+
+const secondsUntilReset = (period: UsagePeriod, now: number): number =>
+  Math.max(1, Math.ceil((periodEnd(period, now) - now) / 1000));
+
+export const usageKey = (subject: string, period: UsagePeriod, now: number = Date.now()): string =>
+  `usage:${subject}:${periodLabel(period, now)}`;
+
+// Checked before each prediction; the first exhausted limit rejects the request
+export const checkUsageQuotas = async (
+  store: UsageStore,
+  subject: string,
+  quotas: UsageQuotas,
+  now: number = Date.now()
+): Promise<UsageQuotaResult> => {
+  for (const period of USAGE_PERIODS) {
+    const limits = quotas[period];
+    if (!limits) continue;
+
+    const totals = (await store.get(usageKey(subject, period, now))) ?? EMPTY_TOTALS;
+    for (const metric of USAGE_METRICS) {
+      const limit = limits[metric];
+      if (limit !== undefined && totals[metric] >= limit) {
+        return { allowed: false, period, metric, limit, used: totals[metric], retryAfterSeconds: secondsUntilReset(period, now) };
+      }
+    }
+  }
+  return { allowed: true };
+};
+
+// Charge usage to both of the subject's current periods; returns what was added
+export const recordUsage = async (
+  store: UsageStore,
+  subject: string,
+  model: string,
+  usage: Pick<UsageTotals, 'predictions' | 'predictTimeSeconds'>,
+  prices: PriceTable,
+  now: number = Date.now()
+): Promise<UsageTotals> => {
+  const delta: UsageTotals = { ...usage, costUsd: estimateCost(prices, model, usage) };
+  // Totals outlive their period by a day so reports straddling midnight still find them
+  await Promise.all(USAGE_PERIODS.map(period =>
+    store.add(usageKey(subject, period, now), delta, secondsUntilReset(period, now) + 24 * 60 * 60)));
+  return delta;
+};
+
+export const trackPendingPrediction = (store: UsageStore, predictionId: string, pending: PendingPrediction): Promise<void> =>
+  store.trackPrediction(predictionId, pending, PENDING_PREDICTION_TTL_SECONDS);
+
+// Charge an async prediction's predict_time the first time it is seen settled, by webhook or by polling
+export const recordSettledPrediction = async (
+  store: UsageStore,
+  prediction: { id: string; status: string; metrics?: { predict_time?: number } },
+  prices: PriceTable,
+  now: number = Date.now()
+): Promise<UsageTotals | undefined> => {
+  if (!TERMINAL_STATUSES.includes(prediction.status)) return undefined;
+  const pending = await store.takePrediction(prediction.id);
+  if (!pending) return undefined;
+  return recordUsage(store, pending.subject, pending.model, { predictions: 0, predictTimeSeconds: getPredictTime(prediction) }, prices, now);
+};
+
+export const getUsageReport = async (
+  store: UsageStore,
+  subject: string,
+  quotas: UsageQuotas,
+  now: number = Date.now()
+): Promise<UsageReport> => {
+  const reportPeriod = async (period: UsagePeriod): Promise<UsagePeriodReport> => {
+    const totals = (await store.get(usageKey(subject, period, now))) ?? EMPTY_TOTALS;
+    const limits = quotas[period] ?? {};
+    return {
+      period: periodLabel(period, now),
+      resetsAt: new Date(periodEnd(period, now)).toISOString(),
+      predictions: totals.predictions,
+      predictTimeSeconds: totals.predictTimeSeconds,
+      costUsd: totals.costUsd,
+      limits,
+      remaining: Object.fromEntries(
+        Object.entries(limits).map(([metric, limit]) => [metric, Math.max(0, limit! - totals[metric as UsageMetric])])
+      )
+    };
+  };
+
+  const [daily, monthly] = await Promise.all([reportPeriod('daily'), reportPeriod('monthly')]);
+  return { subject, daily, monthly };
+};
+
+const METRIC_NAMES: Record<UsageMetric, string> = {
+  predictions: 'prediction',
+  predictTimeSeconds: 'predict time',
+  costUsd: 'spend'
+};
+
+// e.g. "Daily spend quota exceeded"
+export const usageQuotaMessage = (result: UsageQuotaResult): string =>
+  `${result.period === 'monthly' ? 'Monthly' : 'Daily'} ${METRIC_NAMES[result.metric ?? 'predictions']} quota exceeded`;
+
+export const usageQuotaHeaders = (result: UsageQuotaResult): Record<string, string> => ({
+  'Retry-After': String(result.retryAfterSeconds ?? 1)
+});
+
+export const createMemoryUsageStore = (): UsageStore & { clear(): void } => {
+  const totals = new Map<string, UsageTotals & { expiresAt: number }>();
+  const pending = new Map<string, PendingPrediction & { expiresAt: number }>();
+  return {
+    get: async (key) => {
+      const entry = totals.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) return undefined;
+      return { predictions: entry.predictions, predictTimeSeconds: entry.predictTimeSeconds, costUsd: entry.costUsd };
+    },
+    add: async (key, delta, ttlSeconds) => {
+      const entry = totals.get(key);
+      const current = entry && entry.expiresAt > Date.now() ? entry : EMPTY_TOTALS;
+      totals.set(key, {
+        predictions: current.predictions + delta.predictions,
+        predictTimeSeconds: current.predictTimeSeconds + delta.predictTimeSeconds,
+        costUsd: current.costUsd + delta.costUsd,
+        expiresAt: Date.now() + ttlSeconds * 1000
+      });
+    },
+    trackPrediction: async (predictionId, record, ttlSeconds) => {
+      pending.set(predictionId, { ...record, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+    takePrediction: async (predictionId) => {
+      const entry = pending.get(predictionId);
+      pending.delete(predictionId);
+      if (!entry || entry.expiresAt <= Date.now()) return undefined;
+      return { subject: entry.subject, model: entry.model };
+    },
+    clear: () => {
+      totals.clear();
+      pending.clear();
+    }
+  };
+};
+
+// The rate limiter's DynamoDB client plus the atomic update and delete the usage store needs
+export interface DynamoUsageClient extends DynamoDocumentClient {
+  update(params: {
+    TableName: string;
+    Key: Record<string, any>;
+    UpdateExpression: string;
+    ExpressionAttributeValues: Record<string, any>;
+  }): Promise<unknown>;
+  delete(params: { TableName: string; Key: Record<string, any>; ReturnValues?: 'ALL_OLD' }): Promise<{ Attributes?: Record<string, any> }>;
+}
+
+// Totals use ADD so concurrent charges from different instances never overwrite each other,
+// and pending predictions live in the same table under `prediction:<id>` until they are charged
+export const createDynamoUsageStore = (client: DynamoUsageClient, tableName: string): UsageStore => {
+  const expiresAt = (ttlSeconds: number) => Math.ceil(Date.now() / 1000) + ttlSeconds;
+  return {
+    get: async (key) => {
+      const { Item } = await client.get({ TableName: tableName, Key: { pk: key }, ConsistentRead: true });
+      return Item ? { predictions: Item.predictions ?? 0, predictTimeSeconds: Item.predictTimeSeconds ?? 0, costUsd: Item.costUsd ?? 0 } : undefined;
+    },
+    add: async (key, delta, ttlSeconds) => {
+      await client.update({
+        TableName: tableName,
+        Key: { pk: key },
+        UpdateExpression: 'ADD predictions :predictions, predictTimeSeconds :predictTimeSeconds, costUsd :costUsd SET expiresAt = :expiresAt',
+        ExpressionAttributeValues: {
+          ':predictions': delta.predictions,
+          ':predictTimeSeconds': delta.predictTimeSeconds,
+          ':costUsd': delta.costUsd,
+          ':expiresAt': expiresAt(ttlSeconds)
+        }
+      });
+    },
+    trackPrediction: async (predictionId, record, ttlSeconds) => {
+      await client.put({
+        TableName: tableName,
+        Item: { pk: `prediction:${predictionId}`, subject: record.subject, model: record.model, expiresAt: expiresAt(ttlSeconds) }
+      });
+    },
+    takePrediction: async (predictionId) => {
+      const { Attributes } = await client.delete({ TableName: tableName, Key: { pk: `prediction:${predictionId}` }, ReturnValues: 'ALL_OLD' });
+      // TTL deletion lags, so expired records can still be returned
+      if (!Attributes || Attributes.expiresAt <= Date.now() / 1000) return undefined;
+      return { subject: Attributes.subject, model: Attributes.model };
+    }
+  };
+};
+
+const defaultUsageStore = createMemoryUsageStore();
+let injectedStore: UsageStore | undefined;
+
+// Quotas only hold across instances when totals and pending predictions live in one store
+export const setUsageStore = (store: UsageStore | undefined): void => {
+  injectedStore = store;
+};
+
+export const getUsageStore = (): UsageStore => injectedStore || defaultUsageStore;
+
+export const resetUsage = (): void => {
+  defaultUsageStore.clear();
+};
@@ -1,18 +1,23 @@
 // Utility functions for the Replicate proxy
+import type { Span } from './tracing';
 
 export const withTimeout = <T>(
   promise: Promise<T>,
   timeoutMs: number,
-  timeoutMessage: string = 'Operation timed out'
+  timeoutMessage: string = 'Operation timed out',
+  onTimeout?: () => void
 ): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
   return Promise.race([
     promise,
     new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(timeoutMessage));
+      timer = setTimeout(() => {
+        onTimeout?.();
+        // Named like DOMException timeouts so callers can tell them from other failures
+        reject(Object.assign(new Error(timeoutMessage), { name: 'TimeoutError' }));
       }, timeoutMs);
     })
-  ]);
+  ]).finally(() => clearTimeout(timer));
 };
 
 export const sanitizeForLogs = (data: any, maxLength: number = 100): string => {
@@ -32,10 +37,92 @@ export const sanitizeForLogs = (data: any, maxLength: number = 100): string => {
   return String(data);
 };
 
+const REDACTED = '[REDACTED]';
+
+// Credentials that can leak into free text such as error messages
+const scrubSecrets = (value: string): string =>
+  value
+    .replace(/\br8_[A-Za-z0-9]{8,}/g, REDACTED)
+    .replace(/\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, `$1${REDACTED}`);
+
+// "input.*prompt" -> matchers for each segment; "*" matches any run of characters within a key
+const compilePath = (path: string): RegExp[] =>
+  path.split('.').map(segment =>
+    new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+  );
+
+// A path matches when it lines up with the end of the key path, so "apiKey" matches at any depth
+const matchesKeyPath = (keys: string[], path: RegExp[]): boolean =>
+  path.length <= keys.length &&
+  path.every((segment, index) => segment.test(keys[keys.length - path.length + index]));
+
+// Deep copy with values at the given key paths replaced and credential-like strings scrubbed
+export const redact = (data: unknown, paths: string[], maxDepth: number = 10): unknown => {
+  const compiled = paths.map(compilePath);
+  const seen = new WeakSet<object>();
+
+  const walk = (value: unknown, keys: string[]): unknown => {
+    if (keys.length > 0 && compiled.some(path => matchesKeyPath(keys, path))) {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return scrubSecrets(value);
+    }
+    if (value instanceof Error) {
+      return { name: value.name, message: scrubSecrets(value.message) };
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (keys.length >= maxDepth) {
+      return '[Truncated]';
+    }
+    seen.add(value);
+    const result = Array.isArray(value)
+      ? value.map(item => walk(item, keys))
+      : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item, [...keys, key])]));
+    seen.delete(value);
+    return result;
+  };
+
+  return walk(data, []);
+};
+
 export const generateCorrelationId = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
 export const isValidJsonSize = (jsonString: string, maxSizeBytes: number): boolean => {
   return Buffer.byteLength(jsonString, 'utf8') <= maxSizeBytes;
-};
\ No newline at end of file
+};
+
+// Replicate FileOutput objects expose url(); everything else is returned untouched
+const isFileOutput = (value: any): value is { url: () => URL | string } =>
+  !!value && typeof value === 'object' && typeof value.url === 'function';
+
+// With a span, each url() call gets its own child span
+export const resolveFileOutputs = async (output: any, span?: Span): Promise<any> => {
+  const resolve = async (item: { url: () => URL | string }) =>
+    span ? span.trace('resolve_output_url', async () => item.url()) : item.url();
+  if (Array.isArray(output)) {
+    return Promise.all(output.map(async (item) => (isFileOutput(item) ? await resolve(item) : item)));
+  }
+  return isFileOutput(output) ? await resolve(output) : output;
+};
+
+// Header lookup that works for both case-preserving (API Gateway v1) and lowercased (v2) events
+export const getHeader = (headers: Record<string, string> | undefined, name: string): string | undefined => {
+  if (!headers) return undefined;
+  const target = name.toLowerCase();
+  const key = Object.keys(headers).find(k => k.toLowerCase() === target);
+  return key ? headers[key] : undefined;
+};
+
+export const getBearerToken = (headers: Record<string, string> | undefined): string | undefined => {
+  const authorization = getHeader(headers, 'authorization');
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+};
@@ -0,0 +1,110 @@
+// Replicate webhook verification and delivery
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Prediction } from 'replicate';
+
+export const WEBHOOKS_PATH = '/api/replicate/webhooks';
+
+export interface WebhookEvent {
+  webhookId: string;
+  timestamp: number;
+  prediction: Prediction;
+  receivedAt: string;
+}
+
+// Receives every verified webhook; throwing makes the proxy answer 500 so Replicate retries
+export type WebhookSink = (event: WebhookEvent) => Promise<void> | void;
+
+export interface WebhookSignatureInput {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+  body: string;
+  secret: string;
+  toleranceSeconds: number;
+  now?: number;
+}
+
+// Replicate signs `${id}.${timestamp}.${body}` with HMAC-SHA256, keyed by the base64 part of the whsec_ secret
+export const signWebhookPayload = (id: string, timestamp: string, body: string, secret: string): string => {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  return createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+};
+
+export const verifyWebhookSignature = (
+  input: WebhookSignatureInput
+): { isValid: boolean; error?: string; statusCode?: number } => {
+  const { id, timestamp, signature, body, secret, toleranceSeconds, now = Date.now() } = input;
+
+  if (!id || !timestamp || !signature) {
+    return { isValid: false, statusCode: 400, error: 'Missing webhook-id, webhook-timestamp or webhook-signature header' };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isFinite(timestampSeconds) || Math.abs(now / 1000 - timestampSeconds) > toleranceSeconds) {
+    return { isValid: false, statusCode: 401, error: 'Webhook timestamp is outside the tolerance window' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(id, timestamp, body, secret));
+  // The header holds space-separated "v1,<signature>" entries; any match is accepted
+  const matches = signature.split(' ').some((entry) => {
+    const [version, value] = entry.split(',');
+    if (version !== 'v1' || !value) return false;
+    const candidate = Buffer.from(value);
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+
+  if (!matches) {
+    return { isValid: false, statusCode: 401, error: 'Invalid webhook signature' };
+  }
+
+  return { isValid: true };
+};
+
+export interface MemoryWebhookStore {
+  sink: WebhookSink;
+  get(predictionId: string): WebhookEvent | undefined;
+  list(): WebhookEvent[];
+  clear(): void;
+}
+
+// Keeps the latest event per prediction; state lives only as long as the Lambda container
+export const createMemoryWebhookStore = (): MemoryWebhookStore => {
+  const events = new Map<string, WebhookEvent>();
+  return {
+    sink: (event) => {
+      events.set(event.prediction.id, event);
+    },
+    get: (predictionId) => events.get(predictionId),
+    list: () => Array.from(events.values()),
+    clear: () => events.clear()
+  };
+};
+
+// Forward verified events as JSON to another service
+export const createCallbackWebhookSink = (url: string, fetchImpl: typeof fetch = fetch): WebhookSink =>
+  async (event) => {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event)
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook callback failed with status ${response.status}`);
+    }
+  };
+
+export const defaultWebhookStore = createMemoryWebhookStore();
+
+let injectedSink: WebhookSink | undefined;
+
+// Hand verified events to a queue or database instead of this instance's memory
+export const setWebhookSink = (sink: WebhookSink | undefined): void => {
+  injectedSink = sink;
+};
+
+// An injected sink wins, then a configured callback URL, then the in-memory store
+export const getWebhookSink = (forwardUrl?: string): WebhookSink => {
+  if (injectedSink) return injectedSink;
+  if (forwardUrl) return createCallbackWebhookSink(forwardUrl);
+  return defaultWebhookStore.sink;
+};
@@ -0,0 +1,297 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { handler, handleRequest, fromLambdaEvent, getLambdaEventType } from '../src/proxy';
+import { createNodeListener } from '../src/node';
+import { handleFetchRequest, createBunHandler } from '../src/fetch';
+import { ReplicateMock } from './test-utils/replicate-mock';
+import { createLambdaContext } from './test-utils/lambda-events';
+
+interface TestRequest {
+  method: string;
+  path: string;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+}
+
+interface TestResponse {
+  status: number;
+  // Lowercased so the suite doesn't depend on each platform's header casing
+  headers: Record<string, string>;
+  body: string;
+}
+
+const lowercaseHeaders = (headers: Record<string, any> = {}): Record<string, string> =>
+  Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), String(value)]));
+
+const readFetchResponse = async (response: Response): Promise<TestResponse> => ({
+  status: response.status,
+  headers: Object.fromEntries(response.headers),
+  body: await response.text()
+});
+
+const toRequest = (baseUrl: string, request: TestRequest): Request =>
+  new Request(`${baseUrl}${request.path}`, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  });
+
+let nodeServer: Server;
+let nodeUrl: string;
+let bunServer: ReturnType<typeof Bun.serve>;
+
+beforeAll(async () => {
+  nodeServer = createServer(createNodeListener());
+  await new Promise<void>(resolve => nodeServer.listen(0, '127.0.0.1', resolve));
+  nodeUrl = `http://127.0.0.1:${(nodeServer.address() as AddressInfo).port}`;
+  bunServer = Bun.serve({ port: 0, hostname: '127.0.0.1', fetch: createBunHandler() });
+});
+
+afterAll(async () => {
+  bunServer.stop(true);
+  await new Promise(resolve => nodeServer.close(resolve));
+});
+
+// Every adapter is driven through the same request/response shape
+const adapters: Array<{ name: string; send: (request: TestRequest) => Promise<TestResponse> }> = [
+  {
+    name: 'handleRequest',
+    send: async (request) => {
+      const result = await handleRequest({
+        method: request.method,
+        path: request.path,
+        headers: request.headers || {},
+        body: request.body ?? null,
+        query: {}
+      });
+      return { status: result.statusCode, headers: lowercaseHeaders(result.headers), body: result.body };
+    }
+  },
+  {
+    name: 'AWS API Gateway v1',
+    send: async (request) => {
+      const isBinary = request.body instanceof Uint8Array;
+      const result = await handler({
+        httpMethod: request.method,
+        path: request.path,
+        headers: request.headers || {},
+        body: isBinary ? Buffer.from(request.body as Uint8Array).toString('base64') : request.body ?? null,
+        isBase64Encoded: isBinary,
+        requestContext: { identity: { sourceIp: '127.0.0.1' } }
+      }, createLambdaContext());
+      return { status: result.statusCode, headers: lowercaseHeaders(result.headers), body: result.body };
+    }
+  },
+  {
+    name: 'AWS Function URL',
+    send: async (request) => {
+      const isBinary = request.body instanceof Uint8Array;
+      const result = await handler({
+        rawPath: request.path,
+        headers: lowercaseHeaders(request.headers),
+        body: isBinary ? Buffer.from(request.body as Uint8Array).toString('base64') : request.body,
+        isBase64Encoded: isBinary,
+        requestContext: { http: { method: request.method, sourceIp: '127.0.0.1' } }
+      }, createLambdaContext());
+      return { status: result.statusCode, headers: lowercaseHeaders(result.headers), body: result.body };
+    }
+  },
+  {
+    name: 'Node http',
+    send: async (request) => readFetchResponse(await fetch(toRequest(nodeUrl, request)))
+  },
+  {
+    name: 'Bun.serve',
+    send: async (request) => readFetchResponse(await fetch(toRequest(`http://127.0.0.1:${bunServer.port}`, request)))
+  },
+  {
+    name: 'Fetch',
+    send: async (request) => readFetchResponse(await handleFetchRequest(toRequest('https://proxy.example.com', request)))
+  }
+];
+
+describe.each(adapters)('$name adapter', ({ send }) => {
+  let replicateMock: ReplicateMock;
+
+  beforeEach(() => {
+    replicateMock = new ReplicateMock();
+  });
+
+  afterEach(() => {
+    replicateMock.restore();
+  });
+
+  test('serves the health check with CORS headers', async () => {
+    const response = await send({ method: 'GET', path: '/health' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['access-control-allow-origin']).toBe('*');
+    expect(response.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(response.body).status).toBe('ok');
+  });
+
+  test('answers CORS preflights', async () => {
+    const response = await send({ method: 'OPTIONS', path: '/api/replicate', headers: { Origin: 'https://app.example.com' } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['access-control-allow-methods']).toBe('GET, POST, OPTIONS');
+    expect(response.headers['access-control-max-age']).toBe('600');
+  });
+
+  test('proxies sync predictions', async () => {
+    replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+
+    const response = await send({
+      method: 'POST',
+      path: '/api/replicate',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'owner/model', input: { prompt: 'a cat' }, apiKey: 'test12345678' })
+    });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual(['https://replicate.delivery/pbxt/out.png']);
+    expect(replicateMock.getLastCall()).toMatchObject({ model: 'owner/model', options: { input: { prompt: 'a cat' } } });
+  });
+
+  test('passes multipart uploads through as bytes', async () => {
+    replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00]);
+    const form = new FormData();
+    form.append('model', 'owner/model');
+    form.append('apiKey', 'test12345678');
+    form.append('image', new Blob([png], { type: 'image/png' }), 'cat.png');
+    const encoded = new Request('http://localhost', { method: 'POST', body: form });
+    const contentType = encoded.headers.get('content-type')!;
+
+    const response = await send({
+      method: 'POST',
+      path: '/api/replicate',
+      headers: { 'Content-Type': contentType },
+      body: new Uint8Array(await encoded.arrayBuffer())
+    });
+
+    expect(response.status).toBe(200);
+    expect(replicateMock.getLastCall()?.options.input.image).toBe(`data:image/png;base64,${Buffer.from(png).toString('base64')}`);
+  });
+
+  test('streams events in stream mode', async () => {
+    replicateMock.queueStreamEvents([
+      { event: 'output', data: 'Hi' },
+      { event: 'done', data: '{}' }
+    ]);
+
+    const response = await send({
+      method: 'POST',
+      path: '/api/replicate',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'meta/llama', input: { prompt: 'hello' }, apiKey: 'test12345678', mode: 'stream' })
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    expect(response.body).toBe('event: output\ndata: Hi\n\nevent: done\ndata: {}\n\n');
+  });
+
+  test('rejects invalid JSON', async () => {
+    const response = await send({ method: 'POST', path: '/api/replicate', body: 'invalid json{' });
+
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body).error).toBe('Invalid JSON in request body');
+  });
+
+  test('returns 404 for unknown routes', async () => {
+    const response = await send({ method: 'GET', path: '/unknown' });
+
+    expect(response.status).toBe(404);
+    expect(JSON.parse(response.body)).toMatchObject({ code: 'NOT_FOUND', error: 'Route GET:/unknown not found' });
+  });
+});
+
+describe('Adapter request limits', () => {
+  test('Node and Fetch adapters reject bodies over maxBodySize with 413', async () => {
+    const server = createServer(createNodeListener({ maxBodySize: 16 }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const body = JSON.stringify({ model: 'owner/model', apiKey: 'test12345678' });
+
+    try {
+      const nodeResponse = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/api/replicate`, { method: 'POST', body });
+      const fetchResponse = await handleFetchRequest(
+        new Request('https://proxy.example.com/api/replicate', { method: 'POST', body }),
+        { maxBodySize: 16 }
+      );
+
+      expect(nodeResponse.status).toBe(413);
+      expect(fetchResponse.status).toBe(413);
+      expect((await fetchResponse.json()).error).toBe('Request body too large. Maximum size: 16 bytes');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  test('Fetch adapter reports the source IP from getSourceIp', async () => {
+    process.env.RATE_LIMITS = JSON.stringify([{ key: 'ip', limit: 1, windowSeconds: 60 }]);
+    const replicateMock = new ReplicateMock();
+    replicateMock.queueSuccessResponse(['ok']);
+    const send = () => handleFetchRequest(
+      new Request('https://proxy.example.com/api/replicate', {
+        method: 'POST',
+        headers: { 'cf-connecting-ip': '203.0.113.9' },
+        body: JSON.stringify({ model: 'owner/model', apiKey: 'test12345678' })
+      }),
+      { getSourceIp: (request) => request.headers.get('cf-connecting-ip') }
+    );
+
+    try {
+      expect((await send()).status).toBe(200);
+      expect((await send()).status).toBe(429);
+    } finally {
+      delete process.env.RATE_LIMITS;
+      replicateMock.restore();
+    }
+  });
+});
+
+describe('fromLambdaEvent', () => {
+  test('normalizes CloudFront events', () => {
+    const request = fromLambdaEvent({
+      Records: [{
+        cf: {
+          request: {
+            method: 'POST',
+            uri: '/api/replicate',
+            querystring: 'wait=true',
+            clientIp: '198.51.100.4',
+            headers: { 'content-type': [{ key: 'Content-Type', value: 'application/json' }] },
+            body: { data: Buffer.from('{"model":"owner/model"}').toString('base64'), encoding: 'base64' }
+          }
+        }
+      }]
+    });
+
+    expect(request).toMatchObject({
+      method: 'POST',
+      path: '/api/replicate',
+      headers: { 'content-type': 'application/json' },
+      query: { wait: 'true' },
+      sourceIp: '198.51.100.4'
+    });
+    expect(Buffer.from(request.body as Uint8Array).toString()).toBe('{"model":"owner/model"}');
+  });
+
+  test('serializes object bodies from direct invocations', () => {
+    const request = fromLambdaEvent({ method: 'POST', uri: '/api/replicate', body: { model: 'owner/model' } });
+
+    expect(request).toMatchObject({ method: 'POST', path: '/api/replicate', body: '{"model":"owner/model"}' });
+  });
+});
+
+describe('getLambdaEventType', () => {
+  test('names each Lambda event source', () => {
+    expect(getLambdaEventType({ Records: [{ cf: { request: { uri: '/' } } }] })).toBe('cloudfront');
+    expect(getLambdaEventType({ rawPath: '/', requestContext: { domainName: 'abc.lambda-url.us-east-1.on.aws', http: { method: 'GET' } } })).toBe('function-url');
+    expect(getLambdaEventType({ rawPath: '/', requestContext: { domainName: 'abc.execute-api.us-east-1.amazonaws.com', http: { method: 'GET' } } })).toBe('apigateway-v2');
+    expect(getLambdaEventType({ httpMethod: 'GET', path: '/' })).toBe('apigateway-v1');
+    expect(getLambdaEventType({ method: 'GET', uri: '/' })).toBe('direct');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'bun:test';
+import { loadBatchOptions, validateBatchRequest, mapWithConcurrency, toBatchItemResult, summarizeBatch } from '../src/batch';
+import { ok, accepted, customError } from '../src/responses';
+
+const apiKey = 'test-api-key-123';
+
+describe('Batch predictions', () => {
+  test('loadBatchOptions reads limits from the environment', () => {
+    expect(loadBatchOptions({})).toEqual({ maxJobs: 12, concurrency: 4, maxRequestSize: 4 * 1048576 });
+    expect(loadBatchOptions({ BATCH_MAX_JOBS: '20', BATCH_CONCURRENCY: '2', BATCH_MAX_REQUEST_SIZE: '512KB' }))
+      .toEqual({ maxJobs: 20, concurrency: 2, maxRequestSize: 524288 });
+    expect(() => loadBatchOptions({ BATCH_CONCURRENCY: '0' })).toThrow('BATCH_CONCURRENCY must be a whole number of at least 1, got "0"');
+  });
+
+  describe('validateBatchRequest', () => {
+    const job = { model: 'owner/model', input: { prompt: 'a cat' } };
+
+    test('accepts jobs that pass the single-prediction rules', () => {
+      expect(validateBatchRequest({ apiKey, jobs: [job, { deployment: 'owner/name' }] }, 'apiKey', 12)).toEqual({ isValid: true });
+    });
+
+    test('limits the job count', () => {
+      expect(validateBatchRequest({ apiKey, jobs: [] }, 'apiKey', 2).error).toBe('Jobs must be a non-empty array');
+      expect(validateBatchRequest({ apiKey, jobs: [job, job, job] }, 'apiKey', 2).error).toBe('A batch can have at most 2 jobs');
+    });
+
+    test('names the first invalid job', () => {
+      expect(validateBatchRequest({ apiKey, jobs: [job, { model: 'not-a-model' }] }, 'apiKey', 12).error)
+        .toBe('jobs[1]: Model name is required and must be in format "owner/model"');
+      expect(validateBatchRequest({ apiKey, jobs: [{ ...job, mode: 'stream' }] }, 'apiKey', 12).error)
+        .toBe('jobs[0]: Stream mode is not supported in batches');
+      expect(validateBatchRequest({ apiKey, jobs: [{ ...job, apiKey: 'other-key-123' }] }, 'apiKey', 12).error)
+        .toBe('jobs[0]: Jobs share the batch credential and can\'t carry their own');
+      expect(validateBatchRequest({ jobs: [job] }, 'apiKey', 12).error)
+        .toBe('jobs[0]: Valid API key is required (8-200 characters)');
+    });
+  });
+
+  test('mapWithConcurrency bounds calls in flight and keeps the input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  test('toBatchItemResult maps outputs, handed-off predictions and errors', () => {
+    expect(toBatchItemResult(0, ok(['https://example.com/a.png']))).toEqual({
+      index: 0, status: 'succeeded', statusCode: 200, output: ['https://example.com/a.png']
+    });
+    expect(toBatchItemResult(1, accepted({ id: 'abc123', status: 'starting' }))).toMatchObject({
+      index: 1, status: 'accepted', statusCode: 202, prediction: { id: 'abc123' }
+    });
+    expect(toBatchItemResult(2, customError(403, 'Model owner/model is not allowed by policy', undefined, undefined, 'MODEL_NOT_ALLOWED'))).toEqual({
+      index: 2, status: 'failed', statusCode: 403, error: { code: 'MODEL_NOT_ALLOWED', error: 'Model owner/model is not allowed by policy' }
+    });
+  });
+
+  test('summarizeBatch counts each outcome', () => {
+    const summary = summarizeBatch([
+      toBatchItemResult(0, ok(['a'])),
+      toBatchItemResult(1, customError(502, 'Boom', undefined, undefined, 'UPSTREAM_ERROR')),
+      toBatchItemResult(2, ok(['c']))
+    ]);
+
+    expect(summary).toMatchObject({ succeeded: 2, accepted: 0, failed: 1 });
+  });
+});
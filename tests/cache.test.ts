@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  normalizeInput,
+  responseCacheKey,
+  isCacheableRequest,
+  isCacheBypassed,
+  createLruCacheStore,
+  createKeyValueCacheStore,
+  KeyValueClient
+} from '../src/cache';
+
+describe('Response Cache', () => {
+  describe('responseCacheKey', () => {
+    test('ignores key order and undefined values', () => {
+      expect(normalizeInput({ b: 1, a: { d: [{ y: 2, x: 1 }], c: undefined } })).toEqual({ a: { d: [{ x: 1, y: 2 }] }, b: 1 });
+      expect(responseCacheKey('owner/model', { seed: 1, prompt: 'cat' }, 'user-1'))
+        .toBe(responseCacheKey('owner/model', { prompt: 'cat', seed: 1, extra: undefined }, 'user-1'));
+    });
+
+    test('differs by caller, model, version and input', () => {
+      const base = responseCacheKey('owner/model', { seed: 1 }, 'user-1');
+      expect(responseCacheKey('owner/model', { seed: 1 }, 'user-2')).not.toBe(base);
+      expect(responseCacheKey('owner/other', { seed: 1 }, 'user-1')).not.toBe(base);
+      expect(responseCacheKey(`owner/model:${'a'.repeat(64)}`, { seed: 1 }, 'user-1')).not.toBe(base);
+      expect(responseCacheKey('owner/model', { seed: 2 }, 'user-1')).not.toBe(base);
+    });
+  });
+
+  test('isCacheableRequest caches seeded requests unless told otherwise', () => {
+    expect(isCacheableRequest({ seed: 42 })).toBe(true);
+    expect(isCacheableRequest({ prompt: 'cat' })).toBe(false);
+    expect(isCacheableRequest({ prompt: 'cat' }, true)).toBe(true);
+    expect(isCacheableRequest({ seed: 42 }, false)).toBe(false);
+  });
+
+  test('isCacheBypassed honours Cache-Control: no-cache', () => {
+    expect(isCacheBypassed('no-cache')).toBe(true);
+    expect(isCacheBypassed('max-age=0, No-Cache')).toBe(true);
+    expect(isCacheBypassed('max-age=60')).toBe(false);
+    expect(isCacheBypassed(undefined)).toBe(false);
+  });
+
+  describe('createLruCacheStore', () => {
+    test('evicts the least recently used entry', async () => {
+      const store = createLruCacheStore(2);
+      await store.set('a', 1, 60);
+      await store.set('b', 2, 60);
+      await store.get('a');
+      await store.set('c', 3, 60);
+
+      expect(await store.get('a')).toBe(1);
+      expect(await store.get('b')).toBeUndefined();
+      expect(await store.get('c')).toBe(3);
+      expect(store.size()).toBe(2);
+    });
+
+    test('expires entries after their TTL', async () => {
+      const store = createLruCacheStore();
+      await store.set('a', ['url'], 0);
+
+      expect(await store.get('a')).toBeUndefined();
+    });
+  });
+
+  test('createKeyValueCacheStore serializes outputs under a prefix', async () => {
+    const values = new Map<string, { value: string; ttl: number }>();
+    const client: KeyValueClient = {
+      get: async (key) => values.get(key)?.value ?? null,
+      set: async (key, value, ttl) => values.set(key, { value, ttl })
+    };
+    const store = createKeyValueCacheStore(client);
+
+    await store.set('abc', ['https://replicate.delivery/out.png'], 300);
+
+    expect(values.get('replicate-proxy:abc')).toEqual({ value: '["https://replicate.delivery/out.png"]', ttl: 300 });
+    expect(await store.get('abc')).toEqual(['https://replicate.delivery/out.png']);
+    expect(await store.get('missing')).toBeUndefined();
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { getConfig, CONSTANTS } from '../src/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getConfig, loadConfig, resetConfig, CONSTANTS } from '../src/config';
 
 describe('Configuration', () => {
   let originalEnv: Record<string, string | undefined>;
@@ -21,15 +24,47 @@ describe('Configuration', () => {
       delete process.env.REPLICATE_TIMEOUT;
       delete process.env.CORS_ALLOWED_ORIGINS;
       delete process.env.LOG_LEVEL;
+      delete process.env.LOG_REDACT_PATHS;
+      delete process.env.LOG_DEBUG_SAMPLE_RATE;
       delete process.env.ENABLE_STACK_TRACES;
+      delete process.env.REPLICATE_WEBHOOK_URL;
+      delete process.env.REPLICATE_WEBHOOK_SECRET;
+      delete process.env.WEBHOOK_TOLERANCE_SECONDS;
+      delete process.env.INPUT_VALIDATION;
+      delete process.env.INPUT_SCHEMA_CACHE_TTL;
+      delete process.env.RATE_LIMITS;
+      delete process.env.RESPONSE_CACHE_TTL;
+      delete process.env.RESPONSE_CACHE_MAX_ENTRIES;
+      delete process.env.OUTPUT_BUCKET;
+      delete process.env.INLINE_OUTPUT_MAX_BYTES;
+      delete process.env.UPLOAD_MAX_FILE_SIZE;
+      delete process.env.UPLOAD_ALLOWED_TYPES;
+      delete process.env.UPLOAD_DATA_URI_MAX_SIZE;
 
       const config = getConfig();
 
       expect(config.maxRequestSize).toBe(1048576); // 1MB
       expect(config.replicateTimeout).toBe(300000); // 5 minutes
-      expect(config.corsAllowedOrigins).toEqual(['*']);
+      expect(config.cors.allowedOrigins).toEqual(['*']);
       expect(config.logLevel).toBe('debug'); // non-production default
+      expect(config.logRedactPaths).toContain('apiKey');
+      expect(config.logDebugSampleRate).toBe(0);
       expect(config.enableStackTraces).toBe(true); // non-production default
+      expect(config.webhookUrl).toBeUndefined();
+      expect(config.webhookSigningSecret).toBeUndefined();
+      expect(config.webhookToleranceSeconds).toBe(300);
+      expect(config.inputValidation).toBe('off');
+      expect(config.inputSchemaCacheTtl).toBe(600000); // 10 minutes
+      expect(config.rateLimits).toEqual([]);
+      expect(config.responseCacheTtl).toBe(0); // disabled
+      expect(config.responseCacheMaxEntries).toBe(100);
+      expect(config.outputStorage).toBeUndefined();
+      expect(config.inlineOutputMaxBytes).toBe(5000000);
+      expect(config.uploads).toEqual({
+        maxFileSize: 5242880, // 5MB
+        allowedTypes: ['image/*', 'audio/*', 'video/*'],
+        dataUriMaxSize: 262144 // 256KB
+      });
     });
 
     test('uses production defaults', () => {
@@ -54,19 +89,124 @@ describe('Configuration', () => {
 
       expect(config.maxRequestSize).toBe(2097152);
       expect(config.replicateTimeout).toBe(600000);
-      expect(config.corsAllowedOrigins).toEqual(['https://example.com', 'https://app.example.com']);
+      expect(config.cors.allowedOrigins).toEqual(['https://example.com', 'https://app.example.com']);
       expect(config.logLevel).toBe('error');
       expect(config.enableStackTraces).toBe(true);
     });
 
-    test('handles invalid numbers gracefully', () => {
+    test('reads webhook settings from the environment', () => {
+      process.env.REPLICATE_WEBHOOK_URL = 'https://proxy.example.com/api/replicate/webhooks';
+      process.env.REPLICATE_WEBHOOK_SECRET = 'whsec_abc';
+      process.env.WEBHOOK_TOLERANCE_SECONDS = '60';
+      process.env.WEBHOOK_FORWARD_URL = 'https://backend.example.com/hooks';
+
+      const config = getConfig();
+
+      expect(config.webhookUrl).toBe('https://proxy.example.com/api/replicate/webhooks');
+      expect(config.webhookSigningSecret).toBe('whsec_abc');
+      expect(config.webhookToleranceSeconds).toBe(60);
+      expect(config.webhookForwardUrl).toBe('https://backend.example.com/hooks');
+    });
+
+    test('loads the model policy from MODEL_POLICY', () => {
+      process.env.MODEL_POLICY = '{"allow":["black-forest-labs/*"]}';
+
+      const config = getConfig();
+
+      expect(config.modelPolicy?.allow).toEqual(['black-forest-labs/*']);
+    });
+
+    test('throws on an invalid model policy', () => {
+      process.env.MODEL_POLICY = '{"allow":"everything"}';
+
+      expect(() => getConfig()).toThrow('"allow" must be an array');
+    });
+
+    test('loads input validation settings', () => {
+      process.env.INPUT_VALIDATION = 'strict';
+      process.env.INPUT_SCHEMA_CACHE_TTL = '1000';
+
+      const config = getConfig();
+
+      expect(config.inputValidation).toBe('strict');
+      expect(config.inputSchemaCacheTtl).toBe(1000);
+    });
+
+    test('loads rate limit rules from RATE_LIMITS', () => {
+      process.env.RATE_LIMITS = '[{"key":"ip","limit":10,"windowSeconds":60}]';
+
+      expect(getConfig().rateLimits).toEqual([{ key: 'ip', limit: 10, windowSeconds: 60 }]);
+    });
+
+    test('rejects invalid values, listing every mistake', () => {
       process.env.MAX_REQUEST_SIZE = 'invalid';
       process.env.REPLICATE_TIMEOUT = 'also-invalid';
+      process.env.LOG_LEVEL = 'verbose';
+
+      expect(() => getConfig()).toThrow([
+        'Invalid configuration:',
+        '  LOG_LEVEL must be one of debug, info, warn, error, got "verbose"',
+        '  MAX_REQUEST_SIZE must be a size such as 1048576, 512KB or 1MB, got "invalid"',
+        '  REPLICATE_TIMEOUT must be a duration such as 30000, 500ms, 30s or 5m, got "also-invalid"'
+      ].join('\n'));
+    });
+
+    test('rejects zero for limits and timeouts that need a positive value', () => {
+      process.env.REPLICATE_TIMEOUT = '0';
+      process.env.MAX_REQUEST_SIZE = '0KB';
+      process.env.RESPONSE_CACHE_TTL = '0';
+
+      expect(() => getConfig()).toThrow([
+        'Invalid configuration:',
+        '  MAX_REQUEST_SIZE must be a size of at least 1 byte, got "0KB"',
+        '  REPLICATE_TIMEOUT must be a duration of at least 1ms, got "0"'
+      ].join('\n'));
+    });
+
+    test('requires server credentials in token mode', () => {
+      process.env.AUTH_MODE = 'token';
+      delete process.env.REPLICATE_API_TOKEN;
+      delete process.env.CLIENT_TOKEN_SECRET;
+
+      expect(() => getConfig()).toThrow([
+        'Invalid configuration:',
+        '  AUTH_MODE=token needs REPLICATE_API_TOKEN',
+        '  AUTH_MODE=token needs CLIENT_TOKEN_SECRET'
+      ].join('\n'));
+    });
+
+    test('validates UPLOAD_ALLOWED_TYPES', () => {
+      expect(loadConfig({ UPLOAD_ALLOWED_TYPES: 'image/png, application/pdf,' }).uploads.allowedTypes).toEqual(['image/png', 'application/pdf']);
+      expect(() => loadConfig({ UPLOAD_ALLOWED_TYPES: 'image/*,png' }))
+        .toThrow('UPLOAD_ALLOWED_TYPES must list content types such as image/png or image/*, got "png"');
+      expect(() => loadConfig({ UPLOAD_ALLOWED_TYPES: 'image/' })).toThrow('got "image/"');
+    });
+
+    test('accepts sizes and durations with units', () => {
+      process.env.MAX_REQUEST_SIZE = '1mb';
+      process.env.REPLICATE_TIMEOUT = '30s';
+      process.env.RESPONSE_CACHE_TTL = '5m';
+      process.env.UPLOAD_DATA_URI_MAX_SIZE = '512KB';
 
       const config = getConfig();
 
-      expect(config.maxRequestSize).toBeNaN();
-      expect(config.replicateTimeout).toBeNaN();
+      expect(config.maxRequestSize).toBe(1048576);
+      expect(config.replicateTimeout).toBe(30000);
+      expect(config.responseCacheTtl).toBe(300);
+      expect(config.uploads.dataUriMaxSize).toBe(524288);
+    });
+
+    test('is cached and frozen', () => {
+      process.env.REPLICATE_TIMEOUT = '1000';
+      const config = getConfig();
+
+      process.env.REPLICATE_TIMEOUT = '2000';
+      expect(getConfig()).toBe(config);
+      expect(Object.isFrozen(config)).toBe(true);
+      expect(Object.isFrozen(config.cors.allowedOrigins)).toBe(true);
+
+      resetConfig();
+      expect(getConfig().replicateTimeout).toBe(2000);
     });
 
     test('handles empty CORS origins', () => {
@@ -74,7 +214,7 @@ describe('Configuration', () => {
 
       const config = getConfig();
 
-      expect(config.corsAllowedOrigins).toEqual(['']);
+      expect(config.cors.allowedOrigins).toEqual([]);
     });
 
     test('handles ENABLE_STACK_TRACES as string false', () => {
@@ -86,10 +226,56 @@ describe('Configuration', () => {
     });
   });
 
+  describe('CONFIG_FILE', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'proxy-config-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeConfig = (contents: unknown) => {
+      const path = join(dir, 'config.json');
+      writeFileSync(path, typeof contents === 'string' ? contents : JSON.stringify(contents));
+      return path;
+    };
+
+    test('reads settings from the file, with the environment winning', () => {
+      const path = writeConfig({
+        MAX_REQUEST_SIZE: '2MB',
+        REPLICATE_TIMEOUT: 60000,
+        TRACING_ENABLED: true,
+        RATE_LIMITS: [{ key: 'ip', limit: 10, windowSeconds: 60 }]
+      });
+
+      const config = loadConfig({ CONFIG_FILE: path, REPLICATE_TIMEOUT: '90s' });
+
+      expect(config.maxRequestSize).toBe(2 * 1048576);
+      expect(config.replicateTimeout).toBe(90000);
+      expect(config.tracing.enabled).toBe(true);
+      expect(config.rateLimits).toEqual([{ key: 'ip', limit: 10, windowSeconds: 60 }]);
+    });
+
+    test('validates file values like environment values', () => {
+      const path = writeConfig({ INPUT_VALIDATION: 'sometimes' });
+
+      expect(() => loadConfig({ CONFIG_FILE: path })).toThrow('INPUT_VALIDATION must be one of off, lenient, strict, got "sometimes"');
+    });
+
+    test('rejects unreadable files and keys that are not variable names', () => {
+      expect(() => loadConfig({ CONFIG_FILE: join(dir, 'missing.json') })).toThrow(`Unable to read CONFIG_FILE ${join(dir, 'missing.json')}`);
+      expect(() => loadConfig({ CONFIG_FILE: writeConfig('[]') })).toThrow('expected an object of configuration variables');
+      expect(() => loadConfig({ CONFIG_FILE: writeConfig({ maxRequestSize: 1 }) })).toThrow('"maxRequestSize" is not a variable name such as MAX_REQUEST_SIZE');
+    });
+  });
+
   describe('CONSTANTS', () => {
     test('has expected constant values', () => {
       expect(CONSTANTS.REQUEST_TIMEOUT).toBe(300000);
-      expect(CONSTANTS.MAX_MODEL_NAME_LENGTH).toBe(100);
+      expect(CONSTANTS.MAX_MODEL_NAME_LENGTH).toBe(165);
       expect(CONSTANTS.MIN_API_KEY_LENGTH).toBe(8);
       expect(CONSTANTS.MAX_API_KEY_LENGTH).toBe(200);
       expect(CONSTANTS.SUPPORTED_HTTP_METHODS).toEqual(['GET', 'POST', 'OPTIONS']);
@@ -0,0 +1,93 @@
+import { describe, test, expect } from 'bun:test';
+import { matchesOrigin, isOriginAllowed, resolveAllowedOrigin, loadCorsOptions } from '../src/cors';
+
+describe('CORS', () => {
+  describe('matchesOrigin', () => {
+    test('matches exact origins case-insensitively', () => {
+      expect(matchesOrigin('https://app.example.com', 'https://app.example.com')).toBe(true);
+      expect(matchesOrigin('https://APP.example.com', 'https://app.example.com')).toBe(true);
+      expect(matchesOrigin('https://app.example.com:8443', 'https://app.example.com')).toBe(false);
+      expect(matchesOrigin('http://app.example.com', 'https://app.example.com')).toBe(false);
+    });
+
+    test('matches wildcard subdomains but not the apex or lookalikes', () => {
+      const pattern = 'https://*.example.com';
+      expect(matchesOrigin('https://app.example.com', pattern)).toBe(true);
+      expect(matchesOrigin('https://a.b.example.com', pattern)).toBe(true);
+      expect(matchesOrigin('https://example.com', pattern)).toBe(false);
+      expect(matchesOrigin('https://evilexample.com', pattern)).toBe(false);
+      expect(matchesOrigin('https://app.example.com.evil.com', pattern)).toBe(false);
+      expect(matchesOrigin('http://app.example.com', pattern)).toBe(false);
+    });
+
+    test('matches regex patterns and ignores invalid ones', () => {
+      expect(matchesOrigin('https://pr-42.preview.dev', '/^https:\\/\\/pr-\\d+\\.preview\\.dev$/')).toBe(true);
+      expect(matchesOrigin('https://main.preview.dev', '/^https:\\/\\/pr-\\d+\\.preview\\.dev$/')).toBe(false);
+      expect(matchesOrigin('https://app.com', '/[/')).toBe(false);
+    });
+  });
+
+  test('isOriginAllowed checks every pattern', () => {
+    const allowed = ['https://app.com', 'https://*.example.com'];
+    expect(isOriginAllowed('https://app.com', allowed)).toBe(true);
+    expect(isOriginAllowed('https://x.example.com', allowed)).toBe(true);
+    expect(isOriginAllowed('https://evil.com', allowed)).toBe(false);
+  });
+
+  describe('resolveAllowedOrigin', () => {
+    const options = loadCorsOptions({});
+
+    test('uses "*" for the default wildcard config', () => {
+      expect(resolveAllowedOrigin('https://app.com', options)).toBe('*');
+      expect(resolveAllowedOrigin(undefined, options)).toBe('*');
+    });
+
+    test('never echoes arbitrary origins for a wildcard config', () => {
+      expect(resolveAllowedOrigin('https://evil.com', { ...options, allowCredentials: true })).toBe('*');
+    });
+
+    test('returns undefined for disallowed or missing origins', () => {
+      const restricted = { ...options, allowedOrigins: ['https://app.com'] };
+      expect(resolveAllowedOrigin('https://app.com', restricted)).toBe('https://app.com');
+      expect(resolveAllowedOrigin('https://evil.com', restricted)).toBeUndefined();
+      expect(resolveAllowedOrigin(undefined, restricted)).toBeUndefined();
+    });
+  });
+
+  test('loadCorsOptions reads settings from the environment', () => {
+    expect(loadCorsOptions({})).toEqual({
+      allowedOrigins: ['*'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'traceparent'],
+      exposedHeaders: ['X-Proxy-Cache', 'X-Replicate-Attempts', 'X-Trace-Id', 'Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset'],
+      allowCredentials: false,
+      maxAgeSeconds: 600
+    });
+
+    expect(loadCorsOptions({
+      CORS_ALLOWED_ORIGINS: 'https://app.com, https://*.example.com',
+      CORS_ALLOWED_HEADERS: 'Content-Type,Authorization,Cache-Control',
+      CORS_EXPOSED_HEADERS: '',
+      CORS_ALLOW_CREDENTIALS: 'true',
+      CORS_MAX_AGE: '3600'
+    })).toEqual({
+      allowedOrigins: ['https://app.com', 'https://*.example.com'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control'],
+      exposedHeaders: [],
+      allowCredentials: true,
+      maxAgeSeconds: 3600
+    });
+  });
+
+  test('loadCorsOptions splits origins on whitespace, keeping commas inside regexes', () => {
+    expect(loadCorsOptions({
+      CORS_ALLOWED_ORIGINS: 'https://app.com, https://*.example.com /^https:\\/\\/10\\.\\d{1,3}\\.0\\.1$/'
+    }).allowedOrigins).toEqual(['https://app.com', 'https://*.example.com', '/^https:\\/\\/10\\.\\d{1,3}\\.0\\.1$/']);
+  });
+
+  test('loadCorsOptions rejects invalid regexes and credentials for every origin', () => {
+    expect(() => loadCorsOptions({ CORS_ALLOWED_ORIGINS: '/[/' })).toThrow('CORS_ALLOWED_ORIGINS has an invalid regex /[/');
+    expect(() => loadCorsOptions({ CORS_ALLOW_CREDENTIALS: 'true' }))
+      .toThrow('CORS_ALLOW_CREDENTIALS=true needs CORS_ALLOWED_ORIGINS to list the allowed origins instead of "*"');
+    expect(loadCorsOptions({ CORS_ALLOWED_ORIGINS: 'https://app.com', CORS_ALLOW_CREDENTIALS: 'true' }).allowCredentials).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'bun:test';
+import { parseByteSize, parseDuration, readBoolean, readBytes, readDuration, readEnum, readInteger, readNumber, readUrl } from '../src/env';
+
+describe('Configuration readers', () => {
+  test('parseByteSize accepts bytes and binary units in any case', () => {
+    expect(parseByteSize('1048576')).toBe(1048576);
+    expect(parseByteSize('512KB')).toBe(524288);
+    expect(parseByteSize('1mb')).toBe(1048576);
+    expect(parseByteSize('1.5 MB')).toBe(1572864);
+    expect(parseByteSize('2g')).toBe(2 * 1024 ** 3);
+    expect(parseByteSize('1 megabyte')).toBeUndefined();
+    expect(parseByteSize('-1MB')).toBeUndefined();
+  });
+
+  test('parseDuration converts units into the setting\'s own unit', () => {
+    expect(parseDuration('30000', 'ms')).toBe(30000);
+    expect(parseDuration('30s', 'ms')).toBe(30000);
+    expect(parseDuration('5m', 's')).toBe(300);
+    expect(parseDuration('1h', 's')).toBe(3600);
+    expect(parseDuration('500ms', 'ms')).toBe(500);
+    expect(parseDuration('60', 's')).toBe(60);
+    expect(parseDuration('5 minutes', 's')).toBeUndefined();
+  });
+
+  test('readers fall back to the default for unset and empty variables', () => {
+    expect(readInteger({}, 'COUNT', 5)).toBe(5);
+    expect(readBytes({ SIZE: '' }, 'SIZE', 10)).toBe(10);
+    expect(readDuration({ TTL: '  ' }, 'TTL', 60, 's')).toBe(60);
+    expect(readBoolean({}, 'FLAG', true)).toBe(true);
+    expect(readUrl({}, 'URL')).toBeUndefined();
+  });
+
+  test('readers name the variable and the bad value', () => {
+    expect(() => readInteger({ COUNT: '2.5' }, 'COUNT', 5, 1)).toThrow('COUNT must be a whole number of at least 1, got "2.5"');
+    expect(() => readNumber({ RATE: '2' }, 'RATE', 0, 0, 1)).toThrow('RATE must be a number from 0 to 1, got "2"');
+    expect(() => readBytes({ SIZE: '1 megabyte' }, 'SIZE', 0)).toThrow('SIZE must be a size such as 1048576, 512KB or 1MB, got "1 megabyte"');
+    expect(() => readBytes({ SIZE: '0' }, 'SIZE', 10, 1)).toThrow('SIZE must be a size of at least 1 byte, got "0"');
+    expect(() => readDuration({ TTL: '0s' }, 'TTL', 60, 's', 1)).toThrow('TTL must be a duration of at least 1s, got "0s"');
+    expect(() => readBoolean({ FLAG: 'yes' }, 'FLAG', false)).toThrow('FLAG must be true or false, got "yes"');
+    expect(() => readEnum({ MODE: 'fast' }, 'MODE', ['on', 'off'], 'off')).toThrow('MODE must be one of on, off, got "fast"');
+    expect(() => readUrl({ URL: 'ftp://example.com' }, 'URL')).toThrow('URL must be an http or https URL, got "ftp://example.com"');
+  });
+
+  test('readBoolean accepts true, false, 1 and 0', () => {
+    expect(readBoolean({ FLAG: 'TRUE' }, 'FLAG', false)).toBe(true);
+    expect(readBoolean({ FLAG: '1' }, 'FLAG', false)).toBe(true);
+    expect(readBoolean({ FLAG: 'false' }, 'FLAG', true)).toBe(false);
+    expect(readBoolean({ FLAG: '0' }, 'FLAG', true)).toBe(false);
+  });
+});
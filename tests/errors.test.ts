@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test';
+import { mapReplicateError, errorCodeForStatus, withRequestId } from '../src/errors';
+import { badRequest, ok } from '../src/responses';
+
+// Shaped like replicate's ApiError
+const apiError = (status: number, body: object, headers: Record<string, string> = {}) => Object.assign(
+  new Error(`Request to https://api.replicate.com/v1/predictions failed with status ${status} Error: ${JSON.stringify(body)}.`),
+  { name: 'ApiError', response: new Response(null, { status, headers }) }
+);
+
+describe('Error mapping', () => {
+  test('errorCodeForStatus falls back to generic codes', () => {
+    expect(errorCodeForStatus(404)).toBe('NOT_FOUND');
+    expect(errorCodeForStatus(413)).toBe('PAYLOAD_TOO_LARGE');
+    expect(errorCodeForStatus(418)).toBe('BAD_REQUEST');
+    expect(errorCodeForStatus(503)).toBe('INTERNAL_ERROR');
+  });
+
+  describe('mapReplicateError', () => {
+    test('maps Replicate HTTP statuses explicitly', () => {
+      expect(mapReplicateError(apiError(401, { detail: 'Invalid token' }))).toMatchObject({ statusCode: 401, code: 'UPSTREAM_UNAUTHORIZED' });
+      expect(mapReplicateError(apiError(402, { detail: 'Billing required' }))).toMatchObject({ statusCode: 402, code: 'UPSTREAM_PAYMENT_REQUIRED' });
+      expect(mapReplicateError(apiError(404, { detail: 'Not found' }))).toMatchObject({ statusCode: 404, code: 'UPSTREAM_NOT_FOUND' });
+      expect(mapReplicateError(apiError(422, { detail: 'Invalid input' }))).toMatchObject({ statusCode: 422, code: 'UPSTREAM_VALIDATION_FAILED' });
+      expect(mapReplicateError(apiError(500, { detail: 'Oops' }))).toMatchObject({ statusCode: 502, code: 'UPSTREAM_ERROR' });
+      expect(mapReplicateError(apiError(503, { detail: 'Down' }))).toMatchObject({ statusCode: 503, code: 'UPSTREAM_UNAVAILABLE' });
+    });
+
+    test('uses the problem body for the message and details', () => {
+      const upstream = mapReplicateError(apiError(422, { title: 'Input validation failed', detail: '- input.prompt: Invalid type' }));
+
+      expect(upstream.error).toBe('Input validation failed');
+      expect(upstream.details).toBe('- input.prompt: Invalid type');
+    });
+
+    test('passes Retry-After through for upstream rate limits', () => {
+      expect(mapReplicateError(apiError(429, { detail: 'Slow down' }, { 'Retry-After': '7' }))).toMatchObject({
+        statusCode: 429,
+        code: 'UPSTREAM_RATE_LIMITED',
+        headers: { 'Retry-After': '7' }
+      });
+    });
+
+    test('hides server key and billing failures from token clients', () => {
+      expect(mapReplicateError(apiError(401, {}), 'token')).toMatchObject({ statusCode: 502, code: 'UPSTREAM_UNAUTHORIZED' });
+      expect(mapReplicateError(apiError(402, {}), 'token')).toMatchObject({ statusCode: 502, code: 'UPSTREAM_PAYMENT_REQUIRED' });
+    });
+
+    test('maps prediction failures, timeouts and disconnects', () => {
+      expect(mapReplicateError(new Error('Prediction failed: NSFW content detected. Try running it again, or try a different prompt.')))
+        .toMatchObject({ statusCode: 422, code: 'NSFW_FLAGGED' });
+      expect(mapReplicateError(new Error('Prediction failed: CUDA out of memory'))).toMatchObject({ statusCode: 502, code: 'PREDICTION_FAILED' });
+      expect(mapReplicateError(new Error('Prediction was canceled'))).toMatchObject({ statusCode: 409, code: 'PREDICTION_CANCELED' });
+      expect(mapReplicateError(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toMatchObject({ statusCode: 504, code: 'UPSTREAM_TIMEOUT' });
+      expect(mapReplicateError(Object.assign(new Error('Client closed the connection'), { name: 'AbortError' })))
+        .toMatchObject({ statusCode: 499, code: 'CLIENT_CLOSED_REQUEST' });
+      expect(mapReplicateError(new Error('Something else'))).toMatchObject({ statusCode: 500, code: 'INTERNAL_ERROR' });
+    });
+  });
+
+  test('withRequestId stamps error envelopes only', () => {
+    const stamped = JSON.parse(withRequestId(badRequest('Nope'), 'req-1').body);
+    expect(stamped).toEqual({ code: 'BAD_REQUEST', error: 'Nope', timestamp: expect.any(String), requestId: 'req-1' });
+
+    const success = ok({ status: 'ok' });
+    expect(withRequestId(success, 'req-1')).toBe(success);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'bun:test';
+import { inlineOutputs } from '../src/inline';
+import { isReplicateFileUrl } from '../src/storage';
+import { S3Local } from './test-utils/s3-local';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('pixels')]);
+
+describe('Inline Outputs', () => {
+  const setup = () => {
+    const files = new S3Local();
+    files.addFile('https://replicate.delivery/a.png', PNG, 'image/png');
+    files.addFile('https://replicate.delivery/b.png', PNG, 'image/png');
+    return files;
+  };
+
+  test('returns base64 blobs with MIME type and size', async () => {
+    const files = setup();
+
+    const result = await inlineOutputs(['https://replicate.delivery/a.png'], {
+      format: 'base64',
+      maxBytes: 1000,
+      isFileUrl: isReplicateFileUrl,
+      fetchImpl: files.fetch
+    });
+
+    expect(result).toEqual({
+      format: 'base64',
+      output: [{ base64: PNG.toString('base64'), contentType: 'image/png', size: PNG.length }]
+    });
+  });
+
+  test('returns data URLs and leaves other values alone', async () => {
+    const files = setup();
+
+    const result = await inlineOutputs({ image: 'https://replicate.delivery/a.png', seed: 42, caption: 'cat' }, {
+      format: 'dataUrl',
+      maxBytes: 1000,
+      isFileUrl: isReplicateFileUrl,
+      fetchImpl: files.fetch
+    });
+
+    expect(result.output).toEqual({
+      image: { dataUrl: `data:image/png;base64,${PNG.toString('base64')}`, contentType: 'image/png', size: PNG.length },
+      seed: 42,
+      caption: 'cat'
+    });
+    expect(result.warning).toBeUndefined();
+  });
+
+  test('falls back to URLs with a warning once the ceiling is reached', async () => {
+    const files = setup();
+    const encodedSize = PNG.toString('base64').length;
+
+    const result = await inlineOutputs(['https://replicate.delivery/a.png', 'https://replicate.delivery/b.png'], {
+      format: 'base64',
+      maxBytes: encodedSize + 10,
+      isFileUrl: isReplicateFileUrl,
+      fetchImpl: files.fetch
+    });
+
+    expect(result.output[0].base64).toBe(PNG.toString('base64'));
+    expect(result.output[1]).toBe('https://replicate.delivery/b.png');
+    expect(result.warning).toBe(`Inline output limit of ${encodedSize + 10} bytes reached; 1 file(s) returned as URLs`);
+  });
+
+  test('reports files that could not be downloaded', async () => {
+    const files = setup();
+
+    const result = await inlineOutputs(['https://replicate.delivery/missing.png'], {
+      format: 'base64',
+      maxBytes: 1000,
+      isFileUrl: isReplicateFileUrl,
+      fetchImpl: files.fetch
+    });
+
+    expect(result.output).toEqual(['https://replicate.delivery/missing.png']);
+    expect(result.warning).toBe('1 file(s) could not be downloaded and were returned as URLs');
+  });
+});
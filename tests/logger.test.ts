@@ -0,0 +1,115 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createLogger, loadLoggerOptions, setLogSink, DEFAULT_REDACT_PATHS, LogLevel } from '../src/logger';
+import { resetConfig } from '../src/config';
+
+describe('Logger', () => {
+  let lines: Array<{ level: LogLevel; entry: any }>;
+
+  beforeEach(() => {
+    lines = [];
+    setLogSink((level, line) => lines.push({ level, entry: JSON.parse(line) }));
+  });
+
+  afterEach(() => {
+    setLogSink(undefined);
+  });
+
+  const options = { level: 'info' as LogLevel, redactPaths: DEFAULT_REDACT_PATHS, debugSampleRate: 0 };
+
+  test('writes one JSON line with bound context and fields', () => {
+    const log = createLogger({ requestId: 'req-1' }, options);
+    log.assign({ route: 'POST /api/replicate', model: 'owner/model' });
+
+    log.info('Request completed', { status: 200, latencyMs: 12 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].level).toBe('info');
+    expect(lines[0].entry).toMatchObject({
+      level: 'info',
+      message: 'Request completed',
+      requestId: 'req-1',
+      route: 'POST /api/replicate',
+      model: 'owner/model',
+      status: 200,
+      latencyMs: 12
+    });
+    expect(Date.parse(lines[0].entry.timestamp)).not.toBeNaN();
+  });
+
+  test('drops lines below the configured level', () => {
+    const log = createLogger({}, { ...options, level: 'warn' });
+
+    log.debug('debug');
+    log.info('info');
+    log.warn('warn');
+    log.error('error');
+
+    expect(lines.map(line => line.entry.message)).toEqual(['warn', 'error']);
+  });
+
+  test('redacts credentials and prompts by default', () => {
+    const log = createLogger({}, options);
+
+    log.info('Proxying request', {
+      apiKey: 'r8_secretsecret',
+      headers: { authorization: 'Bearer r8_secretsecret' },
+      input: { prompt: 'a private prompt', system_prompt: 'be nice', seed: 7 }
+    });
+
+    const line = JSON.stringify(lines[0].entry);
+    expect(line).not.toContain('secretsecret');
+    expect(line).not.toContain('private prompt');
+    expect(lines[0].entry.input).toEqual({ prompt: '[REDACTED]', system_prompt: '[REDACTED]', seed: 7 });
+  });
+
+  test('sampled requests log at debug and are marked', () => {
+    const random = spyOn(Math, 'random').mockReturnValue(0.05);
+    try {
+      const sampled = createLogger({}, { ...options, level: 'error', debugSampleRate: 0.1 });
+      const unsampled = createLogger({}, { ...options, level: 'error', debugSampleRate: 0.01 });
+
+      sampled.debug('sampled');
+      unsampled.debug('unsampled');
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].entry).toMatchObject({ message: 'sampled', sampled: true });
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  test('loadLoggerOptions reads the environment', () => {
+    expect(loadLoggerOptions({ NODE_ENV: 'production' })).toEqual({
+      level: 'warn',
+      redactPaths: DEFAULT_REDACT_PATHS,
+      debugSampleRate: 0
+    });
+
+    const configured = loadLoggerOptions({ LOG_LEVEL: 'info', LOG_REDACT_PATHS: 'input.image, email', LOG_DEBUG_SAMPLE_RATE: '0.25' });
+    expect(configured.level).toBe('info');
+    expect(configured.redactPaths).toEqual([...DEFAULT_REDACT_PATHS, 'input.image', 'email']);
+    expect(configured.debugSampleRate).toBe(0.25);
+  });
+
+  test('loggers without options follow the validated config, including CONFIG_FILE', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'proxy-logger-'));
+    writeFileSync(join(dir, 'config.json'), JSON.stringify({ LOG_LEVEL: 'warn', LOG_REDACT_PATHS: 'email' }));
+    delete process.env.LOG_LEVEL;
+    process.env.CONFIG_FILE = join(dir, 'config.json');
+    resetConfig();
+
+    try {
+      const log = createLogger();
+      log.info('dropped');
+      log.warn('kept', { email: 'someone@example.com' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].entry).toMatchObject({ message: 'kept', email: '[REDACTED]' });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { createMetrics, loadMetricsOptions, setMetricsSink, toEmfDocument, emfMetricsSink, noopMetricsSink, MetricsBatch } from '../src/metrics';
+
+describe('Metrics', () => {
+  let batches: MetricsBatch[];
+
+  beforeEach(() => {
+    batches = [];
+    setMetricsSink(batch => batches.push(batch));
+  });
+
+  afterEach(() => {
+    setMetricsSink(undefined);
+  });
+
+  const options = { enabled: true, namespace: 'Test' };
+
+  test('batches everything recorded until flush', () => {
+    const metrics = createMetrics(options, { EventType: 'node' });
+    metrics.assign({ Route: 'POST /api/replicate', Model: 'owner/model' });
+    metrics.put('Requests', 1);
+    metrics.put('ReplicateLatency', 120, 'Milliseconds');
+    metrics.put('ReplicateLatency', 30, 'Milliseconds');
+
+    expect(batches).toHaveLength(0);
+    metrics.flush();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toMatchObject({
+      namespace: 'Test',
+      dimensions: { EventType: 'node', Route: 'POST /api/replicate', Model: 'owner/model' },
+      metrics: [
+        { name: 'Requests', unit: 'Count', values: [1] },
+        { name: 'ReplicateLatency', unit: 'Milliseconds', values: [120, 30] }
+      ]
+    });
+  });
+
+  test('flushes each metric once', () => {
+    const metrics = createMetrics(options);
+    metrics.put('Requests', 1);
+    metrics.flush();
+    metrics.flush();
+
+    expect(batches).toHaveLength(1);
+  });
+
+  test('records nothing when disabled', () => {
+    const metrics = createMetrics({ ...options, enabled: false });
+    metrics.put('Requests', 1);
+    metrics.flush();
+
+    expect(batches).toHaveLength(0);
+  });
+
+  test('no-op sink discards batches', () => {
+    setMetricsSink(noopMetricsSink);
+    const write = spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      const metrics = createMetrics(options);
+      metrics.put('Requests', 1);
+      metrics.flush();
+      expect(write).not.toHaveBeenCalled();
+    } finally {
+      write.mockRestore();
+    }
+  });
+});
+
+describe('toEmfDocument', () => {
+  const batch: MetricsBatch = {
+    namespace: 'ReplicateProxy',
+    timestamp: 1700000000000,
+    dimensions: { Route: 'POST /api/replicate', EventType: 'apigateway-v1', Model: 'owner/model' },
+    metrics: [
+      { name: 'Requests', unit: 'Count', values: [1] },
+      { name: 'ReplicateLatency', unit: 'Milliseconds', values: [120, 30] }
+    ]
+  };
+
+  test('formats a CloudWatch EMF document', () => {
+    expect(toEmfDocument(batch)).toEqual({
+      _aws: {
+        Timestamp: 1700000000000,
+        CloudWatchMetrics: [{
+          Namespace: 'ReplicateProxy',
+          Dimensions: [['Route', 'EventType'], ['Model']],
+          Metrics: [{ Name: 'Requests', Unit: 'Count' }, { Name: 'ReplicateLatency', Unit: 'Milliseconds' }]
+        }]
+      },
+      Route: 'POST /api/replicate',
+      EventType: 'apigateway-v1',
+      Model: 'owner/model',
+      Requests: 1,
+      ReplicateLatency: [120, 30]
+    });
+  });
+
+  test('omits the model dimension set without a model', () => {
+    const { Model, ...dimensions } = batch.dimensions;
+    const document = toEmfDocument({ ...batch, dimensions }) as any;
+
+    expect(document._aws.CloudWatchMetrics[0].Dimensions).toEqual([['Route', 'EventType']]);
+  });
+
+  test('default sink writes one line to stdout', () => {
+    const write = spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      emfMetricsSink(batch);
+      expect(write).toHaveBeenCalledTimes(1);
+      const line = String(write.mock.calls[0][0]);
+      expect(line.endsWith('\n')).toBe(true);
+      expect(JSON.parse(line)).toEqual(toEmfDocument(batch));
+    } finally {
+      write.mockRestore();
+    }
+  });
+});
+
+describe('loadMetricsOptions', () => {
+  test('is enabled by default only inside Lambda', () => {
+    expect(loadMetricsOptions({})).toEqual({ enabled: false, namespace: 'ReplicateProxy' });
+    expect(loadMetricsOptions({ AWS_LAMBDA_FUNCTION_NAME: 'proxy' }).enabled).toBe(true);
+  });
+
+  test('METRICS_ENABLED and METRICS_NAMESPACE override the defaults', () => {
+    expect(loadMetricsOptions({ AWS_LAMBDA_FUNCTION_NAME: 'proxy', METRICS_ENABLED: 'false' }).enabled).toBe(false);
+    expect(loadMetricsOptions({ METRICS_ENABLED: 'true', METRICS_NAMESPACE: 'Frontend' })).toEqual({ enabled: true, namespace: 'Frontend' });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect, afterAll } from 'bun:test';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseModelPolicy, loadModelPolicy, matchesModelRule, evaluateModelPolicy } from '../src/policy';
+
+const version = 'a'.repeat(64);
+
+describe('Model Policy', () => {
+  const tempDir = mkdtempSync(join(tmpdir(), 'model-policy-'));
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('matchesModelRule', () => {
+    test('exact rules match every version of the model', () => {
+      expect(matchesModelRule('meta/llama', 'meta/llama')).toBe(true);
+      expect(matchesModelRule('meta/llama', `meta/llama:${version}`)).toBe(true);
+      expect(matchesModelRule('meta/llama', 'meta/llama-2')).toBe(false);
+    });
+
+    test('owner wildcards match any model from that owner', () => {
+      expect(matchesModelRule('black-forest-labs/*', 'black-forest-labs/flux-schnell')).toBe(true);
+      expect(matchesModelRule('black-forest-labs/*', 'black-forest-labs-fork/flux')).toBe(false);
+    });
+
+    test('pinned rules only match that version', () => {
+      expect(matchesModelRule(`owner/model:${version}`, `owner/model:${version}`)).toBe(true);
+      expect(matchesModelRule(`owner/model:${version}`, 'owner/model')).toBe(false);
+      expect(matchesModelRule(`owner/model:${version}`, `owner/model:${'b'.repeat(64)}`)).toBe(false);
+    });
+  });
+
+  describe('evaluateModelPolicy', () => {
+    test('allows everything without a policy', () => {
+      expect(evaluateModelPolicy(undefined, 'owner/model')).toEqual({ allowed: true });
+    });
+
+    test('denies models outside the allowlist', () => {
+      const decision = evaluateModelPolicy({ allow: ['black-forest-labs/*'] }, 'minimax/video-01');
+      expect(decision).toEqual({
+        allowed: false,
+        rule: 'allow',
+        reason: 'Model minimax/video-01 does not match any allow rule'
+      });
+    });
+
+    test('deny rules win over allow rules', () => {
+      const decision = evaluateModelPolicy(
+        { allow: ['black-forest-labs/*'], deny: ['black-forest-labs/flux-pro'] },
+        'black-forest-labs/flux-pro'
+      );
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule).toBe('deny:black-forest-labs/flux-pro');
+    });
+
+    test('reports the allow rule that matched', () => {
+      expect(evaluateModelPolicy({ allow: ['black-forest-labs/*'] }, 'black-forest-labs/flux-schnell'))
+        .toEqual({ allowed: true, rule: 'allow:black-forest-labs/*' });
+    });
+
+    test('a denylist on its own allows everything else', () => {
+      expect(evaluateModelPolicy({ deny: ['minimax/*'] }, 'meta/llama').allowed).toBe(true);
+    });
+  });
+
+  describe('parseModelPolicy', () => {
+    test('parses allow and deny lists', () => {
+      expect(parseModelPolicy('{"allow":["a/*"],"deny":["a/b"]}', 'test')).toEqual({ allow: ['a/*'], deny: ['a/b'] });
+    });
+
+    test('rejects invalid JSON with the source name', () => {
+      expect(() => parseModelPolicy('{allow', 'MODEL_POLICY')).toThrow('Invalid model policy in MODEL_POLICY');
+    });
+
+    test('rejects malformed rules', () => {
+      expect(() => parseModelPolicy('{"allow":["*"]}', 'test')).toThrow('"allow" rule "*" must be');
+      expect(() => parseModelPolicy('{"deny":"a/b"}', 'test')).toThrow('"deny" must be an array');
+    });
+  });
+
+  describe('loadModelPolicy', () => {
+    test('returns undefined when nothing is configured', () => {
+      expect(loadModelPolicy({})).toBeUndefined();
+    });
+
+    test('reads inline JSON from MODEL_POLICY', () => {
+      expect(loadModelPolicy({ MODEL_POLICY: '{"deny":["minimax/*"]}' })).toEqual({ allow: undefined, deny: ['minimax/*'] });
+    });
+
+    test('reads MODEL_POLICY_FILE', () => {
+      const file = join(tempDir, 'policy.json');
+      writeFileSync(file, JSON.stringify({ allow: ['meta/*'] }));
+
+      expect(loadModelPolicy({ MODEL_POLICY_FILE: file })).toEqual({ allow: ['meta/*'], deny: undefined });
+    });
+
+    test('reports unreadable policy files', () => {
+      expect(() => loadModelPolicy({ MODEL_POLICY_FILE: join(tempDir, 'missing.json') }))
+        .toThrow('Unable to read MODEL_POLICY_FILE');
+    });
+  });
+});
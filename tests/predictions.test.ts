@@ -0,0 +1,176 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import Replicate from 'replicate';
+import { createPrediction, runPrediction, runDeploymentPrediction, toPredictionResponse, predictionPath, isPredictionHandoff, PREDICTION_ROUTE } from '../src/predictions';
+import { ReplicateMock } from './test-utils/replicate-mock';
+
+describe('Predictions', () => {
+  let replicateMock: ReplicateMock;
+
+  beforeEach(() => {
+    replicateMock = new ReplicateMock();
+  });
+
+  afterEach(() => {
+    replicateMock.restore();
+  });
+
+  describe('createPrediction', () => {
+    test('creates predictions against the model endpoint', async () => {
+      replicateMock.queuePrediction({ id: 'abc123' });
+
+      const prediction = await createPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', { prompt: 'hi' });
+
+      expect(prediction.id).toBe('abc123');
+      const [request] = replicateMock.getRequests();
+      expect(request.route).toBe('/models/owner/model/predictions');
+      expect(request.data.input).toEqual({ prompt: 'hi' });
+    });
+
+    test('creates predictions against a pinned version', async () => {
+      replicateMock.queuePrediction({ id: 'abc123' });
+
+      await createPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model:5c7d5dc6', {});
+
+      const [request] = replicateMock.getRequests();
+      expect(request.route).toBe('/predictions');
+      expect(request.data.version).toBe('5c7d5dc6');
+    });
+  });
+
+  describe('runPrediction', () => {
+    test('returns the model output', async () => {
+      replicateMock.queueSuccessResponse(['done']);
+
+      const output = await runPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', {}, { timeoutMs: 1000 });
+
+      expect(output).toEqual(['done']);
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('does not cancel predictions that fail on their own', async () => {
+      replicateMock.queueErrorResponse({ message: 'Prediction failed', status: 422 });
+
+      await expect(
+        runPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', {}, { timeoutMs: 1000 })
+      ).rejects.toThrow('Prediction failed');
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('cancels the tracked prediction on timeout', async () => {
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+
+      await expect(
+        runPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', {}, { timeoutMs: 10 })
+      ).rejects.toThrow('Replicate API call timed out after 10ms');
+      expect(replicateMock.getRequests()).toEqual([
+        { route: '/predictions/slow123/cancel', method: 'POST', data: undefined, auth: 'test12345678' }
+      ]);
+    });
+
+    test('cancels immediately when the signal is already aborted', async () => {
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        runPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', {}, { timeoutMs: 1000, signal: controller.signal })
+      ).rejects.toThrow('Client closed the connection');
+      expect(replicateMock.getRequests().map(r => r.route)).toEqual(['/predictions/slow123/cancel']);
+    });
+
+    test('hands off a started prediction when the invocation runs out of time', async () => {
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+
+      const error = await runPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', {}, { timeoutMs: 1000, handoffAfterMs: 10 })
+        .catch((error) => error);
+
+      expect(isPredictionHandoff(error)).toBe(true);
+      expect(error.prediction).toMatchObject({ id: 'slow123', status: 'processing' });
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('hands off a prediction whose blocking create would outlast the invocation', async () => {
+      replicateMock.queuePendingResponse({ id: 'slow123' }, 1000);
+
+      const error = await runPrediction(new Replicate({ auth: 'test12345678' }), 'owner/model', {}, { timeoutMs: 5000, handoffAfterMs: 10 })
+        .catch((error) => error);
+
+      expect(isPredictionHandoff(error)).toBe(true);
+      expect(error.prediction).toMatchObject({ id: 'slow123' });
+      expect(replicateMock.getLastCall()?.options).toMatchObject({ wait: { mode: 'poll' } });
+    });
+
+    test('stops polling a handed-off prediction without cancelling it', async () => {
+      replicateMock.queuePrediction({ id: 'slow123', status: 'processing' });
+      const reported: string[] = [];
+
+      const error = await runDeploymentPrediction(new Replicate({ auth: 'test12345678' }), 'owner/deployment', {}, {
+        timeoutMs: 5000,
+        handoffAfterMs: 50,
+        onPrediction: (prediction) => reported.push(prediction.status)
+      }).catch((error) => error);
+      const requestsAtHandoff = replicateMock.getRequests().length;
+      const reportsAtHandoff = reported.length;
+      // Longer than replicate.wait's 500ms poll interval
+      await new Promise(resolve => setTimeout(resolve, 700));
+
+      expect(isPredictionHandoff(error)).toBe(true);
+      expect(replicateMock.getRequests()).toHaveLength(requestsAtHandoff);
+      expect(replicateMock.getRequests().map(r => r.route)).not.toContain('/predictions/slow123/cancel');
+      expect(reported).toHaveLength(reportsAtHandoff);
+    });
+
+    test('abandons a prediction that is still being created at the invocation deadline', async () => {
+      // run() never reports a prediction, as if creation were still in flight
+      const replicate = {
+        run: (_model: string, options: { signal: AbortSignal }) => new Promise((_, reject) => {
+          options.signal.addEventListener('abort', () => reject(new Error('Prediction aborted')));
+        })
+      } as unknown as Replicate;
+
+      await expect(runPrediction(replicate, 'owner/model', {}, { timeoutMs: 1000, handoffAfterMs: 10 }))
+        .rejects.toThrow('Replicate API call did not start before the invocation deadline');
+    });
+  });
+
+  describe('toPredictionResponse', () => {
+    test('maps prediction fields and the polling URL', async () => {
+      const response = await toPredictionResponse({
+        id: 'abc123',
+        status: 'failed',
+        error: 'CUDA out of memory',
+        logs: 'loading'
+      } as any);
+
+      expect(response).toEqual({
+        id: 'abc123',
+        status: 'failed',
+        output: null,
+        logs: 'loading',
+        error: 'CUDA out of memory',
+        urls: {
+          get: '/api/replicate/predictions/abc123',
+          cancel: '/api/replicate/predictions/abc123/cancel'
+        }
+      });
+    });
+
+    test('converts file outputs to URLs', async () => {
+      const response = await toPredictionResponse({
+        id: 'abc123',
+        status: 'succeeded',
+        output: [{ url: () => 'https://replicate.delivery/a.png' }]
+      } as any);
+
+      expect(response.output).toEqual(['https://replicate.delivery/a.png']);
+    });
+  });
+
+  describe('routing', () => {
+    test('predictionPath and PREDICTION_ROUTE agree', () => {
+      const match = predictionPath('abc123').match(PREDICTION_ROUTE);
+      expect(match?.[1]).toBe('abc123');
+      expect('/api/replicate/predictions/abc123/extra'.match(PREDICTION_ROUTE)).toBeNull();
+    });
+  });
+});
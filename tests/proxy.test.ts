@@ -1,7 +1,20 @@
 import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
-import { handler } from '../src/proxy';
+import { handler, createHandler, createStreamingHandler } from '../src/proxy';
 import { ReplicateMock } from './test-utils/replicate-mock';
-import { createAPIGatewayEvent, createReplicatePostEvent, createLambdaContext } from './test-utils/lambda-events';
+import { signWebhookPayload, setWebhookSink, defaultWebhookStore } from '../src/webhooks';
+import { mintClientToken, resetTokenPredictionCounts, predictionOwnerTag } from '../src/tokens';
+import { preloadInputSchemas, clearInputSchemaCache } from '../src/schemas';
+import { fluxOpenApiSchema } from './test-utils/schemas';
+import { resetRateLimits, setRateLimitStore, createDynamoRateLimitStore } from '../src/ratelimit';
+import { DynamoLocal } from './test-utils/dynamo-local';
+import { resetUsage, setUsageStore, createMemoryUsageStore } from '../src/usage';
+import { clearResponseCache, setResponseCacheStore } from '../src/cache';
+import { S3Local } from './test-utils/s3-local';
+import { clearRehostedOutputs } from '../src/storage';
+import { setLogSink } from '../src/logger';
+import { setMetricsSink, MetricsBatch } from '../src/metrics';
+import { setSpanExporter, createMemorySpanExporter, MemorySpanExporter } from '../src/tracing';
+import { createAPIGatewayEvent, createReplicatePostEvent, createLambdaContext, createMultipartPostEvent, createJsonPostEvent } from './test-utils/lambda-events';
 
 describe('Lambda Proxy Handler', () => {
   let replicateMock: ReplicateMock;
@@ -99,11 +112,13 @@ describe('Lambda Proxy Handler', () => {
       method: 'POST',
       endpoint: '/api/replicate',
       body: {
-        model: 'black-forest-labs/flux-schnell',
+        model: "'owner/model', or 'owner/model:<version>' to pin a version",
+        deployment: "'owner/name' of a Replicate deployment, sent instead of model",
         input: '{ your model input parameters }',
         apiKey: 'your-replicate-api-key'
       }
     });
+    expect(responseBody.instructions.models).toEqual({ allow: ['*'], deny: [] });
   });
 
   test('OPTIONS /api/replicate returns CORS headers', async () => {
@@ -118,7 +133,7 @@ describe('Lambda Proxy Handler', () => {
     expect(result.statusCode).toBe(200);
     expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
     expect(result.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
-    expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization');
+    expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization, Cache-Control, traceparent');
     expect(result.body).toBe('');
   });
 
@@ -216,9 +231,12 @@ describe('Lambda Proxy Handler', () => {
     expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
     
     const responseBody = JSON.parse(result.body);
-    expect(responseBody.message).toBe('Route GET:/unknown-route not found');
-    expect(responseBody.error).toBe('Not Found');
-    expect(responseBody.statusCode).toBe(404);
+    expect(responseBody).toEqual({
+      code: 'NOT_FOUND',
+      error: 'Route GET:/unknown-route not found',
+      timestamp: expect.any(String),
+      requestId: expect.stringMatching(/^test-request-id-/)
+    });
   });
 
   test('handles unexpected Lambda handler errors', async () => {
@@ -340,8 +358,8 @@ describe('Lambda Proxy Handler', () => {
     expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
     
     const responseBody = JSON.parse(result.body);
-    expect(responseBody.message).toBe('Route PUT:/api/replicate not found');
-    expect(responseBody.error).toBe('Not Found');
+    expect(responseBody.code).toBe('NOT_FOUND');
+    expect(responseBody.error).toBe('Route PUT:/api/replicate not found');
   });
 
   test('DELETE /health returns 404', async () => {
@@ -357,7 +375,7 @@ describe('Lambda Proxy Handler', () => {
     expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
     
     const responseBody = JSON.parse(result.body);
-    expect(responseBody.message).toBe('Route DELETE:/health not found');
+    expect(responseBody.error).toBe('Route DELETE:/health not found');
   });
 
   test('handles Replicate API error without status code', async () => {
@@ -374,10 +392,12 @@ describe('Lambda Proxy Handler', () => {
 
     const result = await handler(event, context);
 
-    expect(result.statusCode).toBe(500);
+    // Replicate server errors surface as a bad gateway
+    expect(result.statusCode).toBe(502);
     expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
     
     const responseBody = JSON.parse(result.body);
+    expect(responseBody.code).toBe('UPSTREAM_ERROR');
     expect(responseBody.error).toBe('Network error');
     expect(responseBody.details).toBe('Network error');
   });
@@ -429,74 +449,2066 @@ describe('Lambda Proxy Handler', () => {
     expect(responseBody.error).toContain('Request body too large');
   });
 
-  describe('CORS Headers', () => {
-    test('all responses include proper CORS headers', async () => {
-      const testCases = [
-        { method: 'GET', path: '/health', expectedStatus: 200 },
-        { method: 'GET', path: '/api/replicate', expectedStatus: 200 },
-        { method: 'OPTIONS', path: '/api/replicate', expectedStatus: 200 },
-        { method: 'GET', path: '/unknown', expectedStatus: 404 },
-        { method: 'POST', path: '/unknown', expectedStatus: 404 }
-      ];
+  describe('Async predictions', () => {
+    test('POST /api/replicate with mode async returns 202 with prediction id', async () => {
+      replicateMock.queuePrediction({ id: 'abc123', status: 'starting' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({
+          model: 'black-forest-labs/flux-schnell',
+          input: { prompt: 'a cute cat' },
+          apiKey: 'test-api-key-123',
+          mode: 'async'
+        })
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(202);
+      expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
+
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.id).toBe('abc123');
+      expect(responseBody.status).toBe('starting');
+      expect(responseBody.output).toBeNull();
+      expect(responseBody.urls.get).toBe('/api/replicate/predictions/abc123');
+
+      expect(replicateMock.getCallCount()).toBe(0);
+      const [request] = replicateMock.getRequests();
+      expect(request.route).toBe('/models/black-forest-labs/flux-schnell/predictions');
+      expect(request.data.input).toEqual({ prompt: 'a cute cat' });
+    });
 
-      for (const testCase of testCases) {
-        const event = createAPIGatewayEvent({
-          httpMethod: testCase.method as any,
-          path: testCase.path
-        });
-        const context = createLambdaContext();
+    test('pinned versions create the prediction against that version', async () => {
+      replicateMock.queuePrediction({ id: 'abc123' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({
+          model: 'black-forest-labs/flux-schnell:a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4',
+          input: { prompt: 'a cute cat' },
+          apiKey: 'test-api-key-123',
+          mode: 'async'
+        })
+      });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(202);
+      const [request] = replicateMock.getRequests();
+      expect(request.route).toBe('/predictions');
+      expect(request.data.version).toBe('a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4a1b2c3d4');
+    });
 
-        const result = await handler(event, context);
+    test('deployments create the prediction through the deployments API', async () => {
+      replicateMock.queuePrediction({ id: 'abc123' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({
+          deployment: 'acme/flux-prod',
+          input: { prompt: 'a cute cat' },
+          apiKey: 'test-api-key-123',
+          mode: 'async'
+        })
+      });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(202);
+      expect(JSON.parse(result.body).id).toBe('abc123');
+      const [request] = replicateMock.getRequests();
+      expect(request.route).toBe('/deployments/acme/flux-prod/predictions');
+      expect(request.data.input).toEqual({ prompt: 'a cute cat' });
+    });
 
-        expect(result.statusCode).toBe(testCase.expectedStatus);
-        expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
-        expect(result.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
-        expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization');
-        expect(result.headers?.['Content-Type']).toBe('application/json');
-      }
+    test('sync deployment requests wait for the prediction output', async () => {
+      replicateMock.queuePrediction({ id: 'abc123', status: 'succeeded', output: ['https://replicate.delivery/out.png'] });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({ deployment: 'acme/flux-prod', input: { prompt: 'a cute cat' }, apiKey: 'test-api-key-123' })
+      });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toEqual(['https://replicate.delivery/out.png']);
+      expect(replicateMock.getCallCount()).toBe(0);
+      const [request] = replicateMock.getRequests();
+      expect(request.route).toBe('/deployments/acme/flux-prod/predictions');
+      // The invocation ends before REPLICATE_TIMEOUT, so the prediction is polled instead of held open
+      expect(request.prefer).toBeUndefined();
     });
 
-    test('error responses maintain CORS headers', async () => {
-      const errorTestCases = [
-        {
-          description: 'Invalid JSON',
-          event: createAPIGatewayEvent({
-            httpMethod: 'POST',
-            path: '/api/replicate',
-            body: 'invalid json{'
-          }),
-          expectedStatus: 400
-        },
-        {
-          description: 'Missing model',
-          event: createAPIGatewayEvent({
-            httpMethod: 'POST',
-            path: '/api/replicate',
-            body: JSON.stringify({ apiKey: 'test' })
-          }),
-          expectedStatus: 400
-        },
-        {
-          description: 'Missing API key',
-          event: createAPIGatewayEvent({
-            httpMethod: 'POST',
-            path: '/api/replicate',
-            body: JSON.stringify({ model: 'owner/model' })
-          }),
-          expectedStatus: 400
+    test('failed sync deployment predictions return an error', async () => {
+      replicateMock.queuePrediction({ id: 'abc123', status: 'failed', error: 'CUDA out of memory' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({ deployment: 'acme/flux-prod', apiKey: 'test-api-key-123' })
+      });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(502);
+      expect(JSON.parse(result.body)).toMatchObject({ code: 'PREDICTION_FAILED', error: 'Prediction failed: CUDA out of memory' });
+    });
+
+    test('POST /api/replicate rejects unknown mode', async () => {
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({
+          model: 'owner/model',
+          apiKey: 'test-api-key-123',
+          mode: 'later'
+        })
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(400);
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.error).toBe('Mode must be one of: sync, async, stream');
+    });
+
+    test('async prediction creation errors pass through Replicate status', async () => {
+      replicateMock.queuePredictionError({ message: 'Unauthenticated', status: 401 });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate',
+        body: JSON.stringify({
+          model: 'owner/model',
+          apiKey: 'test-api-key-123',
+          mode: 'async'
+        })
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Unauthenticated');
+    });
+
+    test('GET /api/replicate/predictions/{id} returns status, logs and output', async () => {
+      replicateMock.setPrediction({
+        id: 'abc123',
+        status: 'succeeded',
+        output: ['https://replicate.delivery/pbxt/out.png'],
+        logs: 'step 1/1',
+        error: null
+      });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(200);
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody).toEqual({
+        id: 'abc123',
+        status: 'succeeded',
+        output: ['https://replicate.delivery/pbxt/out.png'],
+        logs: 'step 1/1',
+        error: null,
+        urls: {
+          get: '/api/replicate/predictions/abc123',
+          cancel: '/api/replicate/predictions/abc123/cancel'
         }
-      ];
+      });
+    });
 
-      for (const testCase of errorTestCases) {
-        const context = createLambdaContext();
-        const result = await handler(testCase.event, context);
+    test('GET /api/replicate/predictions/{id} requires a bearer API key', async () => {
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123'
+      });
+      const context = createLambdaContext();
 
-        expect(result.statusCode).toBe(testCase.expectedStatus);
-        expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
-        expect(result.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
-        expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization');
-        expect(result.headers?.['Content-Type']).toBe('application/json');
-      }
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('API key is required');
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('GET /api/replicate/predictions/{id} rejects malformed ids', async () => {
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc-123',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('Invalid prediction id');
+    });
+
+    test('GET /api/replicate/predictions/{id} passes through unknown predictions', async () => {
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/missing',
+        headers: { authorization: 'Bearer test-api-key-123' }
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('Prediction not found');
+    });
+
+    test('OPTIONS /api/replicate/predictions/{id} returns CORS headers', async () => {
+      const event = createAPIGatewayEvent({
+        httpMethod: 'OPTIONS',
+        path: '/api/replicate/predictions/abc123'
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization, Cache-Control, traceparent');
+    });
+  });
+
+  describe('Prediction cancellation', () => {
+    test('POST /api/replicate/predictions/{id}/cancel forwards to Replicate', async () => {
+      replicateMock.setPrediction({ id: 'abc123', status: 'processing', output: null, logs: '' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate/predictions/abc123/cancel',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).status).toBe('canceled');
+      const [request] = replicateMock.getRequests();
+      expect(request).toMatchObject({ route: '/predictions/abc123/cancel', method: 'POST' });
+    });
+
+    test('GET on the cancel route returns 404', async () => {
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123/cancel',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      });
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(404);
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('sync requests cancel the prediction when replicateTimeout fires', async () => {
+      process.env.REPLICATE_TIMEOUT = '20';
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+
+      const event = createReplicatePostEvent('owner/slow-model', { prompt: 'test' }, 'test-api-key-123');
+      const context = createLambdaContext();
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(504);
+      expect(JSON.parse(result.body)).toMatchObject({ code: 'UPSTREAM_TIMEOUT', error: 'Replicate API call timed out after 20ms' });
+      const cancelRequest = replicateMock.getRequests().find(r => r.route === '/predictions/slow123/cancel');
+      expect(cancelRequest?.method).toBe('POST');
+    });
+
+    test('sync requests hand off a running prediction before the Lambda deadline', async () => {
+      process.env.DEADLINE_SAFETY_MARGIN = '20';
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+
+      const event = createReplicatePostEvent('owner/slow-model', { prompt: 'test' }, 'test-api-key-123');
+      const context = { ...createLambdaContext(), getRemainingTimeInMillis: () => 40 };
+
+      const result = await handler(event, context);
+
+      expect(result.statusCode).toBe(202);
+      expect(JSON.parse(result.body)).toMatchObject({
+        id: 'slow123',
+        status: 'processing',
+        urls: { get: '/api/replicate/predictions/slow123' }
+      });
+      expect(replicateMock.getRequests().map(r => r.route)).not.toContain('/predictions/slow123/cancel');
+    });
+
+    test('sync requests cancel the prediction when the client disconnects', async () => {
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+      const controller = new AbortController();
+
+      const event = createReplicatePostEvent('owner/slow-model', { prompt: 'test' }, 'test-api-key-123');
+      const context = createLambdaContext();
+
+      const pending = createHandler({ signal: controller.signal })(event, context);
+      controller.abort();
+      const result = await pending;
+
+      expect(JSON.parse(result.body)).toMatchObject({ code: 'CLIENT_CLOSED_REQUEST', error: 'Client closed the connection' });
+      expect(replicateMock.getRequests().map(r => r.route)).toContain('/predictions/slow123/cancel');
+    });
+
+    test('ignores the Lambda callback and contexts without getRemainingTimeInMillis', async () => {
+      replicateMock.queueSuccessResponse(['ok']);
+      const event = createReplicatePostEvent('owner/model', { prompt: 'test' }, 'test-api-key-123');
+      const callback = () => { throw new Error('callback should not be used'); };
+
+      const result = await (handler as any)(event, { awsRequestId: 'direct-call' }, callback);
+
+      expect(result.statusCode).toBe(200);
+    });
+  });
+
+  describe('Streaming mode', () => {
+    const createStreamEvent = () => createJsonPostEvent({
+      model: 'meta/meta-llama-3-8b-instruct',
+      input: { prompt: 'Say hi' },
+      apiKey: 'test-api-key-123',
+      mode: 'stream'
+    });
+
+    test('buffers events into a text/event-stream response', async () => {
+      replicateMock.queueStreamEvents([
+        { event: 'output', data: 'Hi' },
+        { event: 'done', data: '{}' }
+      ]);
+
+      const result = await handler(createStreamEvent(), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['Content-Type']).toBe('text/event-stream');
+      expect(result.headers?.['Cache-Control']).toBe('no-cache');
+      expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
+      expect(result.body).toBe('event: output\ndata: Hi\n\nevent: done\ndata: {}\n\n');
+    });
+
+    test('returns a JSON error when the stream cannot start', async () => {
+      replicateMock.queueStreamError({ message: 'Prediction does not support streaming', status: 422 });
+
+      const result = await handler(createStreamEvent(), createLambdaContext());
+
+      expect(result.statusCode).toBe(422);
+      expect(result.headers?.['Content-Type']).toBe('application/json');
+      expect(JSON.parse(result.body).error).toBe('Prediction does not support streaming');
+    });
+
+    test('ends the stream with an error event before the invocation deadline', async () => {
+      process.env.DEADLINE_SAFETY_MARGIN = '20';
+      replicateMock.queuePendingStream([{ event: 'output', data: 'Hi' }], { id: 'stream123' });
+      const context = { ...createLambdaContext(), getRemainingTimeInMillis: () => 60 };
+
+      const result = await handler(createStreamEvent(), context);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toMatch(/^event: output\ndata: Hi\n\nevent: error\ndata: Replicate stream timed out after \d+ms\n\nevent: done\ndata: \{\}\n\n$/);
+      expect(replicateMock.getRequests().map(r => r.route)).toContain('/predictions/stream123/cancel');
+    });
+
+    test('retries a transient failure before the first event', async () => {
+      process.env.REPLICATE_RETRY_BASE_DELAY = '1';
+      replicateMock.queuePredictionError({ message: 'Service Unavailable', status: 503 });
+      replicateMock.queueStreamEvents([{ event: 'output', data: 'Hi' }, { event: 'done', data: '{}' }], { id: 'stream123' });
+
+      const result = await handler(createStreamEvent(), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['X-Replicate-Attempts']).toBe('2');
+      expect(result.body).toBe('event: output\ndata: Hi\n\nevent: done\ndata: {}\n\n');
+    });
+
+    test('writes events to the response stream as they arrive', async () => {
+      replicateMock.queueStreamEvents([
+        { event: 'output', data: 'Hi' },
+        { event: 'done', data: '{}' }
+      ]);
+      const writes: string[] = [];
+      let metadata: any;
+
+      const streamingLambda = createHandler({
+        responseStream: {
+          start: (statusCode, headers) => { metadata = { statusCode, headers }; },
+          write: (chunk) => { writes.push(chunk); }
+        }
+      });
+      await streamingLambda(createStreamEvent(), createLambdaContext());
+
+      expect(metadata.statusCode).toBe(200);
+      expect(metadata.headers['Content-Type']).toBe('text/event-stream');
+      expect(writes).toEqual(['event: output\ndata: Hi\n\n', 'event: done\ndata: {}\n\n']);
+    });
+
+    describe('createStreamingHandler', () => {
+      const createRuntime = () => {
+        const output = { metadata: undefined as any, chunks: [] as string[], ended: false };
+        const runtime = {
+          streamifyResponse: (fn: any) => fn,
+          HttpResponseStream: {
+            from: (_stream: any, metadata: any) => {
+              output.metadata = metadata;
+              return {
+                write: (chunk: string) => { output.chunks.push(chunk); },
+                end: () => { output.ended = true; }
+              } as any;
+            }
+          }
+        };
+        return { runtime, output };
+      };
+
+      test('returns the buffered handler without the Lambda streaming runtime', () => {
+        expect(createStreamingHandler(undefined)).toBe(handler);
+      });
+
+      test('streams prediction events through HttpResponseStream', async () => {
+        replicateMock.queueStreamEvents([{ event: 'output', data: 'Hi' }, { event: 'done', data: '{}' }]);
+        const { runtime, output } = createRuntime();
+
+        await createStreamingHandler(runtime)(createStreamEvent(), {}, createLambdaContext());
+
+        expect(output.metadata.headers['Content-Type']).toBe('text/event-stream');
+        expect(output.chunks).toHaveLength(2);
+        expect(output.ended).toBe(true);
+      });
+
+      test('writes non-streaming responses in one piece', async () => {
+        const { runtime, output } = createRuntime();
+        const event = createAPIGatewayEvent({ httpMethod: 'GET', path: '/health' });
+
+        await createStreamingHandler(runtime)(event, {}, createLambdaContext());
+
+        expect(output.metadata.statusCode).toBe(200);
+        expect(output.metadata.headers['Content-Type']).toBe('application/json');
+        expect(JSON.parse(output.chunks[0]).status).toBe('ok');
+        expect(output.ended).toBe(true);
+      });
+    });
+  });
+
+  describe('Webhooks', () => {
+    const secret = 'whsec_' + Buffer.from('test-signing-secret').toString('base64');
+    const webhookBody = JSON.stringify({ id: 'abc123', status: 'succeeded', output: ['https://replicate.delivery/a.png'] });
+
+    const createWebhookEvent = (overrides: Record<string, string> = {}, payload: string = webhookBody) => {
+      const webhookTimestamp = String(Math.floor(Date.now() / 1000));
+      return createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate/webhooks',
+        body: payload,
+        headers: {
+          'webhook-id': 'msg_1',
+          'webhook-timestamp': webhookTimestamp,
+          'webhook-signature': `v1,${signWebhookPayload('msg_1', webhookTimestamp, webhookBody, secret)}`,
+          ...overrides
+        }
+      });
+    };
+
+    beforeEach(() => {
+      process.env.REPLICATE_WEBHOOK_SECRET = secret;
+    });
+
+    afterEach(() => {
+      setWebhookSink(undefined);
+      defaultWebhookStore.clear();
+    });
+
+    test('delivers verified webhooks to the default store', async () => {
+      const result = await handler(createWebhookEvent(), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toEqual({ received: true });
+      expect(defaultWebhookStore.get('abc123')?.prediction.status).toBe('succeeded');
+    });
+
+    test('delivers verified webhooks to an injected sink', async () => {
+      const received: any[] = [];
+      setWebhookSink((event) => { received.push(event); });
+
+      await handler(createWebhookEvent(), createLambdaContext());
+
+      expect(received).toHaveLength(1);
+      expect(received[0].webhookId).toBe('msg_1');
+    });
+
+    test('rejects invalid signatures', async () => {
+      const result = await handler(createWebhookEvent({}, webhookBody.replace('succeeded', 'failed')), createLambdaContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Invalid webhook signature');
+      expect(defaultWebhookStore.list()).toHaveLength(0);
+    });
+
+    test('rejects replayed webhooks', async () => {
+      const result = await handler(createWebhookEvent({ 'webhook-timestamp': '1000' }), createLambdaContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Webhook timestamp is outside the tolerance window');
+    });
+
+    test('returns 500 when the sink fails so Replicate retries', async () => {
+      setWebhookSink(() => { throw new Error('Downstream unavailable'); });
+
+      const result = await handler(createWebhookEvent(), createLambdaContext());
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body).details).toBe('Downstream unavailable');
+    });
+
+    test('returns 503 when no signing secret is configured', async () => {
+      delete process.env.REPLICATE_WEBHOOK_SECRET;
+
+      const result = await handler(createWebhookEvent(), createLambdaContext());
+
+      expect(result.statusCode).toBe(503);
+    });
+
+    test('async predictions register the configured webhook URL', async () => {
+      process.env.REPLICATE_WEBHOOK_URL = 'https://proxy.example.com/api/replicate/webhooks';
+      replicateMock.queuePrediction({ id: 'abc123' });
+
+      await handler(createJsonPostEvent({ model: 'owner/model', apiKey: 'test-api-key-123', mode: 'async' }), createLambdaContext());
+
+      const [request] = replicateMock.getRequests();
+      expect(request.data.webhook).toBe('https://proxy.example.com/api/replicate/webhooks');
+      expect(request.data.webhook_events_filter).toEqual(['completed']);
+    });
+
+    test('async predictions omit the webhook when none is configured', async () => {
+      delete process.env.REPLICATE_WEBHOOK_URL;
+      replicateMock.queuePrediction({ id: 'abc123' });
+
+      await handler(createJsonPostEvent({ model: 'owner/model', apiKey: 'test-api-key-123', mode: 'async' }), createLambdaContext());
+
+      const [request] = replicateMock.getRequests();
+      expect(request.data.webhook).toBeUndefined();
+    });
+  });
+
+  describe('Server-held key mode', () => {
+    const tokenSecret = 'test-client-token-secret';
+
+    const mint = (claims: Record<string, any> = {}) =>
+      mintClientToken({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) + 300, ...claims }, tokenSecret);
+
+    const createTokenEvent = (token?: string, body: Record<string, any> = {}) =>
+      createJsonPostEvent({ model: 'owner/model', input: { prompt: 'test' }, ...body }, { token });
+
+    beforeEach(() => {
+      process.env.AUTH_MODE = 'token';
+      process.env.REPLICATE_API_TOKEN = 'r8_server_held_key';
+      process.env.CLIENT_TOKEN_SECRET = tokenSecret;
+      resetTokenPredictionCounts();
+    });
+
+    test('runs predictions with the server key for a valid bearer token', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+
+      const result = await handler(createTokenEvent(mint()), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(replicateMock.getLastCall()?.auth).toBe('r8_server_held_key');
+    });
+
+    test('accepts the token in the request body', async () => {
+      replicateMock.queueSuccessResponse(['ok']);
+
+      const result = await handler(createTokenEvent(undefined, { token: mint() }), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    test('ignores raw API keys in token mode', async () => {
+      const result = await handler(createTokenEvent(undefined, { apiKey: 'r8_browser_key_123' }), createLambdaContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Client token is required');
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('rejects expired tokens with 401', async () => {
+      const result = await handler(createTokenEvent(mint({ exp: 1000 })), createLambdaContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Client token has expired');
+    });
+
+    test('rejects tampered tokens with 401', async () => {
+      const token = mintClientToken({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) + 300 }, 'wrong-secret');
+
+      const result = await handler(createTokenEvent(token), createLambdaContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Invalid client token signature');
+    });
+
+    test('rejects malformed tokens with 401', async () => {
+      const result = await handler(createTokenEvent('r8_looks_like_a_key'), createLambdaContext());
+
+      expect(result.statusCode).toBe(401);
+      expect(JSON.parse(result.body).error).toBe('Malformed client token');
+    });
+
+    test('rejects models outside the token scope with 403', async () => {
+      const result = await handler(createTokenEvent(mint({ models: ['black-forest-labs/*'] })), createLambdaContext());
+
+      expect(result.statusCode).toBe(403);
+      expect(JSON.parse(result.body).error).toBe('Client token does not allow model owner/model');
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('enforces maxPredictions with 403', async () => {
+      replicateMock.queueSuccessResponse(['first']);
+      const token = mint({ maxPredictions: 1, jti: 'token-1' });
+
+      const first = await handler(createTokenEvent(token), createLambdaContext());
+      const second = await handler(createTokenEvent(token), createLambdaContext());
+
+      expect(first.statusCode).toBe(200);
+      expect(second.statusCode).toBe(403);
+      expect(JSON.parse(second.body).error).toBe('Client token prediction limit reached');
+    });
+
+    test('cache hits do not count towards maxPredictions', async () => {
+      process.env.RESPONSE_CACHE_TTL = '60';
+      clearResponseCache();
+      replicateMock.queueSuccessResponse(['first']);
+      const token = mint({ maxPredictions: 1, jti: 'token-cache' });
+      const seeded = { input: { prompt: 'test', seed: 1 } };
+
+      const first = await handler(createTokenEvent(token, seeded), createLambdaContext());
+      const hit = await handler(createTokenEvent(token, seeded), createLambdaContext());
+      const fresh = await handler(createTokenEvent(token, { input: { prompt: 'test', seed: 2 } }), createLambdaContext());
+
+      expect(first.statusCode).toBe(200);
+      expect(hit.headers?.['X-Proxy-Cache']).toBe('HIT');
+      expect(fresh.statusCode).toBe(403);
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('uploads nothing for a token that has used up maxPredictions', async () => {
+      process.env.UPLOAD_DATA_URI_MAX_SIZE = '4';
+      replicateMock.queueSuccessResponse(['first']);
+      const token = mint({ maxPredictions: 1, jti: 'token-upload' });
+      const form = new FormData();
+      form.append('model', 'owner/model');
+      form.append('image', new Blob([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01])], { type: 'image/png' }), 'cat.png');
+
+      await handler(createTokenEvent(token), createLambdaContext());
+      const event = await createMultipartPostEvent(form);
+      event.headers.Authorization = `Bearer ${token}`;
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(403);
+      expect(JSON.parse(result.body).code).toBe('TOKEN_LIMIT_REACHED');
+      expect(replicateMock.getRequests().map(r => r.route)).not.toContain('/files');
+    });
+
+    test('returns 500 when server credentials are missing', async () => {
+      delete process.env.REPLICATE_API_TOKEN;
+
+      const result = await handler(createTokenEvent(mint()), createLambdaContext());
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body)).toMatchObject({ code: 'NOT_CONFIGURED', error: 'Server configuration is invalid' });
+      expect(JSON.parse(result.body).requestId).toBeDefined();
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('polling uses the server key and checks the model scope', async () => {
+      replicateMock.setPrediction({ id: 'abc123', model: 'owner/model', status: 'succeeded', output: 'done' });
+      const owner = predictionOwnerTag('abc123', 'user-1', tokenSecret);
+
+      const allowed = await handler(createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123',
+        queryStringParameters: { owner },
+        headers: { Authorization: `Bearer ${mint({ models: ['owner/*'] })}` }
+      }), createLambdaContext());
+      const denied = await handler(createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate/predictions/abc123/cancel',
+        queryStringParameters: { owner },
+        headers: { Authorization: `Bearer ${mint({ models: ['other/model'] })}` }
+      }), createLambdaContext());
+
+      expect(allowed.statusCode).toBe(200);
+      expect(JSON.parse(allowed.body).output).toBe('done');
+      expect(replicateMock.getRequests()[0].auth).toBe('r8_server_held_key');
+      expect(denied.statusCode).toBe(403);
+      expect(replicateMock.getRequests().some(r => r.route.endsWith('/cancel'))).toBe(false);
+    });
+
+    test('async predictions can only be polled and cancelled by the subject that started them', async () => {
+      replicateMock.queuePrediction({ id: 'owned123', model: 'owner/model' });
+      const created = await handler(createTokenEvent(mint(), { mode: 'async' }), createLambdaContext());
+      const { urls } = JSON.parse(created.body);
+      const [getPath, getQuery] = urls.get.split('?');
+      const [cancelPath, cancelQuery] = urls.cancel.split('?');
+      const request = (httpMethod: 'GET' | 'POST', path: string, query: Record<string, string> | null, sub: string) => handler(createAPIGatewayEvent({
+        httpMethod,
+        path,
+        queryStringParameters: query,
+        headers: { Authorization: `Bearer ${mint({ sub })}` }
+      }), createLambdaContext());
+      const owner = Object.fromEntries(new URLSearchParams(getQuery));
+
+      const otherPoll = await request('GET', getPath, owner, 'user-2');
+      const otherCancel = await request('POST', cancelPath, Object.fromEntries(new URLSearchParams(cancelQuery)), 'user-2');
+      const guessed = await request('GET', getPath, null, 'user-1');
+      const ownPoll = await request('GET', getPath, owner, 'user-1');
+
+      expect(otherPoll.statusCode).toBe(403);
+      expect(JSON.parse(otherPoll.body)).toMatchObject({ code: 'FORBIDDEN', error: 'Client token does not own this prediction' });
+      expect(otherCancel.statusCode).toBe(403);
+      expect(guessed.statusCode).toBe(403);
+      expect(ownPoll.statusCode).toBe(200);
+      expect(JSON.parse(ownPoll.body).urls.get).toBe(urls.get);
+      expect(replicateMock.getRequests().some(r => r.route.endsWith('/cancel'))).toBe(false);
+    });
+  });
+
+  describe('Model policy', () => {
+    beforeEach(() => {
+      process.env.MODEL_POLICY = JSON.stringify({ allow: ['black-forest-labs/*'], deny: ['black-forest-labs/flux-pro'] });
+    });
+
+    test('rejects denied models with 403 naming the rule', async () => {
+      const event = createReplicatePostEvent('black-forest-labs/flux-pro', { prompt: 'test' }, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(403);
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.code).toBe('MODEL_NOT_ALLOWED');
+      expect(responseBody.error).toBe('Model black-forest-labs/flux-pro is not allowed by policy');
+      expect(responseBody.details).toBe('Model black-forest-labs/flux-pro matches deny rule "black-forest-labs/flux-pro"');
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('rejects models outside the allowlist before any Replicate call', async () => {
+      const event = createJsonPostEvent({ model: 'minimax/video-01', apiKey: 'test-api-key-123', mode: 'async' });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(403);
+      expect(JSON.parse(result.body).details).toBe('Model minimax/video-01 does not match any allow rule');
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('allows models covered by the policy', async () => {
+      replicateMock.queueSuccessResponse(['ok']);
+      const event = createReplicatePostEvent('black-forest-labs/flux-schnell', {}, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    test('GET /api/replicate lists the permitted models', async () => {
+      const event = createAPIGatewayEvent({ httpMethod: 'GET', path: '/api/replicate' });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(JSON.parse(result.body).instructions.models).toEqual({
+        allow: ['black-forest-labs/*'],
+        deny: ['black-forest-labs/flux-pro']
+      });
+    });
+  });
+
+  describe('Input schema validation', () => {
+    beforeEach(() => {
+      replicateMock.setModelSchema('black-forest-labs/flux-schnell', fluxOpenApiSchema);
+    });
+
+    afterEach(() => {
+      clearInputSchemaCache();
+    });
+
+    test('does not fetch schemas when validation is off', async () => {
+      replicateMock.queueSuccessResponse(['ok']);
+      const event = createReplicatePostEvent('black-forest-labs/flux-schnell', { prompt: 'a cat', num_output: 2 }, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('rejects invalid values with per-field errors before calling the model', async () => {
+      process.env.INPUT_VALIDATION = 'lenient';
+      const event = createReplicatePostEvent('black-forest-labs/flux-schnell', { prompt: 'a cat', num_outputs: 9, aspect_ratio: '4:3' }, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.error).toBe('Invalid model input');
+      expect(responseBody.details).toBe('num_outputs: Must be >= 1 and <= 4; aspect_ratio: Must be one of: 1:1, 16:9, 9:16');
+      expect(responseBody.fields).toEqual([
+        { path: 'num_outputs', message: 'Must be >= 1 and <= 4', minimum: 1, maximum: 4 },
+        { path: 'aspect_ratio', message: 'Must be one of: 1:1, 16:9, 9:16', allowed: ['1:1', '16:9', '9:16'] }
+      ]);
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('lenient mode only warns about unknown keys', async () => {
+      process.env.INPUT_VALIDATION = 'lenient';
+      replicateMock.queueSuccessResponse(['ok']);
+      const warnSpy = spyOn(console, 'warn');
+      const event = createReplicatePostEvent('black-forest-labs/flux-schnell', { prompt: 'a cat', num_output: 2 }, 'test-api-key-123');
+
+      try {
+        const result = await handler(event, createLambdaContext());
+
+        expect(result.statusCode).toBe(200);
+        expect(warnSpy.mock.calls.some(call => String(call[0]).includes('num_output: Is not a known input'))).toBe(true);
+      } finally {
+        warnSpy.mockRestore();
+      }
+    });
+
+    test('strict mode rejects unknown keys', async () => {
+      process.env.INPUT_VALIDATION = 'strict';
+      const event = createReplicatePostEvent('black-forest-labs/flux-schnell', { prompt: 'a cat', num_output: 2 }, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).fields).toEqual([{ path: 'num_output', message: 'Is not a known input for this model' }]);
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('validates against preloaded schemas offline', async () => {
+      process.env.INPUT_VALIDATION = 'strict';
+      preloadInputSchemas({ 'owner/offline-model': fluxOpenApiSchema });
+      const event = createReplicatePostEvent('owner/offline-model', {}, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).fields).toEqual([{ path: 'prompt', message: 'Is required' }]);
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+
+    test('falls back to Replicate validation when the schema is unavailable', async () => {
+      process.env.INPUT_VALIDATION = 'strict';
+      replicateMock.queueSuccessResponse(['ok']);
+      const event = createReplicatePostEvent('owner/unknown-model', { anything: true }, 'test-api-key-123');
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+  });
+
+  describe('Rate limiting', () => {
+    beforeEach(() => {
+      resetRateLimits();
+    });
+
+    afterEach(() => {
+      setRateLimitStore(undefined);
+      resetRateLimits();
+    });
+
+    const postFrom = (sourceIp: string, apiKey: string = 'test-api-key-123', model: string = 'black-forest-labs/flux-schnell') => {
+      const event = createReplicatePostEvent(model, { prompt: 'test' }, apiKey);
+      event.requestContext.identity.sourceIp = sourceIp;
+      return event;
+    };
+
+    test('returns 429 with Retry-After and RateLimit headers once the IP bucket is empty', async () => {
+      process.env.RATE_LIMITS = JSON.stringify([{ key: 'ip', limit: 1, windowSeconds: 60 }]);
+      replicateMock.queueSuccessResponse(['ok']);
+
+      const first = await handler(postFrom('203.0.113.7'), createLambdaContext());
+      const second = await handler(postFrom('203.0.113.7'), createLambdaContext());
+
+      expect(first.statusCode).toBe(200);
+      expect(second.statusCode).toBe(429);
+      expect(JSON.parse(second.body)).toMatchObject({ code: 'RATE_LIMITED', error: 'Rate limit exceeded' });
+      expect(second.headers).toMatchObject({
+        'Retry-After': '60',
+        'RateLimit-Limit': '1',
+        'RateLimit-Remaining': '0',
+        'RateLimit-Reset': '60'
+      });
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('keeps separate buckets per source IP', async () => {
+      process.env.RATE_LIMITS = JSON.stringify([{ key: 'ip', limit: 1, windowSeconds: 60 }]);
+      replicateMock.queueSuccessResponse(['ok']);
+      replicateMock.queueSuccessResponse(['ok']);
+
+      expect((await handler(postFrom('203.0.113.7'), createLambdaContext())).statusCode).toBe(200);
+      expect((await handler(postFrom('198.51.100.2'), createLambdaContext())).statusCode).toBe(200);
+    });
+
+    test('reads the source IP from API Gateway v2 events', async () => {
+      process.env.RATE_LIMITS = JSON.stringify([{ key: 'ip', limit: 1, windowSeconds: 60 }]);
+      replicateMock.queueSuccessResponse(['ok']);
+      const v2Event = () => ({
+        rawPath: '/api/replicate',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ model: 'owner/model', input: {}, apiKey: 'test-api-key-123' }),
+        requestContext: { http: { method: 'POST', path: '/api/replicate', sourceIp: '203.0.113.9' } }
+      });
+
+      expect((await handler(v2Event(), createLambdaContext())).statusCode).toBe(200);
+      expect((await handler(v2Event(), createLambdaContext())).statusCode).toBe(429);
+    });
+
+    test('limits per Origin header', async () => {
+      process.env.RATE_LIMITS = JSON.stringify([{ key: 'origin', limit: 1, windowSeconds: 60 }]);
+      replicateMock.queueSuccessResponse(['ok']);
+      const fromOrigin = (sourceIp: string) => {
+        const event = postFrom(sourceIp);
+        event.headers.Origin = 'https://app.example.com';
+        return event;
+      };
+
+      expect((await handler(fromOrigin('203.0.113.7'), createLambdaContext())).statusCode).toBe(200);
+      expect((await handler(fromOrigin('198.51.100.2'), createLambdaContext())).statusCode).toBe(429);
+    });
+
+    test('applies per-credential limits only to the configured model', async () => {
+      process.env.RATE_LIMITS = JSON.stringify([{ key: 'credential', limit: 1, windowSeconds: 60, model: 'black-forest-labs/flux-pro' }]);
+      replicateMock.queueSuccessResponse(['ok']);
+      replicateMock.queueSuccessResponse(['ok']);
+      replicateMock.queueSuccessResponse(['ok']);
+
+      expect((await handler(postFrom('1.1.1.1', 'key-one-12345', 'black-forest-labs/flux-pro'), createLambdaContext())).statusCode).toBe(200);
+      expect((await handler(postFrom('2.2.2.2', 'key-one-12345', 'black-forest-labs/flux-pro'), createLambdaContext())).statusCode).toBe(429);
+      expect((await handler(postFrom('2.2.2.2', 'key-two-12345', 'black-forest-labs/flux-pro'), createLambdaContext())).statusCode).toBe(200);
+      expect((await handler(postFrom('2.2.2.2', 'key-one-12345', 'black-forest-labs/flux-schnell'), createLambdaContext())).statusCode).toBe(200);
+    });
+
+    test('uses an injected DynamoDB store', async () => {
+      process.env.RATE_LIMITS = JSON.stringify([{ key: 'ip', limit: 1, windowSeconds: 60 }]);
+      const dynamo = new DynamoLocal();
+      setRateLimitStore(createDynamoRateLimitStore(dynamo, 'rate-limits'));
+      replicateMock.queueSuccessResponse(['ok']);
+
+      expect((await handler(postFrom('203.0.113.7'), createLambdaContext())).statusCode).toBe(200);
+      expect((await handler(postFrom('203.0.113.7'), createLambdaContext())).statusCode).toBe(429);
+      expect(dynamo.puts).toBe(1);
+    });
+
+    describe('in token mode', () => {
+      const tokenSecret = 'test-client-token-secret';
+      const mint = (secret: string = tokenSecret, ttlSeconds: number = 300) =>
+        mintClientToken({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) + ttlSeconds }, secret);
+
+      beforeEach(() => {
+        process.env.AUTH_MODE = 'token';
+        process.env.REPLICATE_API_TOKEN = 'r8_server_held_key';
+        process.env.CLIENT_TOKEN_SECRET = tokenSecret;
+        process.env.RATE_LIMITS = JSON.stringify([{ key: 'credential', limit: 1, windowSeconds: 60 }]);
+      });
+
+      test('never gives a forged token a bucket', async () => {
+        const dynamo = new DynamoLocal();
+        setRateLimitStore(createDynamoRateLimitStore(dynamo, 'rate-limits'));
+
+        const result = await handler(createJsonPostEvent({ model: 'owner/model', input: {} }, { token: mint('wrong-secret') }), createLambdaContext());
+
+        expect(result.statusCode).toBe(401);
+        expect(dynamo.puts).toBe(0);
+      });
+
+      test('shares one bucket between tokens minted for the same subject', async () => {
+        replicateMock.queueSuccessResponse(['ok']);
+
+        const first = await handler(createJsonPostEvent({ model: 'owner/model', input: {} }, { token: mint(tokenSecret, 300) }), createLambdaContext());
+        const second = await handler(createJsonPostEvent({ model: 'owner/model', input: {} }, { token: mint(tokenSecret, 600) }), createLambdaContext());
+
+        expect(first.statusCode).toBe(200);
+        expect(second.statusCode).toBe(429);
+      });
+    });
+  });
+
+  describe('Usage quotas', () => {
+    const tokenSecret = 'test-client-token-secret';
+
+    const mint = (sub: string = 'user-1') =>
+      mintClientToken({ sub, exp: Math.floor(Date.now() / 1000) + 300 }, tokenSecret);
+
+    const post = (token: string, body: Record<string, any> = {}) =>
+      handler(createJsonPostEvent({ model: 'owner/model', input: { prompt: 'test' }, ...body }, { token }), createLambdaContext());
+
+    const getUsage = async (credential: string) => handler(createAPIGatewayEvent({
+      httpMethod: 'GET',
+      path: '/api/replicate/usage',
+      headers: { Authorization: `Bearer ${credential}` }
+    }), createLambdaContext());
+
+    beforeEach(() => {
+      process.env.AUTH_MODE = 'token';
+      process.env.REPLICATE_API_TOKEN = 'r8_server_held_key';
+      process.env.CLIENT_TOKEN_SECRET = tokenSecret;
+      process.env.USAGE_PRICES = JSON.stringify({ hardware: { 'gpu-a100-large': 0.001 }, default: { hardware: 'gpu-a100-large' } });
+      process.env.USAGE_QUOTAS = JSON.stringify({ daily: { predictions: 2 }, monthly: { costUsd: 0.05 } });
+      resetUsage();
+    });
+
+    afterEach(() => {
+      setUsageStore(undefined);
+      resetUsage();
+    });
+
+    test('charges sync predictions to the token subject and reports them', async () => {
+      replicateMock.queueSuccessResponse(['ok'], { id: 'sync1', metrics: { predict_time: 10 } });
+
+      expect((await post(mint())).statusCode).toBe(200);
+
+      const result = await getUsage(mint());
+      expect(result.statusCode).toBe(200);
+      const report = JSON.parse(result.body);
+      expect(report.subject).toBe('user-1');
+      expect(report.daily).toMatchObject({ predictions: 1, predictTimeSeconds: 10, limits: { predictions: 2 }, remaining: { predictions: 1 } });
+      expect(report.monthly.costUsd).toBeCloseTo(0.01);
+      expect(JSON.parse((await getUsage(mint('user-2'))).body).daily.predictions).toBe(0);
+    });
+
+    test('returns 429 once the daily prediction quota is used up', async () => {
+      replicateMock.queueSuccessResponse(['ok']);
+      replicateMock.queueSuccessResponse(['ok']);
+      replicateMock.queueSuccessResponse(['ok']);
+
+      await post(mint());
+      await post(mint());
+      const rejected = await post(mint());
+
+      expect(rejected.statusCode).toBe(429);
+      expect(JSON.parse(rejected.body)).toMatchObject({ code: 'USAGE_QUOTA_EXCEEDED', error: 'Daily prediction quota exceeded' });
+      expect(Number(rejected.headers['Retry-After'])).toBeGreaterThan(0);
+      expect(replicateMock.getCallCount()).toBe(2);
+      expect((await post(mint('user-2'))).statusCode).toBe(200);
+    });
+
+    test('rejects an exhausted quota before looking up the input schema', async () => {
+      process.env.INPUT_VALIDATION = 'lenient';
+      replicateMock.setModelSchema('owner/schema-model', fluxOpenApiSchema);
+      replicateMock.queueSuccessResponse(['ok']);
+      replicateMock.queueSuccessResponse(['ok']);
+
+      await post(mint());
+      await post(mint());
+      const rejected = await post(mint(), { model: 'owner/schema-model' });
+
+      expect(rejected.statusCode).toBe(429);
+      expect(replicateMock.getRequests().map(r => r.route)).not.toContain('/models/owner/schema-model');
+    });
+
+    test('returns 402 once the monthly spend quota is used up, counting failed runs', async () => {
+      replicateMock.queueErrorResponse({ message: 'CUDA out of memory', status: 500 }, { id: 'fail1', metrics: { predict_time: 60 } });
+
+      expect((await post(mint())).statusCode).toBe(502);
+      const rejected = await post(mint());
+
+      expect(rejected.statusCode).toBe(402);
+      expect(JSON.parse(rejected.body)).toMatchObject({ code: 'SPEND_QUOTA_EXCEEDED', error: 'Monthly spend quota exceeded' });
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('charges async predictions when they are created and their predict_time once they settle', async () => {
+      replicateMock.queuePrediction({ id: 'async1', model: 'owner/model' });
+
+      const created = await post(mint(), { mode: 'async' });
+      expect(created.statusCode).toBe(202);
+      expect(JSON.parse((await getUsage(mint())).body).daily).toMatchObject({ predictions: 1, predictTimeSeconds: 0 });
+
+      replicateMock.setPrediction({ id: 'async1', model: 'owner/model', status: 'succeeded', output: 'done', metrics: { predict_time: 20 } });
+      const [path, query] = JSON.parse(created.body).urls.get.split('?');
+      const poll = () => handler(createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path,
+        queryStringParameters: Object.fromEntries(new URLSearchParams(query)),
+        headers: { Authorization: `Bearer ${mint()}` }
+      }), createLambdaContext());
+      await poll();
+      await poll();
+
+      const { daily } = JSON.parse((await getUsage(mint())).body);
+      expect(daily).toMatchObject({ predictions: 1, predictTimeSeconds: 20 });
+      expect(daily.costUsd).toBeCloseTo(0.02);
+    });
+
+    test('settles async predictions from webhooks', async () => {
+      const secret = 'whsec_' + Buffer.from('test-signing-secret').toString('base64');
+      process.env.REPLICATE_WEBHOOK_SECRET = secret;
+      replicateMock.queuePrediction({ id: 'async2', model: 'owner/model' });
+      await post(mint(), { mode: 'async' });
+
+      const body = JSON.stringify({ id: 'async2', status: 'succeeded', output: ['https://replicate.delivery/a.png'], metrics: { predict_time: 5 } });
+      const webhookTimestamp = String(Math.floor(Date.now() / 1000));
+      const webhook = await handler(createAPIGatewayEvent({
+        httpMethod: 'POST',
+        path: '/api/replicate/webhooks',
+        body,
+        headers: {
+          'webhook-id': 'msg_usage',
+          'webhook-timestamp': webhookTimestamp,
+          'webhook-signature': `v1,${signWebhookPayload('msg_usage', webhookTimestamp, body, secret)}`
+        }
+      }), createLambdaContext());
+      defaultWebhookStore.clear();
+
+      expect(webhook.statusCode).toBe(200);
+      expect(JSON.parse((await getUsage(mint())).body).daily).toMatchObject({ predictions: 1, predictTimeSeconds: 5 });
+    });
+
+    test('tracks API key callers by hashed key', async () => {
+      process.env.AUTH_MODE = 'apiKey';
+      setUsageStore(createMemoryUsageStore());
+      replicateMock.queueSuccessResponse(['ok']);
+
+      await handler(createReplicatePostEvent('owner/model', { prompt: 'test' }, 'test-api-key-123'), createLambdaContext());
+
+      const report = JSON.parse((await getUsage('test-api-key-123')).body);
+      expect(report.subject).toMatch(/^key:[0-9a-f]{32}$/);
+      expect(report.daily.predictions).toBe(1);
+      expect((await handler(createAPIGatewayEvent({ httpMethod: 'GET', path: '/api/replicate/usage' }), createLambdaContext())).statusCode).toBe(401);
+    });
+
+    test('returns 503 from the usage route when tracking is off', async () => {
+      delete process.env.USAGE_QUOTAS;
+
+      const result = await getUsage(mint());
+
+      expect(result.statusCode).toBe(503);
+      expect(JSON.parse(result.body).error).toBe('Usage tracking is not enabled');
+    });
+  });
+
+  describe('Retries', () => {
+    beforeEach(() => {
+      process.env.REPLICATE_RETRY_BASE_DELAY = '1';
+    });
+
+    test('retries a transient failure while creating the prediction', async () => {
+      replicateMock.queueErrorResponse({ message: 'Service Unavailable', status: 503 });
+      replicateMock.queueSuccessResponse(['result']);
+
+      const result = await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('2');
+      expect(replicateMock.getCallCount()).toBe(2);
+    });
+
+    test('gives up after the configured attempts', async () => {
+      process.env.REPLICATE_RETRY_ATTEMPTS = '2';
+      replicateMock.queueErrorResponse({ message: 'Service Unavailable', status: 503 });
+      replicateMock.queueErrorResponse({ message: 'Service Unavailable', status: 503 });
+
+      const result = await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(503);
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('2');
+      expect(replicateMock.getCallCount()).toBe(2);
+    });
+
+    test('does not retry gateway errors by default, since the prediction may already exist', async () => {
+      replicateMock.queueErrorResponse({ message: 'Gateway Timeout', status: 504 });
+
+      const result = await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(502);
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('1');
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('does not retry statuses outside the retryable list', async () => {
+      process.env.REPLICATE_RETRY_STATUSES = '429';
+      replicateMock.queueErrorResponse({ message: 'Service Unavailable', status: 503 });
+
+      const result = await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(503);
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('1');
+    });
+
+    test('never retries once the prediction has started', async () => {
+      replicateMock.queueErrorResponse({ message: 'Service Unavailable', status: 503 }, { id: 'started1' });
+
+      const result = await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(503);
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('1');
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('does not wait out a Retry-After that would pass the timeout', async () => {
+      process.env.REPLICATE_TIMEOUT = '1000';
+      process.env.REPLICATE_RETRY_STATUSES = '429';
+      replicateMock.queueErrorResponse({ message: 'Too Many Requests', status: 429, headers: { 'Retry-After': '30' } });
+
+      const result = await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(429);
+      expect(result.headers?.['Retry-After']).toBe('30');
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('1');
+    });
+
+    test('retries async prediction creation', async () => {
+      replicateMock.queuePredictionError({ message: 'Service Unavailable', status: 503, headers: { 'Retry-After': '0' } });
+      replicateMock.queuePrediction({ id: 'retried1', status: 'starting' });
+
+      const result = await handler(createJsonPostEvent({ model: 'owner/model', input: {}, apiKey: 'test-api-key-123', mode: 'async' }), createLambdaContext());
+
+      expect(result.statusCode).toBe(202);
+      expect(JSON.parse(result.body).id).toBe('retried1');
+      expect(result.headers?.['X-Replicate-Attempts']).toBe('2');
+    });
+
+    test('logs each retry', async () => {
+      const lines: any[] = [];
+      setLogSink((_level, line) => lines.push(JSON.parse(line)));
+      replicateMock.queueErrorResponse({ message: 'Service Unavailable', status: 503 });
+      replicateMock.queueSuccessResponse(['result']);
+
+      try {
+        await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+      } finally {
+        setLogSink(undefined);
+      }
+
+      expect(lines.find(line => line.message === 'Retrying Replicate call')).toMatchObject({ attempt: 2, replicateStatus: 503 });
+      expect(lines.find(line => line.message === 'Request completed')).toMatchObject({ replicateAttempts: 2 });
+    });
+  });
+
+  describe('Batch predictions', () => {
+    const batchEvent = (body: object) => createJsonPostEvent(body, { path: '/api/replicate/batch' });
+
+    beforeEach(() => {
+      // One job at a time so queued mock responses line up with job order
+      process.env.BATCH_CONCURRENCY = '1';
+      process.env.REPLICATE_RETRY_ATTEMPTS = '1';
+    });
+
+    test('returns per-job results in order without failing the batch', async () => {
+      replicateMock.queueSuccessResponse(['https://example.com/a.png']);
+      replicateMock.queueErrorResponse({ message: 'Unprocessable Entity', status: 422 });
+      replicateMock.queueSuccessResponse(['https://example.com/c.png']);
+
+      const result = await handler(batchEvent({
+        apiKey: 'test-api-key-123',
+        jobs: [
+          { model: 'owner/a', input: { prompt: 'a' } },
+          { model: 'owner/b', input: { prompt: 'b' } },
+          { model: 'owner/c', input: { prompt: 'c' } }
+        ]
+      }), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body).toMatchObject({ succeeded: 2, accepted: 0, failed: 1 });
+      expect(body.results.map((item: any) => item.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+      expect(body.results[0].output).toEqual(['https://example.com/a.png']);
+      expect(body.results[1]).toMatchObject({ index: 1, statusCode: 422, error: { code: 'UPSTREAM_VALIDATION_FAILED' } });
+      expect(replicateMock.getCallCount()).toBe(3);
+      expect(replicateMock.getLastCall()?.model).toBe('owner/c');
+    });
+
+    test('splits the inline output budget across jobs', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01]);
+      const files = new S3Local();
+      files.addFile('https://replicate.delivery/pbxt/out-0.png', png, 'image/png');
+      const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(files.fetch);
+      // One 12-byte encoded file fits the whole budget but not half of it
+      process.env.INLINE_OUTPUT_MAX_BYTES = '20';
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out-0.png']);
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out-0.png']);
+
+      try {
+        const result = await handler(batchEvent({
+          apiKey: 'test-api-key-123',
+          jobs: [
+            { model: 'owner/a', input: { prompt: 'a' }, outputFormat: 'base64' },
+            { model: 'owner/b', input: { prompt: 'b' }, outputFormat: 'base64' }
+          ]
+        }), createLambdaContext());
+
+        const body = JSON.parse(result.body);
+        expect(body.succeeded).toBe(2);
+        for (const item of body.results) {
+          expect(item.output).toEqual({
+            format: 'base64',
+            output: ['https://replicate.delivery/pbxt/out-0.png'],
+            warning: 'Inline output limit of 10 bytes reached; 1 file(s) returned as URLs'
+          });
+        }
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    test('returns async jobs as predictions to poll', async () => {
+      replicateMock.queuePrediction({ id: 'batch1', status: 'starting' });
+
+      const result = await handler(batchEvent({
+        apiKey: 'test-api-key-123',
+        jobs: [{ model: 'owner/a', input: {}, mode: 'async' }]
+      }), createLambdaContext());
+
+      expect(JSON.parse(result.body).results[0]).toMatchObject({ status: 'accepted', statusCode: 202, prediction: { id: 'batch1' } });
+    });
+
+    test('applies the model policy to each job', async () => {
+      process.env.MODEL_POLICY = JSON.stringify({ deny: ['owner/denied'] });
+      replicateMock.queueSuccessResponse(['ok']);
+
+      const result = await handler(batchEvent({
+        apiKey: 'test-api-key-123',
+        jobs: [{ model: 'owner/denied', input: {} }, { model: 'owner/allowed', input: {} }]
+      }), createLambdaContext());
+
+      const body = JSON.parse(result.body);
+      expect(body.results[0]).toMatchObject({ status: 'failed', statusCode: 403, error: { code: 'MODEL_NOT_ALLOWED' } });
+      expect(body.results[1].status).toBe('succeeded');
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('rejects batches over the job limit', async () => {
+      process.env.BATCH_MAX_JOBS = '2';
+      const job = { model: 'owner/a', input: {} };
+
+      const result = await handler(batchEvent({ apiKey: 'test-api-key-123', jobs: [job, job, job] }), createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body)).toMatchObject({ code: 'VALIDATION_FAILED', error: 'A batch can have at most 2 jobs' });
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('rejects the whole batch when a job is invalid', async () => {
+      const result = await handler(batchEvent({
+        apiKey: 'test-api-key-123',
+        jobs: [{ model: 'owner/a', input: {} }, { model: 'invalid' }]
+      }), createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('jobs[1]: Model name is required and must be in format "owner/model"');
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('rejects batch bodies over the size limit', async () => {
+      process.env.BATCH_MAX_REQUEST_SIZE = '64';
+
+      const result = await handler(batchEvent({
+        apiKey: 'test-api-key-123',
+        jobs: [{ model: 'owner/a', input: { prompt: 'x'.repeat(100) } }]
+      }), createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).code).toBe('PAYLOAD_TOO_LARGE');
+    });
+  });
+
+  describe('Response cache', () => {
+    beforeEach(() => {
+      process.env.RESPONSE_CACHE_TTL = '300';
+      clearResponseCache();
+    });
+
+    afterEach(() => {
+      setResponseCacheStore(undefined);
+      clearResponseCache();
+    });
+
+    test('serves repeated seeded requests from the cache', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/out.png']);
+
+      const first = await handler(createReplicatePostEvent('owner/model', { prompt: 'cat', seed: 7 }, 'test-api-key-123'), createLambdaContext());
+      const second = await handler(createReplicatePostEvent('owner/model', { seed: 7, prompt: 'cat' }, 'test-api-key-123'), createLambdaContext());
+
+      expect(first.headers?.['X-Proxy-Cache']).toBe('MISS');
+      expect(second.statusCode).toBe(200);
+      expect(second.headers?.['X-Proxy-Cache']).toBe('HIT');
+      expect(JSON.parse(second.body)).toEqual(['https://replicate.delivery/out.png']);
+      expect(replicateMock.getCallCount()).toBe(1);
+    });
+
+    test('does not share cached outputs with other API keys', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/out.png']);
+      replicateMock.queueErrorResponse({ message: 'Unauthenticated', status: 401 });
+
+      const first = await handler(createReplicatePostEvent('owner/model', { prompt: 'cat', seed: 7 }, 'test-api-key-123'), createLambdaContext());
+      const bogus = await handler(createReplicatePostEvent('owner/model', { prompt: 'cat', seed: 7 }, 'zzzzzzzz'), createLambdaContext());
+
+      expect(first.headers?.['X-Proxy-Cache']).toBe('MISS');
+      expect(bogus.statusCode).toBe(401);
+      expect(JSON.parse(bogus.body).output).toBeUndefined();
+      expect(replicateMock.getCallCount()).toBe(2);
+      expect(replicateMock.getLastCall()?.auth).toBe('zzzzzzzz');
+    });
+
+    test('does not cache unseeded requests', async () => {
+      replicateMock.queueSuccessResponse(['one']);
+      replicateMock.queueSuccessResponse(['two']);
+
+      await handler(createReplicatePostEvent('owner/model', { prompt: 'cat' }, 'test-api-key-123'), createLambdaContext());
+      const second = await handler(createReplicatePostEvent('owner/model', { prompt: 'cat' }, 'test-api-key-123'), createLambdaContext());
+
+      expect(second.headers?.['X-Proxy-Cache']).toBeUndefined();
+      expect(JSON.parse(second.body)).toEqual(['two']);
+    });
+
+    test('caches requests marked cacheable', async () => {
+      replicateMock.queueSuccessResponse(['one']);
+      const event = () => createJsonPostEvent({ model: 'owner/model', input: { prompt: 'cat' }, apiKey: 'test-api-key-123', cache: true });
+
+      await handler(event(), createLambdaContext());
+      const second = await handler(event(), createLambdaContext());
+
+      expect(second.headers?.['X-Proxy-Cache']).toBe('HIT');
+    });
+
+    test('Cache-Control: no-cache bypasses the lookup and refreshes the entry', async () => {
+      replicateMock.queueSuccessResponse(['stale']);
+      replicateMock.queueSuccessResponse(['fresh']);
+      await handler(createReplicatePostEvent('owner/model', { seed: 7 }, 'test-api-key-123'), createLambdaContext());
+
+      const bypassEvent = createReplicatePostEvent('owner/model', { seed: 7 }, 'test-api-key-123');
+      bypassEvent.headers['Cache-Control'] = 'no-cache';
+      const bypassed = await handler(bypassEvent, createLambdaContext());
+      const cached = await handler(createReplicatePostEvent('owner/model', { seed: 7 }, 'test-api-key-123'), createLambdaContext());
+
+      expect(bypassed.headers?.['X-Proxy-Cache']).toBe('MISS');
+      expect(JSON.parse(bypassed.body)).toEqual(['fresh']);
+      expect(JSON.parse(cached.body)).toEqual(['fresh']);
+      expect(replicateMock.getCallCount()).toBe(2);
+    });
+
+    test('is disabled without a TTL', async () => {
+      delete process.env.RESPONSE_CACHE_TTL;
+      replicateMock.queueSuccessResponse(['one']);
+
+      const result = await handler(createReplicatePostEvent('owner/model', { seed: 7 }, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.headers?.['X-Proxy-Cache']).toBeUndefined();
+    });
+
+    test('falls through to Replicate when the external store fails', async () => {
+      setResponseCacheStore({
+        get: async () => { throw new Error('KV unavailable'); },
+        set: async () => { throw new Error('KV unavailable'); }
+      });
+      replicateMock.queueSuccessResponse(['one']);
+
+      const result = await handler(createReplicatePostEvent('owner/model', { seed: 7 }, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['X-Proxy-Cache']).toBe('MISS');
+    });
+  });
+
+  describe('Output rehosting', () => {
+    const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01]);
+    const storageEnv = {
+      OUTPUT_BUCKET: 'outputs',
+      OUTPUT_S3_ENDPOINT: 'http://minio.local:9000',
+      OUTPUT_S3_ACCESS_KEY_ID: 'minioadmin',
+      OUTPUT_S3_SECRET_ACCESS_KEY: 'minioadmin'
+    };
+    let s3: S3Local;
+    let fetchSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      Object.assign(process.env, storageEnv);
+      s3 = new S3Local();
+      fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(s3.fetch);
+      clearRehostedOutputs();
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    test('sync outputs are replaced with bucket URLs', async () => {
+      s3.addFile('https://replicate.delivery/pbxt/out-0.png', PNG, 'image/png');
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out-0.png']);
+
+      const result = await handler(createReplicatePostEvent('owner/model', { prompt: 'cat' }, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      const [url] = JSON.parse(result.body);
+      expect(url).toMatch(/^http:\/\/minio\.local:9000\/outputs\/outputs\/[0-9a-f]{64}\.png$/);
+      expect(s3.objects.size).toBe(1);
+    });
+
+    test('succeeded predictions are rehosted when polled', async () => {
+      s3.addFile('https://replicate.delivery/pbxt/out-0.png', PNG, 'image/png');
+      replicateMock.setPrediction({ id: 'abc123', status: 'succeeded', output: ['https://replicate.delivery/pbxt/out-0.png'], logs: '' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      });
+      const result = await handler(event, createLambdaContext());
+
+      expect(JSON.parse(result.body).output[0]).toStartWith('http://minio.local:9000/outputs/');
+    });
+
+    test('repeated polls of a succeeded prediction upload its outputs once', async () => {
+      s3.addFile('https://replicate.delivery/pbxt/out-0.png', PNG, 'image/png');
+      replicateMock.setPrediction({ id: 'abc123', status: 'succeeded', output: ['https://replicate.delivery/pbxt/out-0.png'], logs: '' });
+      const poll = () => handler(createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      }), createLambdaContext());
+
+      const first = await poll();
+      const second = await poll();
+
+      expect(JSON.parse(second.body).output).toEqual(JSON.parse(first.body).output);
+      expect(s3.downloads).toEqual(['https://replicate.delivery/pbxt/out-0.png']);
+      expect(fetchSpy.mock.calls.filter(([, init]: any[]) => init?.method === 'PUT')).toHaveLength(1);
+    });
+
+    test('running predictions are returned untouched', async () => {
+      replicateMock.setPrediction({ id: 'abc123', status: 'processing', output: ['https://replicate.delivery/pbxt/partial.png'], logs: '' });
+
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/api/replicate/predictions/abc123',
+        headers: { Authorization: 'Bearer test-api-key-123' }
+      });
+      const result = await handler(event, createLambdaContext());
+
+      expect(JSON.parse(result.body).output).toEqual(['https://replicate.delivery/pbxt/partial.png']);
+      expect(s3.downloads).toHaveLength(0);
+    });
+  });
+
+  describe('Inline output formats', () => {
+    const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01]);
+    let files: S3Local;
+    let fetchSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+      files = new S3Local();
+      files.addFile('https://replicate.delivery/pbxt/out-0.png', PNG, 'image/png');
+      fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(files.fetch);
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    const inlineEvent = (outputFormat: string, mode?: string) =>
+      createJsonPostEvent({ model: 'owner/model', input: { prompt: 'cat' }, apiKey: 'test-api-key-123', outputFormat, mode });
+
+    test('returns file outputs as data URLs', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out-0.png']);
+
+      const result = await handler(inlineEvent('dataUrl'), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toEqual({
+        format: 'dataUrl',
+        output: [{ dataUrl: `data:image/png;base64,${PNG.toString('base64')}`, contentType: 'image/png', size: PNG.length }]
+      });
+    });
+
+    test('falls back to URLs with a warning above INLINE_OUTPUT_MAX_BYTES', async () => {
+      process.env.INLINE_OUTPUT_MAX_BYTES = '4';
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out-0.png']);
+
+      const result = await handler(inlineEvent('base64'), createLambdaContext());
+
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.output).toEqual(['https://replicate.delivery/pbxt/out-0.png']);
+      expect(responseBody.warning).toBe('Inline output limit of 4 bytes reached; 1 file(s) returned as URLs');
+    });
+
+    test('rejects inline formats outside sync mode', async () => {
+      const result = await handler(inlineEvent('base64', 'async'), createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('Inline output formats are only supported in sync mode');
+    });
+  });
+
+  describe('File uploads', () => {
+    const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01, 0x02]);
+
+    const uploadForm = (file: Blob, filename: string = 'cat.png') => {
+      const form = new FormData();
+      form.append('model', 'owner/model');
+      form.append('apiKey', 'test12345678');
+      form.append('input', JSON.stringify({ prompt: 'a cat' }));
+      form.append('image', file, filename);
+      return form;
+    };
+
+    afterEach(() => {
+      resetUsage();
+      clearInputSchemaCache();
+    });
+
+    test('substitutes small uploads into the input as data URIs', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      const event = await createMultipartPostEvent(uploadForm(new Blob([PNG], { type: 'image/png' })));
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(replicateMock.getLastCall()?.options.input).toEqual({
+        prompt: 'a cat',
+        image: `data:image/png;base64,${PNG.toString('base64')}`
+      });
+    });
+
+    test('uploads larger files through the Replicate files API', async () => {
+      process.env.UPLOAD_DATA_URI_MAX_SIZE = '4';
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      const event = await createMultipartPostEvent(uploadForm(new Blob([PNG], { type: 'image/png' })));
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(replicateMock.getLastCall()?.options.input.image).toBe('https://api.replicate.com/v1/files/file1');
+      expect(replicateMock.getRequests()[0]).toMatchObject({ route: '/files', method: 'POST' });
+    });
+
+    test('uploads nothing when the usage quota rejects the request', async () => {
+      process.env.USAGE_QUOTAS = JSON.stringify({ daily: { predictions: 1 } });
+      process.env.UPLOAD_DATA_URI_MAX_SIZE = '4';
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      await handler(createReplicatePostEvent('owner/model', { prompt: 'a cat' }, 'test12345678'), createLambdaContext());
+
+      const result = await handler(await createMultipartPostEvent(uploadForm(new Blob([PNG], { type: 'image/png' }))), createLambdaContext());
+
+      expect(result.statusCode).toBe(429);
+      expect(replicateMock.getRequests().map(r => r.route)).not.toContain('/files');
+    });
+
+    test('validates the input before uploading, with placeholders for the files', async () => {
+      process.env.INPUT_VALIDATION = 'strict';
+      process.env.UPLOAD_DATA_URI_MAX_SIZE = '4';
+      replicateMock.setModelSchema('owner/model', fluxOpenApiSchema);
+
+      const result = await handler(await createMultipartPostEvent(uploadForm(new Blob([PNG], { type: 'image/png' }))), createLambdaContext());
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).fields).toEqual([{ path: 'image', message: 'Is not a known input for this model' }]);
+      expect(replicateMock.getRequests().map(r => r.route)).not.toContain('/files');
+    });
+
+    test('rejects oversized files with 413', async () => {
+      process.env.UPLOAD_MAX_FILE_SIZE = '4';
+      const event = await createMultipartPostEvent(uploadForm(new Blob([PNG], { type: 'image/png' })));
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(413);
+      expect(JSON.parse(result.body).error).toBe('File "image" exceeds the maximum size of 4 bytes');
+      expect(replicateMock.getCallCount()).toBe(0);
+    });
+
+    test('rejects disallowed file types with 415', async () => {
+      const event = await createMultipartPostEvent(uploadForm(new Blob(['%PDF-1.4'], { type: 'application/pdf' }), 'doc.pdf'));
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(415);
+      expect(JSON.parse(result.body).error).toBe('File "image" has unsupported type application/pdf');
+    });
+
+    test('decodes base64-encoded JSON bodies', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      const event = createReplicatePostEvent('owner/model', { prompt: 'a cat' }, 'test12345678');
+      event.body = Buffer.from(event.body!).toString('base64');
+      event.isBase64Encoded = true;
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(replicateMock.getLastCall()?.options.input).toEqual({ prompt: 'a cat' });
+    });
+  });
+
+  describe('Structured logging', () => {
+    let lines: any[];
+
+    beforeEach(() => {
+      lines = [];
+      setLogSink((_level, line) => lines.push(JSON.parse(line)));
+    });
+
+    afterEach(() => {
+      setLogSink(undefined);
+    });
+
+    test('logs a completion line without credentials or prompts', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      const event = createReplicatePostEvent('owner/model', { prompt: 'a very private prompt', seed: 1 }, 'r8_secretapikey123');
+
+      await handler(event, createLambdaContext());
+
+      const completed = lines.find(line => line.message === 'Request completed');
+      expect(completed).toMatchObject({
+        level: 'info',
+        requestId: expect.stringMatching(/^test-request-id-/),
+        route: 'POST /api/replicate',
+        model: 'owner/model',
+        status: 200
+      });
+      expect(typeof completed.latencyMs).toBe('number');
+      const output = JSON.stringify(lines);
+      expect(output).not.toContain('r8_secretapikey123');
+      expect(output).not.toContain('a very private prompt');
+    });
+
+    test('logs the number of input keys instead of the input', async () => {
+      process.env.LOG_LEVEL = 'debug';
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      const event = createReplicatePostEvent('owner/model', { image: 'https://private.example.com/me.jpg', seed: 1 }, 'test-api-key-123');
+
+      await handler(event, createLambdaContext());
+
+      expect(lines.find(line => line.message === 'Proxying request to Replicate')).toMatchObject({ inputKeys: 2 });
+      expect(JSON.stringify(lines)).not.toContain('private.example.com');
+    });
+
+    test('honors LOG_LEVEL', async () => {
+      process.env.LOG_LEVEL = 'warn';
+
+      await handler(createAPIGatewayEvent({ httpMethod: 'GET', path: '/health' }), createLambdaContext());
+      await handler(createAPIGatewayEvent({ httpMethod: 'POST', path: '/api/replicate', body: '{' }), createLambdaContext());
+
+      expect(lines.every(line => line.level === 'warn' || line.level === 'error')).toBe(true);
+      expect(lines.find(line => line.message === 'Request completed')).toMatchObject({ status: 400, level: 'warn' });
+    });
+  });
+
+  describe('Metrics', () => {
+    let batches: MetricsBatch[];
+
+    const valuesOf = (batch: MetricsBatch) =>
+      Object.fromEntries(batch.metrics.map(metric => [metric.name, metric.values]));
+
+    beforeEach(() => {
+      batches = [];
+      process.env.METRICS_ENABLED = 'true';
+      setMetricsSink(batch => batches.push(batch));
+    });
+
+    afterEach(() => {
+      setMetricsSink(undefined);
+      clearResponseCache();
+    });
+
+    test('emits one batch per request with route, event type and model', async () => {
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+
+      await handler(createReplicatePostEvent('owner/model', { prompt: 'a cat' }, 'test-api-key-123'), createLambdaContext());
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0].namespace).toBe('ReplicateProxy');
+      expect(batches[0].dimensions).toEqual({ Route: 'POST /api/replicate', EventType: 'apigateway-v1', Model: 'owner/model' });
+      const values = valuesOf(batches[0]);
+      expect(values.Requests).toEqual([1]);
+      expect(values['4XXError']).toEqual([0]);
+      expect(values['5XXError']).toEqual([0]);
+      expect(values.Latency).toHaveLength(1);
+      expect(values.ReplicateLatency).toHaveLength(1);
+    });
+
+    test('only gives permitted models a Model dimension, without the version', async () => {
+      process.env.MODEL_POLICY = JSON.stringify({ allow: ['owner/*'] });
+      replicateMock.queueSuccessResponse(['ok']);
+
+      await handler(createReplicatePostEvent(`owner/model:${'a'.repeat(64)}`, {}, 'test-api-key-123'), createLambdaContext());
+      await handler(createReplicatePostEvent(`other/model-${Date.now()}`, {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(batches[0].dimensions.Model).toBe('owner/model');
+      expect(batches[1].dimensions).toEqual({ Route: 'POST /api/replicate', EventType: 'apigateway-v1' });
+    });
+
+    test('counts errors by status class', async () => {
+      await handler(createAPIGatewayEvent({ httpMethod: 'GET', path: '/unknown' }), createLambdaContext());
+      replicateMock.queueErrorResponse({ message: 'Boom', status: 500 });
+      await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(batches[0].dimensions.Route).toBe('unmatched');
+      expect(valuesOf(batches[0])['4XXError']).toEqual([1]);
+      expect(valuesOf(batches[1])['5XXError']).toEqual([1]);
+    });
+
+    test('counts sync timeouts', async () => {
+      process.env.REPLICATE_TIMEOUT = '20';
+      replicateMock.queuePendingResponse({ id: 'slow123' });
+
+      await handler(createReplicatePostEvent('owner/slow-model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(valuesOf(batches[0]).Timeouts).toEqual([1]);
+    });
+
+    test('counts cache misses and hits', async () => {
+      process.env.RESPONSE_CACHE_TTL = '300';
+      replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+      const event = () => createReplicatePostEvent('owner/model', { prompt: 'a cat', seed: 7 }, 'test-api-key-123');
+
+      await handler(event(), createLambdaContext());
+      await handler(event(), createLambdaContext());
+
+      expect(valuesOf(batches[0]).CacheMisses).toEqual([1]);
+      expect(valuesOf(batches[1]).CacheHits).toEqual([1]);
+      expect(valuesOf(batches[1]).ReplicateLatency).toBeUndefined();
+    });
+
+    test('emits nothing when disabled', async () => {
+      process.env.METRICS_ENABLED = 'false';
+
+      await handler(createAPIGatewayEvent({ httpMethod: 'GET', path: '/health' }), createLambdaContext());
+
+      expect(batches).toHaveLength(0);
+    });
+  });
+
+  describe('Tracing', () => {
+    let exporter: MemorySpanExporter;
+
+    beforeEach(() => {
+      exporter = createMemorySpanExporter();
+      setSpanExporter(exporter);
+      process.env.TRACING_ENABLED = 'true';
+    });
+
+    afterEach(() => {
+      setSpanExporter(undefined);
+    });
+
+    test('lets browsers send traceparent from a restricted origin', async () => {
+      process.env.CORS_ALLOWED_ORIGINS = 'https://app.example.com';
+
+      const result = await handler(createAPIGatewayEvent({
+        httpMethod: 'OPTIONS',
+        path: '/api/replicate',
+        headers: {
+          Origin: 'https://app.example.com',
+          'Access-Control-Request-Method': 'POST',
+          'Access-Control-Request-Headers': 'content-type,traceparent'
+        }
+      }), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+      expect(result.headers['Access-Control-Allow-Headers'].split(', ')).toContain('traceparent');
+    });
+
+    test('traces each stage and returns the trace id', async () => {
+      const fileOutput = (url: string) => ({ url: () => new URL(url) });
+      replicateMock.queueSuccessResponse([
+        fileOutput('https://replicate.delivery/pbxt/a.png'),
+        fileOutput('https://replicate.delivery/pbxt/b.png')
+      ]);
+
+      const result = await handler(createReplicatePostEvent('owner/model', { prompt: 'a cat' }, 'test-api-key-123'), createLambdaContext());
+
+      expect(result.statusCode).toBe(200);
+      const root = exporter.spans.find(span => span.kind === 'server')!;
+      expect(result.headers?.['X-Trace-Id']).toBe(root.traceId);
+      expect(root).toMatchObject({
+        name: 'POST /api/replicate',
+        attributes: { 'http.route': 'POST /api/replicate', 'replicate.model': 'owner/model', 'http.response.status_code': 200 }
+      });
+      expect(exporter.spans.map(span => span.name)).toEqual([
+        'parse_body',
+        'validate_request',
+        'replicate.run',
+        'rehost_outputs',
+        'resolve_output_url',
+        'resolve_output_url',
+        'resolve_outputs',
+        'POST /api/replicate'
+      ]);
+      const resolve = exporter.spans.find(span => span.name === 'resolve_outputs')!;
+      const urlSpans = exporter.spans.filter(span => span.name === 'resolve_output_url');
+      expect(urlSpans.every(span => span.parentSpanId === resolve.spanId)).toBe(true);
+      expect(exporter.spans.find(span => span.name === 'replicate.run')?.kind).toBe('client');
+    });
+
+    test('continues an incoming traceparent', async () => {
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+      const event = createAPIGatewayEvent({
+        httpMethod: 'GET',
+        path: '/health',
+        headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` }
+      });
+
+      const result = await handler(event, createLambdaContext());
+
+      expect(result.headers?.['X-Trace-Id']).toBe(traceId);
+      expect(exporter.spans[0]).toMatchObject({ name: 'GET /health', traceId, parentSpanId: '00f067aa0ba902b7' });
+    });
+
+    test('marks failed requests as errors', async () => {
+      replicateMock.queueErrorResponse({ message: 'Boom', status: 500 });
+
+      await handler(createReplicatePostEvent('owner/model', {}, 'test-api-key-123'), createLambdaContext());
+
+      expect(exporter.spans.find(span => span.name === 'replicate.run')?.status).toEqual({ code: 'error', message: 'Boom' });
+      expect(exporter.spans.find(span => span.kind === 'server')?.status.code).toBe('error');
+    });
+
+    test('adds no header when disabled', async () => {
+      delete process.env.TRACING_ENABLED;
+
+      const result = await handler(createAPIGatewayEvent({ httpMethod: 'GET', path: '/health' }), createLambdaContext());
+
+      expect(result.headers?.['X-Trace-Id']).toBeUndefined();
+      expect(exporter.spans).toHaveLength(0);
+    });
+  });
+
+  describe('CORS Headers', () => {
+    test('all responses include proper CORS headers', async () => {
+      const testCases = [
+        { method: 'GET', path: '/health', expectedStatus: 200 },
+        { method: 'GET', path: '/api/replicate', expectedStatus: 200 },
+        { method: 'OPTIONS', path: '/api/replicate', expectedStatus: 200 },
+        { method: 'GET', path: '/unknown', expectedStatus: 404 },
+        { method: 'POST', path: '/unknown', expectedStatus: 404 }
+      ];
+
+      for (const testCase of testCases) {
+        const event = createAPIGatewayEvent({
+          httpMethod: testCase.method as any,
+          path: testCase.path
+        });
+        const context = createLambdaContext();
+
+        const result = await handler(event, context);
+
+        expect(result.statusCode).toBe(testCase.expectedStatus);
+        expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
+        expect(result.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
+        expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization, Cache-Control, traceparent');
+        expect(result.headers?.['Content-Type']).toBe('application/json');
+      }
+    });
+
+    test('error responses maintain CORS headers', async () => {
+      const errorTestCases = [
+        {
+          description: 'Invalid JSON',
+          event: createAPIGatewayEvent({
+            httpMethod: 'POST',
+            path: '/api/replicate',
+            body: 'invalid json{'
+          }),
+          expectedStatus: 400
+        },
+        {
+          description: 'Missing model',
+          event: createAPIGatewayEvent({
+            httpMethod: 'POST',
+            path: '/api/replicate',
+            body: JSON.stringify({ apiKey: 'test' })
+          }),
+          expectedStatus: 400
+        },
+        {
+          description: 'Missing API key',
+          event: createAPIGatewayEvent({
+            httpMethod: 'POST',
+            path: '/api/replicate',
+            body: JSON.stringify({ model: 'owner/model' })
+          }),
+          expectedStatus: 400
+        }
+      ];
+
+      for (const testCase of errorTestCases) {
+        const context = createLambdaContext();
+        const result = await handler(testCase.event, context);
+
+        expect(result.statusCode).toBe(testCase.expectedStatus);
+        expect(result.headers?.['Access-Control-Allow-Origin']).toBe('*');
+        expect(result.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
+        expect(result.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization, Cache-Control, traceparent');
+        expect(result.headers?.['Content-Type']).toBe('application/json');
+      }
+    });
+
+    describe('with restricted origins', () => {
+      beforeEach(() => {
+        process.env.CORS_ALLOWED_ORIGINS = 'https://app.example.com,https://*.preview.example.com';
+      });
+
+      const originEvent = (origin: string, options: Parameters<typeof createAPIGatewayEvent>[0] = {}) =>
+        createAPIGatewayEvent({ ...options, headers: { ...options.headers, Origin: origin } });
+
+      test('echoes allowed origins on success and error responses', async () => {
+        replicateMock.queueSuccessResponse(['https://replicate.delivery/pbxt/out.png']);
+        const success = createReplicatePostEvent('owner/model', { prompt: 'a cat' }, 'test12345678');
+        success.headers = { ...success.headers, origin: 'https://pr-7.preview.example.com' };
+
+        const results = [
+          await handler(success, createLambdaContext()),
+          await handler(originEvent('https://app.example.com', { httpMethod: 'POST', path: '/api/replicate', body: '{' }), createLambdaContext()),
+          await handler(originEvent('https://app.example.com', { httpMethod: 'GET', path: '/unknown' }), createLambdaContext())
+        ];
+
+        expect(results.map(result => result.statusCode)).toEqual([200, 400, 404]);
+        expect(results[0].headers?.['Access-Control-Allow-Origin']).toBe('https://pr-7.preview.example.com');
+        for (const result of results.slice(1)) {
+          expect(result.headers?.['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+          expect(result.headers?.['Vary']).toBe('Origin');
+        }
+      });
+
+      test('omits CORS headers for disallowed origins', async () => {
+        const result = await handler(originEvent('https://evil.com', { httpMethod: 'GET', path: '/health' }), createLambdaContext());
+
+        expect(result.statusCode).toBe(200);
+        expect(result.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
+        expect(result.headers?.['Vary']).toBe('Origin');
+      });
+
+      test('answers preflights with Max-Age and refuses disallowed origins', async () => {
+        const allowed = await handler(originEvent('https://app.example.com', { httpMethod: 'OPTIONS', path: '/api/replicate' }), createLambdaContext());
+        const refused = await handler(originEvent('https://evil.com', { httpMethod: 'OPTIONS', path: '/api/replicate/predictions/abc123' }), createLambdaContext());
+
+        expect(allowed.statusCode).toBe(200);
+        expect(allowed.headers?.['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+        expect(allowed.headers?.['Access-Control-Max-Age']).toBe('600');
+        expect(refused.statusCode).toBe(403);
+        expect(refused.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
+      });
     });
   });
 });
\ No newline at end of file
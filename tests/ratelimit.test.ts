@@ -0,0 +1,163 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  parseRateLimitRules,
+  loadRateLimitRules,
+  hashCredential,
+  createMemoryRateLimitStore,
+  createDynamoRateLimitStore,
+  consumeRateLimit,
+  checkRateLimits,
+  rateLimitHeaders,
+  RateLimitRule,
+  RateLimitStore
+} from '../src/ratelimit';
+import { DynamoLocal } from './test-utils/dynamo-local';
+
+const rule: RateLimitRule = { key: 'ip', limit: 2, windowSeconds: 10 };
+
+describe('Rate Limiting', () => {
+  describe('parseRateLimitRules', () => {
+    test('parses rules', () => {
+      expect(parseRateLimitRules('[{"key":"ip","limit":5,"windowSeconds":60,"model":"owner/*"}]', 'test'))
+        .toEqual([{ key: 'ip', limit: 5, windowSeconds: 60, model: 'owner/*' }]);
+    });
+
+    test('rejects invalid rules', () => {
+      expect(() => parseRateLimitRules('{}', 'test')).toThrow('expected an array of rules');
+      expect(() => parseRateLimitRules('[{"key":"user","limit":1,"windowSeconds":1}]', 'test')).toThrow('"key" must be one of: ip, origin, credential');
+      expect(() => parseRateLimitRules('[{"key":"ip","limit":0,"windowSeconds":1}]', 'test')).toThrow('"limit" must be a positive integer');
+      expect(() => parseRateLimitRules('[{"key":"ip","limit":1}]', 'test')).toThrow('"windowSeconds" must be a positive number');
+    });
+
+    test('loads RATE_LIMITS from the environment', () => {
+      expect(loadRateLimitRules({})).toEqual([]);
+      expect(loadRateLimitRules({ RATE_LIMITS: '[{"key":"origin","limit":1,"windowSeconds":1}]' })).toHaveLength(1);
+    });
+  });
+
+  test('hashCredential never exposes the credential', () => {
+    const hash = hashCredential('r8_secretkey');
+    expect(hash).toHaveLength(32);
+    expect(hash).not.toContain('secret');
+    expect(hashCredential('r8_secretkey')).toBe(hash);
+  });
+
+  const storeSuites: Array<[string, () => RateLimitStore]> = [
+    ['memory store', () => createMemoryRateLimitStore()],
+    ['DynamoDB store', () => createDynamoRateLimitStore(new DynamoLocal(), 'rate-limits')]
+  ];
+
+  for (const [name, createStore] of storeSuites) {
+    describe(`consumeRateLimit with the ${name}`, () => {
+      test('allows up to the limit then rejects with retry timing', async () => {
+        const store = createStore();
+        const now = Date.now();
+
+        expect(await consumeRateLimit(store, 'k', rule, now)).toMatchObject({ allowed: true, remaining: 1 });
+        expect(await consumeRateLimit(store, 'k', rule, now)).toMatchObject({ allowed: true, remaining: 0 });
+
+        const rejected = await consumeRateLimit(store, 'k', rule, now);
+        expect(rejected).toMatchObject({ allowed: false, limit: 2, remaining: 0, retryAfterSeconds: 5, resetSeconds: 10 });
+      });
+
+      test('refills tokens over the window', async () => {
+        const store = createStore();
+        const now = Date.now();
+
+        await consumeRateLimit(store, 'k', rule, now);
+        await consumeRateLimit(store, 'k', rule, now);
+
+        expect((await consumeRateLimit(store, 'k', rule, now + 4000)).allowed).toBe(false);
+        expect((await consumeRateLimit(store, 'k', rule, now + 5000)).allowed).toBe(true);
+      });
+
+      test('keeps buckets separate per key', async () => {
+        const store = createStore();
+        const now = Date.now();
+
+        await consumeRateLimit(store, 'a', { ...rule, limit: 1 }, now);
+
+        expect((await consumeRateLimit(store, 'a', { ...rule, limit: 1 }, now)).allowed).toBe(false);
+        expect((await consumeRateLimit(store, 'b', { ...rule, limit: 1 }, now)).allowed).toBe(true);
+      });
+    });
+  }
+
+  describe('DynamoDB store', () => {
+    test('retries when another instance updated the bucket first', async () => {
+      const dynamo = new DynamoLocal();
+      const store = createDynamoRateLimitStore(dynamo, 'rate-limits');
+      const now = Date.now();
+      await consumeRateLimit(store, 'k', rule, now);
+
+      // Another instance takes the last token between our read and write
+      const originalGet = dynamo.get.bind(dynamo);
+      let raced = false;
+      dynamo.get = async (params) => {
+        const result = await originalGet(params);
+        if (!raced) {
+          raced = true;
+          dynamo.overwrite('rate-limits', { pk: 'k', tokens: 0, updatedAt: now + 1, expiresAt: 0 });
+        }
+        return result;
+      };
+
+      const result = await consumeRateLimit(store, 'k', rule, now + 1);
+      expect(result.allowed).toBe(false);
+    });
+
+    test('stores a TTL attribute for idle bucket cleanup', async () => {
+      const dynamo = new DynamoLocal();
+      await consumeRateLimit(createDynamoRateLimitStore(dynamo, 'rate-limits'), 'k', rule);
+
+      const { Item } = await dynamo.get({ TableName: 'rate-limits', Key: { pk: 'k' } });
+      expect(Item?.expiresAt).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    test('surfaces errors other than condition failures', async () => {
+      const store = createDynamoRateLimitStore({
+        get: async () => ({}),
+        put: async () => { throw new Error('ProvisionedThroughputExceeded'); }
+      }, 'rate-limits');
+
+      await expect(consumeRateLimit(store, 'k', rule)).rejects.toThrow('ProvisionedThroughputExceeded');
+    });
+  });
+
+  describe('checkRateLimits', () => {
+    test('applies model-scoped rules only to matching models', async () => {
+      const store = createMemoryRateLimitStore();
+      const rules: RateLimitRule[] = [{ key: 'credential', limit: 1, windowSeconds: 60, model: 'black-forest-labs/*' }];
+      const identity = { credential: 'abc' };
+
+      await checkRateLimits(store, rules, identity, 'black-forest-labs/flux-pro');
+
+      expect((await checkRateLimits(store, rules, identity, 'black-forest-labs/flux-pro')).allowed).toBe(false);
+      expect((await checkRateLimits(store, rules, identity, 'meta/llama')).allowed).toBe(true);
+    });
+
+    test('skips rules without an identity value', async () => {
+      const store = createMemoryRateLimitStore();
+      const rules: RateLimitRule[] = [{ key: 'origin', limit: 1, windowSeconds: 60 }];
+
+      await checkRateLimits(store, rules, {}, 'owner/model');
+      expect((await checkRateLimits(store, rules, {}, 'owner/model')).allowed).toBe(true);
+    });
+
+    test('builds 429 headers', async () => {
+      const store = createMemoryRateLimitStore();
+      const rules: RateLimitRule[] = [{ key: 'ip', limit: 1, windowSeconds: 60 }];
+      const now = Date.now();
+      await checkRateLimits(store, rules, { ip: '1.2.3.4' }, 'owner/model', now);
+
+      const result = await checkRateLimits(store, rules, { ip: '1.2.3.4' }, 'owner/model', now);
+
+      expect(rateLimitHeaders(result)).toEqual({
+        'Retry-After': '60',
+        'RateLimit-Limit': '1',
+        'RateLimit-Remaining': '0',
+        'RateLimit-Reset': '60'
+      });
+    });
+  });
+});
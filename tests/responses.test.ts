@@ -1,13 +1,17 @@
 import { describe, test, expect } from 'bun:test';
 import { 
   ok, 
+  accepted,
+  eventStream,
+  eventStreamHeaders,
   badRequest, 
   unauthorized, 
   notFound, 
   internalServerError, 
   corsPreflightResponse, 
   customError,
-  createResponse 
+  createResponse,
+  getCorsHeaders
 } from '../src/responses';
 
 describe('Response Helpers', () => {
@@ -17,7 +21,7 @@ describe('Response Helpers', () => {
     expect(response.statusCode).toBe(200);
     expect(response.headers?.['Access-Control-Allow-Origin']).toBe('*');
     expect(response.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
-    expect(response.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization');
+    expect(response.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization, Cache-Control, traceparent');
     expect(response.headers?.['Content-Type']).toBe('application/json');
     expect(response.body).toBe('{"message":"test"}');
   });
@@ -43,6 +47,31 @@ describe('Response Helpers', () => {
     expect(JSON.parse(response.body)).toEqual(data);
   });
 
+  test('accepted creates 202 response', () => {
+    const data = { id: 'abc123', status: 'starting' };
+    const response = accepted(data);
+    
+    expect(response.statusCode).toBe(202);
+    expect(JSON.parse(response.body)).toEqual(data);
+  });
+
+  test('eventStream creates text/event-stream response with CORS headers', () => {
+    const response = eventStream('event: done\ndata: {}\n\n');
+    
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toBe('event: done\ndata: {}\n\n');
+    expect(response.headers?.['Content-Type']).toBe('text/event-stream');
+    expect(response.headers?.['Cache-Control']).toBe('no-cache');
+    expect(response.headers?.['Access-Control-Allow-Origin']).toBe('*');
+  });
+
+  test('eventStreamHeaders combines CORS and streaming headers', () => {
+    const headers = eventStreamHeaders();
+    
+    expect(headers['Content-Type']).toBe('text/event-stream');
+    expect(headers['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
+  });
+
   test('badRequest creates 400 response with error only', () => {
     const response = badRequest('Invalid input');
     
@@ -82,9 +111,9 @@ describe('Response Helpers', () => {
     
     expect(response.statusCode).toBe(404);
     const body = JSON.parse(response.body);
-    expect(body.message).toBe('Route not found');
-    expect(body.error).toBe('Not Found');
-    expect(body.statusCode).toBe(404);
+    expect(body.code).toBe('NOT_FOUND');
+    expect(body.error).toBe('Route not found');
+    expect(body.timestamp).toBeString();
   });
 
   test('internalServerError creates 500 response with error only', () => {
@@ -125,7 +154,7 @@ describe('Response Helpers', () => {
     expect(response.body).toBe('');
     expect(response.headers?.['Access-Control-Allow-Origin']).toBe('*');
     expect(response.headers?.['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
-    expect(response.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization');
+    expect(response.headers?.['Access-Control-Allow-Headers']).toBe('Content-Type, Authorization, Cache-Control, traceparent');
   });
 
   test('customError creates response with custom status code', () => {
@@ -156,13 +185,15 @@ describe('Response Helpers', () => {
       const response1 = createResponse(200, { test: true }, {}, 'https://app1.com');
       expect(response1.headers?.['Access-Control-Allow-Origin']).toBe('https://app1.com');
       
-      // Test with disallowed origin - should fall back to first allowed origin
+      // Test with disallowed origin - should get no CORS headers
       const response2 = createResponse(200, { test: true }, {}, 'https://evil.com');
-      expect(response2.headers?.['Access-Control-Allow-Origin']).toBe('https://app1.com');
+      expect(response2.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
+      expect(response2.headers?.['Access-Control-Allow-Methods']).toBeUndefined();
+      expect(response2.headers?.['Vary']).toBe('Origin');
       
-      // Test with no origin - should default to wildcard
+      // Test with no origin - not a CORS request, so nothing to allow
       const response3 = createResponse(200, { test: true });
-      expect(response3.headers?.['Access-Control-Allow-Origin']).toBe('*');
+      expect(response3.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
     } finally {
       // Restore original environment
       if (originalEnv) {
@@ -172,4 +203,44 @@ describe('Response Helpers', () => {
       }
     }
   });
-});
\ No newline at end of file
+
+  test('corsPreflightResponse refuses disallowed origins', () => {
+    const originalEnv = process.env.CORS_ALLOWED_ORIGINS;
+    process.env.CORS_ALLOWED_ORIGINS = 'https://app1.com';
+
+    try {
+      const allowed = corsPreflightResponse('https://app1.com');
+      expect(allowed.statusCode).toBe(200);
+      expect(allowed.headers?.['Access-Control-Allow-Origin']).toBe('https://app1.com');
+      expect(allowed.headers?.['Access-Control-Max-Age']).toBe('600');
+      expect(allowed.headers?.['Access-Control-Expose-Headers']).toBeUndefined();
+
+      const refused = corsPreflightResponse('https://evil.com');
+      expect(refused.statusCode).toBe(403);
+      expect(JSON.parse(refused.body).error).toBe('Origin not allowed');
+      expect(refused.headers?.['Access-Control-Allow-Origin']).toBeUndefined();
+    } finally {
+      if (originalEnv) {
+        process.env.CORS_ALLOWED_ORIGINS = originalEnv;
+      } else {
+        delete process.env.CORS_ALLOWED_ORIGINS;
+      }
+    }
+  });
+
+  test('credentialed CORS echoes the origin and exposes proxy headers', () => {
+    process.env.CORS_ALLOW_CREDENTIALS = 'true';
+    process.env.CORS_ALLOWED_ORIGINS = 'https://app1.com';
+
+    try {
+      const headers = getCorsHeaders('https://app1.com');
+      expect(headers['Access-Control-Allow-Origin']).toBe('https://app1.com');
+      expect(headers['Access-Control-Allow-Credentials']).toBe('true');
+      expect(headers['Access-Control-Expose-Headers']).toContain('X-Proxy-Cache');
+      expect(headers['Vary']).toBe('Origin');
+    } finally {
+      delete process.env.CORS_ALLOW_CREDENTIALS;
+      delete process.env.CORS_ALLOWED_ORIGINS;
+    }
+  });
+});
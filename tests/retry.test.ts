@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'bun:test';
+import { loadRetryPolicy, getRetryAfterMs, retryDelay, isRetryableError, withRetry, RetryPolicy, RetryEvent } from '../src/retry';
+
+const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10, retryableStatuses: [429, 503] };
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`status ${status}`), { response: new Response(null, { status, headers }) });
+
+describe('Retry policy', () => {
+  test('loadRetryPolicy reads the environment', () => {
+    expect(loadRetryPolicy({})).toEqual({ maxAttempts: 3, baseDelayMs: 250, maxDelayMs: 5000, retryableStatuses: [503] });
+    expect(loadRetryPolicy({
+      REPLICATE_RETRY_ATTEMPTS: '1',
+      REPLICATE_RETRY_BASE_DELAY: '100ms',
+      REPLICATE_RETRY_MAX_DELAY: '1s',
+      REPLICATE_RETRY_STATUSES: '429, 500'
+    })).toEqual({ maxAttempts: 1, baseDelayMs: 100, maxDelayMs: 1000, retryableStatuses: [429, 500] });
+  });
+
+  test('loadRetryPolicy rejects invalid settings', () => {
+    expect(() => loadRetryPolicy({ REPLICATE_RETRY_ATTEMPTS: '0' })).toThrow('REPLICATE_RETRY_ATTEMPTS must be a whole number of at least 1, got "0"');
+    expect(() => loadRetryPolicy({ REPLICATE_RETRY_STATUSES: '429,5xx' })).toThrow('REPLICATE_RETRY_STATUSES must list HTTP error statuses, got "5xx"');
+  });
+
+  test('isRetryableError checks the status list', () => {
+    expect(isRetryableError(httpError(503), policy)).toBe(true);
+    expect(isRetryableError({ status: 429 }, policy)).toBe(true);
+    expect(isRetryableError(httpError(422), policy)).toBe(false);
+    expect(isRetryableError(new Error('network down'), policy)).toBe(false);
+  });
+
+  test('getRetryAfterMs reads seconds and HTTP dates', () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    expect(getRetryAfterMs(httpError(429, { 'Retry-After': '3' }), now)).toBe(3000);
+    expect(getRetryAfterMs(httpError(429, { 'Retry-After': new Date(now + 5000).toUTCString() }), now)).toBe(5000);
+    expect(getRetryAfterMs(httpError(429, { 'Retry-After': 'soon' }), now)).toBeUndefined();
+    expect(getRetryAfterMs(httpError(429), now)).toBeUndefined();
+  });
+
+  test('retryDelay jitters under an exponential cap and honors Retry-After', () => {
+    const wide: RetryPolicy = { ...policy, baseDelayMs: 100, maxDelayMs: 300 };
+    expect(retryDelay(1, wide, undefined, () => 1)).toBe(100);
+    expect(retryDelay(2, wide, undefined, () => 1)).toBe(200);
+    expect(retryDelay(3, wide, undefined, () => 1)).toBe(300);
+    expect(retryDelay(3, wide, undefined, () => 0.5)).toBe(150);
+    expect(retryDelay(1, wide, 2000, () => 1)).toBe(2000);
+  });
+
+  describe('withRetry', () => {
+    test('retries transient failures until the call succeeds', async () => {
+      const retries: RetryEvent[] = [];
+      let calls = 0;
+
+      const result = await withRetry(async (attempt) => {
+        calls++;
+        if (attempt < 3) throw httpError(503);
+        return 'done';
+      }, { policy, onRetry: (event) => retries.push(event) });
+
+      expect(result).toBe('done');
+      expect(calls).toBe(3);
+      expect(retries.map(retry => retry.attempt)).toEqual([2, 3]);
+    });
+
+    test('stops at maxAttempts and on non-retryable errors', async () => {
+      let calls = 0;
+      await expect(withRetry(async () => { calls++; throw httpError(503); }, { policy })).rejects.toThrow('status 503');
+      expect(calls).toBe(3);
+
+      calls = 0;
+      await expect(withRetry(async () => { calls++; throw httpError(422); }, { policy })).rejects.toThrow('status 422');
+      expect(calls).toBe(1);
+    });
+
+    test('respects canRetry', async () => {
+      let calls = 0;
+      await expect(withRetry(async () => { calls++; throw httpError(503); }, { policy, canRetry: () => false })).rejects.toThrow();
+      expect(calls).toBe(1);
+    });
+
+    test('does not retry past the deadline', async () => {
+      let calls = 0;
+      const call = async () => { calls++; throw httpError(429, { 'Retry-After': '10' }); };
+
+      await expect(withRetry(call, { policy, deadline: Date.now() + 1000 })).rejects.toThrow('status 429');
+      expect(calls).toBe(1);
+    });
+
+    test('rethrows the last error when aborted during backoff', async () => {
+      const controller = new AbortController();
+      let calls = 0;
+      const call = async () => {
+        calls++;
+        setTimeout(() => controller.abort(), 5);
+        throw httpError(429, { 'Retry-After': '10' });
+      };
+
+      await expect(withRetry(call, { policy, signal: controller.signal })).rejects.toThrow('status 429');
+      expect(calls).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import Replicate from 'replicate';
+import { extractInputSchema, validateModelInput, preloadInputSchemas, clearInputSchemaCache, getInputSchema } from '../src/schemas';
+import { ReplicateMock } from './test-utils/replicate-mock';
+import { fluxOpenApiSchema } from './test-utils/schemas';
+
+describe('Input Schemas', () => {
+  const schema = extractInputSchema(fluxOpenApiSchema);
+
+  describe('extractInputSchema', () => {
+    test('resolves enum references and keeps ranges', () => {
+      expect(schema.required).toEqual(['prompt']);
+      expect(schema.properties.aspect_ratio).toEqual({ type: 'string', enum: ['1:1', '16:9', '9:16'] });
+      expect(schema.properties.num_outputs).toEqual({ type: 'integer', minimum: 1, maximum: 4 });
+      expect(schema.properties.image_urls).toEqual({ type: 'array', items: { type: 'string' } });
+    });
+
+    test('accepts an already extracted Input schema', () => {
+      const input = extractInputSchema(fluxOpenApiSchema.components.schemas.Input);
+      expect(input.properties.prompt).toEqual({ type: 'string' });
+    });
+  });
+
+  describe('validateModelInput', () => {
+    test('accepts valid input', () => {
+      const result = validateModelInput(schema, { prompt: 'a cat', num_outputs: 2, aspect_ratio: '16:9', guidance: 3.5 });
+      expect(result).toEqual({ errors: [], warnings: [] });
+    });
+
+    test('reports missing required fields', () => {
+      expect(validateModelInput(schema, {}).errors).toEqual([{ path: 'prompt', message: 'Is required' }]);
+    });
+
+    test('reports type, enum and range errors per field', () => {
+      const result = validateModelInput(schema, {
+        prompt: 'a cat',
+        num_outputs: 1.5,
+        aspect_ratio: '4:3',
+        guidance: 12,
+        image_urls: ['https://example.com/a.png', 3]
+      });
+
+      expect(result.errors).toEqual([
+        { path: 'num_outputs', message: 'Expected integer', expected: 'integer' },
+        { path: 'aspect_ratio', message: 'Must be one of: 1:1, 16:9, 9:16', allowed: ['1:1', '16:9', '9:16'] },
+        { path: 'guidance', message: 'Must be >= 0 and <= 10', minimum: 0, maximum: 10 },
+        { path: 'image_urls[1]', message: 'Expected string', expected: 'string' }
+      ]);
+    });
+
+    test('warns about unknown keys in lenient mode', () => {
+      const result = validateModelInput(schema, { prompt: 'a cat', num_output: 2 });
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([{ path: 'num_output', message: 'Is not a known input for this model' }]);
+    });
+
+    test('rejects unknown keys in strict mode', () => {
+      const result = validateModelInput(schema, { prompt: 'a cat', num_output: 2 }, true);
+      expect(result.errors).toEqual([{ path: 'num_output', message: 'Is not a known input for this model' }]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    test('honours exclusive bounds', () => {
+      const exclusive = extractInputSchema({ properties: { top_p: { type: 'number', exclusiveMinimum: 0, maximum: 1 } } });
+      expect(validateModelInput(exclusive, { top_p: 0 }).errors).toHaveLength(1);
+      expect(validateModelInput(exclusive, { top_p: 0.5 }).errors).toHaveLength(0);
+    });
+  });
+
+  describe('getInputSchema', () => {
+    let replicateMock: ReplicateMock;
+    const replicate = () => new Replicate({ auth: 'test12345678' });
+
+    beforeEach(() => {
+      replicateMock = new ReplicateMock();
+      clearInputSchemaCache();
+    });
+
+    afterEach(() => {
+      replicateMock.restore();
+      clearInputSchemaCache();
+    });
+
+    test('fetches the latest version schema once and caches it', async () => {
+      replicateMock.setModelSchema('black-forest-labs/flux-schnell', fluxOpenApiSchema);
+
+      const first = await getInputSchema(replicate(), 'black-forest-labs/flux-schnell', { ttlMs: 60000 });
+      const second = await getInputSchema(replicate(), 'black-forest-labs/flux-schnell', { ttlMs: 60000 });
+
+      expect(first).toEqual(schema);
+      expect(second).toBe(first!);
+      expect(replicateMock.getRequests().map(r => r.route)).toEqual(['/models/black-forest-labs/flux-schnell']);
+    });
+
+    test('fetches pinned versions from the version route', async () => {
+      replicateMock.setModelSchema('owner/model', fluxOpenApiSchema, 'abc123');
+
+      const result = await getInputSchema(replicate(), 'owner/model:abc123', { ttlMs: 60000 });
+
+      expect(result).toEqual(schema);
+      expect(replicateMock.getRequests()[0].route).toBe('/models/owner/model/versions/abc123');
+    });
+
+    test('re-fetches unpinned models after the TTL', async () => {
+      replicateMock.setModelSchema('owner/model', fluxOpenApiSchema);
+
+      await getInputSchema(replicate(), 'owner/model', { ttlMs: 0 });
+      await getInputSchema(replicate(), 'owner/model', { ttlMs: 0 });
+
+      expect(replicateMock.getRequests()).toHaveLength(2);
+    });
+
+    test('returns undefined when the schema cannot be loaded', async () => {
+      expect(await getInputSchema(replicate(), 'owner/missing', { ttlMs: 60000 })).toBeUndefined();
+    });
+
+    test('uses preloaded schemas without calling Replicate', async () => {
+      preloadInputSchemas({ 'owner/model': fluxOpenApiSchema });
+
+      const result = await getInputSchema(replicate(), 'owner/model', { ttlMs: 0 });
+
+      expect(result).toEqual(schema);
+      expect(replicateMock.getRequests()).toHaveLength(0);
+    });
+  });
+});
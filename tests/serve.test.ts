@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseServeArgs, parseEnvFile, createEnvLoader, startDevServer, formatRoutes, DevServer, ServeOptions } from '../src/serve';
+import { MOCK_IMAGE_OUTPUT } from '../src/mock';
+
+const baseOptions = (overrides: Partial<ServeOptions> = {}): ServeOptions => ({
+  port: 0,
+  host: '127.0.0.1',
+  envFile: '.env.missing',
+  mock: false,
+  watch: false,
+  ...overrides
+});
+
+describe('parseServeArgs', () => {
+  test('uses defaults', () => {
+    expect(parseServeArgs([], {})).toEqual({ port: 3000, host: '127.0.0.1', envFile: '.env', mock: false, watch: true });
+  });
+
+  test('falls back to PORT', () => {
+    expect(parseServeArgs([], { PORT: '8080' }).port).toBe(8080);
+  });
+
+  test('parses flags with separate and inline values', () => {
+    const options = parseServeArgs(
+      ['-p', '4000', '--host=0.0.0.0', '--env-file', '.env.local', '--cors-origins=http://localhost:5173', '--log-level', 'info', '--mock', '--no-watch'],
+      {}
+    );
+
+    expect(options).toEqual({
+      port: 4000,
+      host: '0.0.0.0',
+      envFile: '.env.local',
+      corsOrigins: 'http://localhost:5173',
+      logLevel: 'info',
+      mock: true,
+      watch: false
+    });
+  });
+
+  test('rejects bad input', () => {
+    expect(() => parseServeArgs(['--port', 'abc'], {})).toThrow('Invalid port: abc');
+    expect(() => parseServeArgs(['--log-level', 'loud'], {})).toThrow('Invalid log level: loud');
+    expect(() => parseServeArgs(['--host'], {})).toThrow('Missing value for --host');
+    expect(() => parseServeArgs(['--verbose'], {})).toThrow('Unknown option: --verbose');
+  });
+});
+
+describe('parseEnvFile', () => {
+  test('parses comments, exports and quotes', () => {
+    const vars = parseEnvFile([
+      '# Local settings',
+      'REPLICATE_API_KEY=r8_abc123',
+      'export AUTH_MODE=token',
+      'CORS_ALLOWED_ORIGINS="http://localhost:5173, http://localhost:3001"',
+      "LOG_REDACT_PATHS='input.image'",
+      'MULTILINE="line1\\nline2"',
+      'LOG_LEVEL=info # quieter',
+      'not a variable'
+    ].join('\n'));
+
+    expect(vars).toEqual({
+      REPLICATE_API_KEY: 'r8_abc123',
+      AUTH_MODE: 'token',
+      CORS_ALLOWED_ORIGINS: 'http://localhost:5173, http://localhost:3001',
+      LOG_REDACT_PATHS: 'input.image',
+      MULTILINE: 'line1\nline2',
+      LOG_LEVEL: 'info'
+    });
+  });
+});
+
+describe('createEnvLoader', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'replicate-proxy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps shell variables, applies flags and drops removed keys on reload', () => {
+    const envFile = join(dir, '.env');
+    const env: NodeJS.ProcessEnv = { LOG_LEVEL: 'error' };
+    writeFileSync(envFile, 'LOG_LEVEL=debug\nMODEL_ALLOWLIST=owner/*\nCORS_ALLOWED_ORIGINS=https://file.example.com');
+    const load = createEnvLoader(baseOptions({ envFile, corsOrigins: 'http://localhost:5173' }), env);
+
+    load();
+    expect(env).toEqual({ LOG_LEVEL: 'error', MODEL_ALLOWLIST: 'owner/*', CORS_ALLOWED_ORIGINS: 'http://localhost:5173' });
+
+    writeFileSync(envFile, 'REPLICATE_TIMEOUT=1000');
+    load();
+    expect(env).toEqual({ LOG_LEVEL: 'error', REPLICATE_TIMEOUT: '1000', CORS_ALLOWED_ORIGINS: 'http://localhost:5173' });
+  });
+});
+
+describe('startDevServer', () => {
+  let devServer: DevServer | undefined;
+  let dir: string;
+  const lines: string[] = [];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'replicate-proxy-'));
+    lines.length = 0;
+  });
+
+  afterEach(async () => {
+    await devServer?.close();
+    devServer = undefined;
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.CORS_ALLOWED_ORIGINS;
+  });
+
+  test('prints its routes', async () => {
+    devServer = await startDevServer(baseOptions(), line => lines.push(line));
+
+    expect(lines[0]).toBe(`Replicate proxy listening on ${devServer.url}`);
+    expect(lines[1]).toBe(formatRoutes(devServer.url));
+    expect(lines[1]).toContain(`POST    ${devServer.url}/api/replicate`);
+
+    const response = await fetch(`${devServer.url}/health`);
+    expect(response.status).toBe(200);
+  });
+
+  test('serves canned outputs in mock mode', async () => {
+    devServer = await startDevServer(baseOptions({ mock: true }), line => lines.push(line));
+    const post = (body: object) => fetch(`${devServer!.url}/api/replicate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'black-forest-labs/flux-schnell', apiKey: 'offline-key', input: { prompt: 'a cat' }, ...body })
+    });
+
+    expect(lines[0]).toContain('(mock mode: no calls reach Replicate)');
+
+    const sync = await post({});
+    expect(await sync.json()).toEqual([MOCK_IMAGE_OUTPUT]);
+
+    const stream = await post({ mode: 'stream' });
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+    expect(await stream.text()).toContain('event: done');
+
+    const created = await (await post({ mode: 'async' })).json();
+    expect(created.status).toBe('starting');
+    const polled = await (await fetch(`${devServer.url}${created.urls.get}`, { headers: { Authorization: 'Bearer offline-key' } })).json();
+    expect(polled).toMatchObject({ id: created.id, status: 'succeeded', output: [MOCK_IMAGE_OUTPUT] });
+  });
+
+  test('reloads the env file when it changes', async () => {
+    const envFile = join(dir, '.env');
+    writeFileSync(envFile, 'CORS_ALLOWED_ORIGINS=https://one.example.com');
+    devServer = await startDevServer(baseOptions({ envFile, watch: true }), line => lines.push(line));
+    const preflight = (origin: string) => fetch(`${devServer!.url}/api/replicate`, { method: 'OPTIONS', headers: { Origin: origin } });
+
+    expect((await preflight('https://two.example.com')).status).toBe(403);
+
+    writeFileSync(envFile, 'CORS_ALLOWED_ORIGINS=https://two.example.com');
+    for (let attempt = 0; attempt < 40 && !lines.includes(`Reloaded ${envFile}`); attempt++) {
+      await Bun.sleep(50);
+    }
+
+    expect(lines).toContain(`Reloaded ${envFile}`);
+    expect((await preflight('https://two.example.com')).status).toBe(200);
+  });
+});
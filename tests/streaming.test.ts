@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import Replicate from 'replicate';
+import { formatServerSentEvent, openPredictionStream, collectStream } from '../src/streaming';
+import { ReplicateMock } from './test-utils/replicate-mock';
+
+describe('Streaming', () => {
+  let replicateMock: ReplicateMock;
+  const replicate = () => new Replicate({ auth: 'test12345678' });
+
+  beforeEach(() => {
+    replicateMock = new ReplicateMock();
+  });
+
+  afterEach(() => {
+    replicateMock.restore();
+  });
+
+  describe('formatServerSentEvent', () => {
+    test('formats event and data fields', () => {
+      expect(formatServerSentEvent('output', 'Hello')).toBe('event: output\ndata: Hello\n\n');
+    });
+
+    test('includes the event id when present', () => {
+      expect(formatServerSentEvent('output', 'Hi', '1:0')).toBe('id: 1:0\nevent: output\ndata: Hi\n\n');
+    });
+
+    test('splits multi-line data into several data fields', () => {
+      expect(formatServerSentEvent('logs', 'a\nb')).toBe('event: logs\ndata: a\ndata: b\n\n');
+    });
+  });
+
+  describe('openPredictionStream', () => {
+    test('forwards Replicate events in order', async () => {
+      replicateMock.queueStreamEvents([
+        { event: 'output', data: 'Hello', id: '1' },
+        { event: 'output', data: ' world', id: '2' },
+        { event: 'done', data: '{}' }
+      ]);
+
+      const stream = await openPredictionStream(replicate(), 'meta/llama', { prompt: 'hi' }, { timeoutMs: 1000 });
+      const body = await collectStream(stream);
+
+      expect(body).toBe(
+        'id: 1\nevent: output\ndata: Hello\n\n' +
+        'id: 2\nevent: output\ndata:  world\n\n' +
+        'event: done\ndata: {}\n\n'
+      );
+      expect(replicateMock.getStreamCalls()[0].options.input).toEqual({ prompt: 'hi' });
+    });
+
+    test('appends a done event when Replicate does not send one', async () => {
+      replicateMock.queueStreamEvents([{ event: 'output', data: 'Hi' }]);
+
+      const body = await collectStream(await openPredictionStream(replicate(), 'meta/llama', {}, { timeoutMs: 1000 }));
+
+      expect(body.endsWith('event: done\ndata: {}\n\n')).toBe(true);
+    });
+
+    test('rejects when the stream fails before the first event', async () => {
+      replicateMock.queueStreamError({ message: 'Prediction does not support streaming', status: 422 });
+
+      await expect(
+        openPredictionStream(replicate(), 'owner/image-model', {}, { timeoutMs: 1000 })
+      ).rejects.toThrow('Prediction does not support streaming');
+    });
+
+    test('turns mid-stream failures into error and done events', async () => {
+      replicateMock.queueStreamEvents([
+        { event: 'output', data: 'Hel' },
+        new Error('Connection reset')
+      ]);
+
+      const body = await collectStream(await openPredictionStream(replicate(), 'meta/llama', {}, { timeoutMs: 1000 }));
+
+      expect(body).toBe(
+        'event: output\ndata: Hel\n\n' +
+        'event: error\ndata: Connection reset\n\n' +
+        'event: done\ndata: {}\n\n'
+      );
+    });
+
+    test('cancels the prediction when the stream times out', async () => {
+      replicateMock.queuePendingStream([{ event: 'output', data: 'Hi' }], { id: 'stream123' });
+
+      const body = await collectStream(await openPredictionStream(replicate(), 'meta/llama', {}, { timeoutMs: 20 }));
+
+      expect(body).toContain('event: error\ndata: Replicate stream timed out after 20ms\n\n');
+      expect(replicateMock.getRequests().filter(r => r.method === 'POST').map(r => r.route)).toEqual([
+        '/models/meta/llama/predictions',
+        '/predictions/stream123/cancel'
+      ]);
+    });
+
+    test('cancels the prediction when the client disconnects', async () => {
+      replicateMock.queuePendingStream([{ event: 'output', data: 'Hi' }], { id: 'stream123' });
+      const controller = new AbortController();
+
+      const stream = await openPredictionStream(replicate(), 'meta/llama', {}, { timeoutMs: 1000, signal: controller.signal });
+      await stream.next();
+      controller.abort();
+      await collectStream(stream);
+
+      expect(replicateMock.getRequests().map(r => r.route)).toContain('/predictions/stream123/cancel');
+    });
+
+    test('retries a transient failure while creating the prediction', async () => {
+      replicateMock.queuePredictionError({ message: 'Service Unavailable', status: 503 });
+      replicateMock.queueStreamEvents([{ event: 'output', data: 'Hi' }, { event: 'done', data: '{}' }], { id: 'stream123' });
+      const attempts: number[] = [];
+
+      const body = await collectStream(await openPredictionStream(replicate(), 'meta/llama', {}, {
+        timeoutMs: 1000,
+        retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1, retryableStatuses: [503] },
+        onRetry: ({ attempt }) => attempts.push(attempt)
+      }));
+
+      expect(body).toBe('event: output\ndata: Hi\n\nevent: done\ndata: {}\n\n');
+      expect(attempts).toEqual([2]);
+      expect(replicateMock.getRequests().map(r => r.route)).toEqual(['/models/meta/llama/predictions', '/models/meta/llama/predictions']);
+    });
+
+    test('does not cancel a prediction that streamed to the end', async () => {
+      replicateMock.queueStreamEvents([{ event: 'output', data: 'Hi' }, { event: 'done', data: '{}' }], { id: 'stream123' });
+
+      await collectStream(await openPredictionStream(replicate(), 'meta/llama', {}, { timeoutMs: 1000 }));
+
+      expect(replicateMock.getRequests().map(r => r.route)).toEqual(['/models/meta/llama/predictions']);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { DynamoUsageClient } from '../../src/usage';
+
+const conditionalCheckFailed = () => {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+};
+
+// In-memory stand-in for DynamoDBDocument covering the expressions the rate limiter and usage store use
+export class DynamoLocal implements DynamoUsageClient {
+  private tables = new Map<string, Map<string, Record<string, any>>>();
+  public puts = 0;
+
+  private table(name: string) {
+    if (!this.tables.has(name)) this.tables.set(name, new Map());
+    return this.tables.get(name)!;
+  }
+
+  async get(params: { TableName: string; Key: Record<string, any> }) {
+    const item = this.table(params.TableName).get(params.Key.pk);
+    return { Item: item && { ...item } };
+  }
+
+  async put(params: {
+    TableName: string;
+    Item: Record<string, any>;
+    ConditionExpression?: string;
+    ExpressionAttributeValues?: Record<string, any>;
+  }) {
+    const table = this.table(params.TableName);
+    const existing = table.get(params.Item.pk);
+
+    if (params.ConditionExpression === 'attribute_not_exists(pk)' && existing) {
+      throw conditionalCheckFailed();
+    }
+    if (params.ConditionExpression === 'updatedAt = :previous' &&
+        existing?.updatedAt !== params.ExpressionAttributeValues?.[':previous']) {
+      throw conditionalCheckFailed();
+    }
+
+    this.puts++;
+    table.set(params.Item.pk, { ...params.Item });
+    return {};
+  }
+
+  // Supports "ADD a :x, b :y SET c = :z" update expressions
+  async update(params: {
+    TableName: string;
+    Key: Record<string, any>;
+    UpdateExpression: string;
+    ExpressionAttributeValues: Record<string, any>;
+  }) {
+    const table = this.table(params.TableName);
+    const item = { ...table.get(params.Key.pk), ...params.Key };
+    const values = params.ExpressionAttributeValues;
+
+    for (const [, action, clauses] of params.UpdateExpression.matchAll(/(ADD|SET) ((?:(?!ADD |SET ).)+)/g)) {
+      for (const clause of clauses.split(',')) {
+        const [name, value] = clause.trim().split(/\s*=\s*|\s+/);
+        item[name] = action === 'ADD' ? (item[name] ?? 0) + values[value] : values[value];
+      }
+    }
+
+    table.set(params.Key.pk, item);
+    return {};
+  }
+
+  async delete(params: { TableName: string; Key: Record<string, any>; ReturnValues?: 'ALL_OLD' }) {
+    const table = this.table(params.TableName);
+    const existing = table.get(params.Key.pk);
+    table.delete(params.Key.pk);
+    return { Attributes: params.ReturnValues === 'ALL_OLD' && existing ? { ...existing } : undefined };
+  }
+
+  // Simulate a write from another Lambda instance
+  overwrite(tableName: string, item: Record<string, any>) {
+    this.table(tableName).set(item.pk, { ...item });
+  }
+}
@@ -86,4 +86,30 @@ export function createReplicatePostEvent(model: string, input: any, apiKey: stri
     path: '/api/replicate',
     body: JSON.stringify({ model, input, apiKey })
   });
-}
\ No newline at end of file
+}
+
+// A JSON POST to any proxy route, with the client token as a bearer header when given
+export function createJsonPostEvent(body: object, options: { path?: string; token?: string } = {}): APIGatewayProxyEvent {
+  return createAPIGatewayEvent({
+    httpMethod: 'POST',
+    path: options.path ?? '/api/replicate',
+    headers: options.token ? { Authorization: `Bearer ${options.token}` } : {},
+    body: JSON.stringify(body)
+  });
+}
+
+// Encode a form the way API Gateway delivers binary bodies: base64 with isBase64Encoded set
+export async function createMultipartPostEvent(form: FormData, path: string = '/api/replicate'): Promise<APIGatewayProxyEvent> {
+  const request = new Request('http://localhost', { method: 'POST', body: form });
+  const contentType = request.headers.get('content-type')!;
+  const body = Buffer.from(await request.arrayBuffer()).toString('base64');
+  return {
+    ...createAPIGatewayEvent({
+      httpMethod: 'POST',
+      path,
+      body,
+      headers: { 'Content-Type': contentType }
+    }),
+    isBase64Encoded: true
+  };
+}
@@ -5,66 +5,282 @@ interface MockResponse {
   success: boolean;
   data?: any;
   error?: any;
+  // Reports this prediction to the progress callback and never settles until aborted
+  pending?: any;
+  // Like a create sent with Prefer: wait, a blocking run() reports the pending prediction only after this long
+  blocksMs?: number;
+  // Reported to the progress callback as the settled prediction before data is returned
+  prediction?: any;
 }
 
+interface MockRequest {
+  route: string;
+  method: string;
+  data?: any;
+  auth?: string;
+  prefer?: string;
+}
+
+const createMockError = (error: any) => {
+  const mockError = new Error(error?.message || 'Mocked Replicate error');
+  (mockError as any).status = error?.status || 500;
+  (mockError as any).detail = error?.detail;
+  // Like ApiError, expose the HTTP response so callers can read headers such as Retry-After
+  if (error?.headers) {
+    (mockError as any).response = new Response(null, { status: (mockError as any).status, headers: error.headers });
+  }
+  return mockError;
+};
+
 class ReplicateMock {
   private responseQueue: MockResponse[] = [];
+  private predictionQueue: MockResponse[] = [];
+  private predictions = new Map<string, any>();
+  private models = new Map<string, { version: string; openapi_schema: any }>();
+  private requests: MockRequest[] = [];
+  private streamQueue: MockResponse[] = [];
+  private runAuths: string[] = [];
   private runSpy: any;
+  private requestSpy: any;
+  private streamSpy: any;
 
   constructor() {
     this.setupMock();
   }
 
   private setupMock() {
+    const mock = this;
     this.runSpy = spyOn(Replicate.prototype, 'run').mockImplementation(
-      async (model: string, options: { input: any }) => {
-        if (this.responseQueue.length === 0) {
+      async function (
+        this: Replicate,
+        model: string,
+        options: { input: any; signal?: AbortSignal; wait?: { mode: string } },
+        progress?: (prediction: any) => void
+      ) {
+        mock.runAuths.push(this.auth);
+        if (mock.responseQueue.length === 0) {
           throw new Error(
             'ReplicateMock: No response queued. Call queueResponse() before running test.'
           );
         }
 
-        const response = this.responseQueue.shift()!;
-        
+        const response = mock.responseQueue.shift()!;
+
+        if (response.pending) {
+          if (response.blocksMs && options.wait?.mode !== 'poll') {
+            await new Promise(resolve => setTimeout(resolve, response.blocksMs));
+          }
+          mock.predictions.set(response.pending.id, response.pending);
+          progress?.(response.pending);
+          return new Promise((_, reject) => {
+            options.signal?.addEventListener('abort', () => reject(new Error('Prediction aborted')));
+          });
+        }
+
+        if (response.prediction) {
+          progress?.(response.prediction);
+        }
+
         if (!response.success) {
-          const error = new Error(response.error?.message || 'Mocked Replicate error');
-          (error as any).status = response.error?.status || 500;
-          (error as any).detail = response.error?.detail;
-          throw error;
+          throw createMockError(response.error);
         }
 
         return response.data;
       }
     );
+
+    this.streamSpy = spyOn(Replicate.prototype, 'stream').mockImplementation(
+      function (this: Replicate, model: string, options: { input: any; signal?: AbortSignal }) {
+        const replicate = this;
+        const streamQueue = mock.streamQueue;
+        return (async function* () {
+          if (streamQueue.length === 0) {
+            throw new Error(
+              'ReplicateMock: No stream queued. Call queueStreamEvents() before running test.'
+            );
+          }
+
+          const response = streamQueue.shift()!;
+          if (!response.success) {
+            throw createMockError(response.error);
+          }
+
+          // Like stream(), create the prediction through the client before reading its events
+          if (response.prediction) {
+            mock.predictionQueue.push({ success: true, data: response.prediction });
+            await replicate.predictions.create({ model, input: options.input });
+          }
+
+          for (const event of response.data) {
+            if (event instanceof Error) {
+              throw event;
+            }
+            yield event;
+          }
+
+          if (response.pending) {
+            await new Promise((_, reject) => {
+              const onAbort = () => reject(new Error('The operation was aborted'));
+              if (options.signal?.aborted) return onAbort();
+              options.signal?.addEventListener('abort', onAbort);
+            });
+          }
+        })() as any;
+      }
+    );
+
+    // Fake the Replicate HTTP API used by predictions.create/get/cancel
+    this.requestSpy = spyOn(Replicate.prototype, 'request').mockImplementation(
+      async function (this: Replicate, route: string | URL, options: { method?: string; data?: any; headers?: Record<string, string> }) {
+        const path = String(route);
+        const method = options.method || 'GET';
+        mock.requests.push({ route: path, method, data: options.data, auth: this.auth, prefer: options.headers?.Prefer });
+
+        if (method === 'POST' && /\/predictions$/.test(path)) {
+          if (mock.predictionQueue.length === 0) {
+            throw new Error(
+              'ReplicateMock: No prediction queued. Call queuePrediction() before running test.'
+            );
+          }
+
+          const response = mock.predictionQueue.shift()!;
+          if (!response.success) {
+            throw createMockError(response.error);
+          }
+
+          mock.predictions.set(response.data.id, response.data);
+          return new Response(JSON.stringify(response.data));
+        }
+
+        if (method === 'POST' && path === '/files') {
+          const id = `file${mock.requests.length}`;
+          return new Response(JSON.stringify({ id, urls: { get: `https://api.replicate.com/v1/files/${id}` } }));
+        }
+
+        const modelMatch = path.match(/^\/models\/([^/]+\/[^/]+)(?:\/versions\/([^/]+))?$/);
+        if (modelMatch) {
+          const model = mock.models.get(modelMatch[1]);
+          if (!model || (modelMatch[2] && modelMatch[2] !== model.version)) {
+            throw createMockError({ message: 'Model not found', status: 404 });
+          }
+          const version = { id: model.version, openapi_schema: model.openapi_schema };
+          return new Response(JSON.stringify(modelMatch[2] ? version : { latest_version: version }));
+        }
+
+        const match = path.match(/^\/predictions\/([^/]+)(\/cancel)?$/);
+        const prediction = match && mock.predictions.get(match[1]);
+        if (!prediction) {
+          throw createMockError({ message: 'Prediction not found', status: 404 });
+        }
+
+        if (match[2] && method === 'POST') {
+          prediction.status = 'canceled';
+        }
+        return new Response(JSON.stringify(prediction));
+      }
+    );
+  }
+
+  queueSuccessResponse(data: any, prediction?: Record<string, any>) {
+    this.responseQueue.push({
+      success: true,
+      data,
+      ...(prediction && { prediction: { status: 'succeeded', output: data, ...prediction } })
+    });
+  }
+
+  queueErrorResponse(error: { message?: string; status?: number; detail?: string; headers?: Record<string, string> }, prediction?: Record<string, any>) {
+    this.responseQueue.push({
+      success: false,
+      error,
+      ...(prediction && { prediction: { status: 'failed', ...prediction } })
+    });
+  }
+
+  queuePendingResponse(prediction: Record<string, any>, blocksMs?: number) {
+    this.responseQueue.push({ success: true, pending: { status: 'processing', ...prediction }, blocksMs });
+  }
+
+  // Events are yielded in order; an Error in the list is thrown mid-stream
+  queueStreamEvents(events: Array<{ event: string; data: string; id?: string } | Error>, prediction?: Record<string, any>) {
+    this.streamQueue.push({
+      success: true,
+      data: events,
+      ...(prediction && { prediction: { status: 'starting', output: null, logs: '', error: null, ...prediction } })
+    });
+  }
+
+  // Yields the events, then stays open until the stream is aborted
+  queuePendingStream(events: Array<{ event: string; data: string; id?: string }>, prediction: Record<string, any>) {
+    this.streamQueue.push({
+      success: true,
+      data: events,
+      pending: true,
+      prediction: { status: 'processing', output: null, logs: '', error: null, ...prediction }
+    });
+  }
+
+  queueStreamError(error: { message?: string; status?: number; detail?: string; headers?: Record<string, string> }) {
+    this.streamQueue.push({ success: false, error });
+  }
+
+  queuePrediction(prediction: Record<string, any>) {
+    this.predictionQueue.push({
+      success: true,
+      data: { status: 'starting', output: null, logs: '', error: null, ...prediction }
+    });
+  }
+
+  queuePredictionError(error: { message?: string; status?: number; detail?: string; headers?: Record<string, string> }) {
+    this.predictionQueue.push({ success: false, error });
+  }
+
+  setPrediction(prediction: Record<string, any>) {
+    this.predictions.set(prediction.id, prediction);
+  }
+
+  // Serves GET /models/{owner}/{name} and its version route
+  setModelSchema(model: string, openapiSchema: any, version: string = 'v1') {
+    this.models.set(model, { version, openapi_schema: openapiSchema });
   }
 
-  queueSuccessResponse(data: any) {
-    this.responseQueue.push({ success: true, data });
+  getRequests(): MockRequest[] {
+    return this.requests;
   }
 
-  queueErrorResponse(error: { message?: string; status?: number; detail?: string }) {
-    this.responseQueue.push({ success: false, error });
+  getStreamCalls(): Array<{ model: string; options: { input: any } }> {
+    return this.streamSpy.mock.calls.map((call: any[]) => ({ model: call[0], options: call[1] }));
   }
 
   getCallCount(): number {
     return this.runSpy.mock.calls.length;
   }
 
-  getLastCall(): { model: string; options: { input: any } } | undefined {
+  getLastCall(): { model: string; options: { input: any }; auth: string } | undefined {
     const calls = this.runSpy.mock.calls;
     if (calls.length === 0) return undefined;
     const lastCall = calls[calls.length - 1];
-    return { model: lastCall[0], options: lastCall[1] };
+    return { model: lastCall[0], options: lastCall[1], auth: this.runAuths[calls.length - 1] };
   }
 
   reset() {
     this.responseQueue = [];
+    this.predictionQueue = [];
+    this.streamQueue = [];
+    this.predictions.clear();
+    this.models.clear();
+    this.requests = [];
+    this.runAuths = [];
     this.runSpy.mockClear();
+    this.requestSpy.mockClear();
+    this.streamSpy.mockClear();
   }
 
   restore() {
     this.runSpy.mockRestore();
+    this.requestSpy.mockRestore();
+    this.streamSpy.mockRestore();
   }
 }
 
-export { ReplicateMock };
\ No newline at end of file
+export { ReplicateMock };
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+
+interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+// MinIO-style stand-in: serves Replicate file downloads and accepts signed S3 PUTs, all in memory
+export class S3Local {
+  public objects = new Map<string, StoredObject>();
+  public downloads: string[] = [];
+  private files = new Map<string, { body: Buffer; contentType?: string }>();
+
+  constructor(public endpoint: string = 'http://minio.local:9000') {}
+
+  // Serve a file as if Replicate delivered it
+  addFile(url: string, body: Buffer | string, contentType?: string) {
+    this.files.set(url, { body: Buffer.from(body), contentType });
+  }
+
+  fetch = (async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = String(input);
+    const method = init.method || 'GET';
+
+    if (url.startsWith(this.endpoint)) {
+      const key = decodeURIComponent(new URL(url).pathname.slice(1));
+      if (method === 'PUT') {
+        const headers = init.headers as Record<string, string>;
+        const body = Buffer.from(init.body as Uint8Array);
+        if (!headers.Authorization?.startsWith('AWS4-HMAC-SHA256 Credential=')) {
+          return new Response('<Error><Code>AccessDenied</Code></Error>', { status: 403 });
+        }
+        if (headers['x-amz-content-sha256'] !== createHash('sha256').update(body).digest('hex')) {
+          return new Response('<Error><Code>XAmzContentSHA256Mismatch</Code></Error>', { status: 400 });
+        }
+        this.objects.set(key, { body, contentType: headers['content-type'] });
+        return new Response(null, { status: 200 });
+      }
+
+      const object = this.objects.get(key);
+      return object
+        ? new Response(new Uint8Array(object.body), { headers: { 'Content-Type': object.contentType } })
+        : new Response('<Error><Code>NoSuchKey</Code></Error>', { status: 404 });
+    }
+
+    this.downloads.push(url);
+    const file = this.files.get(url);
+    if (!file) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(new Uint8Array(file.body), {
+      headers: {
+        'Content-Length': String(file.body.length),
+        ...(file.contentType && { 'Content-Type': file.contentType })
+      }
+    });
+  }) as typeof fetch;
+}
@@ -0,0 +1,27 @@
+// Trimmed openapi_schema in the shape Replicate publishes for model versions
+export const fluxOpenApiSchema = {
+  openapi: '3.0.2',
+  components: {
+    schemas: {
+      Input: {
+        type: 'object',
+        title: 'Input',
+        required: ['prompt'],
+        properties: {
+          prompt: { type: 'string', title: 'Prompt', 'x-order': 0 },
+          num_outputs: { type: 'integer', title: 'Num Outputs', default: 1, minimum: 1, maximum: 4, 'x-order': 1 },
+          guidance: { type: 'number', title: 'Guidance', default: 3.5, minimum: 0, maximum: 10, 'x-order': 2 },
+          aspect_ratio: { allOf: [{ $ref: '#/components/schemas/aspect_ratio' }], default: '1:1', 'x-order': 3 },
+          disable_safety_checker: { type: 'boolean', default: false, 'x-order': 4 },
+          image_urls: { type: 'array', items: { type: 'string', format: 'uri' }, 'x-order': 5 }
+        }
+      },
+      aspect_ratio: {
+        type: 'string',
+        enum: ['1:1', '16:9', '9:16'],
+        title: 'aspect_ratio',
+        description: 'An enumeration.'
+      }
+    }
+  }
+};
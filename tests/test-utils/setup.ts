@@ -0,0 +1,15 @@
+// The proxy caches its config per cold start; tests change the environment, so each one starts fresh
+// and gets the environment back as it found it
+import { afterEach, beforeEach } from 'bun:test';
+import { resetConfig } from '../../src/config';
+
+let env: NodeJS.ProcessEnv;
+
+beforeEach(() => {
+  env = { ...process.env };
+  resetConfig();
+});
+
+afterEach(() => {
+  process.env = env;
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import {
+  mintClientToken,
+  verifyClientToken,
+  isValidClientToken,
+  isModelAllowedByToken,
+  consumeTokenPrediction,
+  resetTokenPredictionCounts,
+  predictionOwnerTag,
+  isPredictionOwner
+} from '../src/tokens';
+
+const secret = 'test-client-token-secret';
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('Client Tokens', () => {
+  describe('mintClientToken / verifyClientToken', () => {
+    test('round-trips claims', () => {
+      const token = mintClientToken({ sub: 'user-1', exp: inOneHour(), models: ['owner/model'], maxPredictions: 3 }, secret);
+
+      const result = verifyClientToken(token, secret);
+
+      expect(result.isValid).toBe(true);
+      expect(result.claims?.sub).toBe('user-1');
+      expect(result.claims?.models).toEqual(['owner/model']);
+      expect(result.claims?.maxPredictions).toBe(3);
+      expect(result.claims?.iat).toBeDefined();
+    });
+
+    test('rejects tokens signed with another secret', () => {
+      const token = mintClientToken({ sub: 'user-1', exp: inOneHour() }, 'other-secret');
+
+      expect(verifyClientToken(token, secret)).toEqual({
+        isValid: false, statusCode: 401, error: 'Invalid client token signature'
+      });
+    });
+
+    test('rejects tampered payloads', () => {
+      const [header, , signature] = mintClientToken({ sub: 'user-1', exp: inOneHour() }, secret).split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: 'admin', exp: inOneHour() })).toString('base64url');
+
+      expect(verifyClientToken(`${header}.${forged}.${signature}`, secret).error).toBe('Invalid client token signature');
+    });
+
+    test('rejects expired tokens', () => {
+      const token = mintClientToken({ sub: 'user-1', exp: 1000 }, secret);
+
+      expect(verifyClientToken(token, secret)).toEqual({
+        isValid: false, statusCode: 401, error: 'Client token has expired'
+      });
+    });
+
+    test('rejects tokens without a subject', () => {
+      const token = mintClientToken({ exp: inOneHour() } as any, secret);
+
+      expect(verifyClientToken(token, secret).error).toBe('Client token must include sub and exp claims');
+    });
+
+    test('rejects malformed tokens', () => {
+      expect(verifyClientToken('not-a-token', secret).error).toBe('Malformed client token');
+    });
+  });
+
+  describe('isValidClientToken', () => {
+    test('checks the three-segment JWT shape', () => {
+      expect(isValidClientToken(mintClientToken({ sub: 'u', exp: inOneHour() }, secret))).toBe(true);
+      expect(isValidClientToken('r8_abcdef123456')).toBe(false);
+      expect(isValidClientToken('a.b')).toBe(false);
+    });
+  });
+
+  describe('isModelAllowedByToken', () => {
+    test('allows any model when the token has no model scope', () => {
+      expect(isModelAllowedByToken({ sub: 'u', exp: 0 }, 'owner/model')).toBe(true);
+    });
+
+    test('matches exact names and owner wildcards', () => {
+      const claims = { sub: 'u', exp: 0, models: ['meta/llama', 'black-forest-labs/*'] };
+
+      expect(isModelAllowedByToken(claims, 'meta/llama')).toBe(true);
+      expect(isModelAllowedByToken(claims, 'black-forest-labs/flux-schnell')).toBe(true);
+      expect(isModelAllowedByToken(claims, 'meta/llama-2')).toBe(false);
+      expect(isModelAllowedByToken(claims, 'other/model')).toBe(false);
+    });
+  });
+
+  describe('isPredictionOwner', () => {
+    test('accepts the tag minted for the same subject and prediction only', () => {
+      const tag = predictionOwnerTag('abc123', 'user-1', secret);
+
+      expect(isPredictionOwner('abc123', { sub: 'user-1', exp: 0 }, tag, secret)).toBe(true);
+      expect(isPredictionOwner('abc123', { sub: 'user-2', exp: 0 }, tag, secret)).toBe(false);
+      expect(isPredictionOwner('other456', { sub: 'user-1', exp: 0 }, tag, secret)).toBe(false);
+      expect(isPredictionOwner('abc123', { sub: 'user-1', exp: 0 }, undefined, secret)).toBe(false);
+    });
+  });
+
+  describe('consumeTokenPrediction', () => {
+    beforeEach(() => {
+      resetTokenPredictionCounts();
+    });
+
+    test('allows up to maxPredictions per token', () => {
+      const claims = { sub: 'u', exp: 123, iat: 1, maxPredictions: 2 };
+
+      expect(consumeTokenPrediction(claims)).toBe(true);
+      expect(consumeTokenPrediction(claims)).toBe(true);
+      expect(consumeTokenPrediction(claims)).toBe(false);
+    });
+
+    test('is unlimited without maxPredictions', () => {
+      const claims = { sub: 'u', exp: 123 };
+      for (let i = 0; i < 5; i++) {
+        expect(consumeTokenPrediction(claims)).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import {
+  startRequestTrace,
+  parseTraceparent,
+  formatTraceparent,
+  loadTracingOptions,
+  createMemorySpanExporter,
+  createOtlpHttpExporter,
+  setSpanExporter,
+  getSpanExporter,
+  toOtlpPayload,
+  MemorySpanExporter,
+  TracingOptions
+} from '../src/tracing';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+describe('Tracing', () => {
+  let exporter: MemorySpanExporter;
+  const options: TracingOptions = { enabled: true, serviceName: 'test', exporterHeaders: {}, exporterTimeoutMs: 1000 };
+
+  beforeEach(() => {
+    exporter = createMemorySpanExporter();
+    setSpanExporter(exporter);
+  });
+
+  afterEach(() => {
+    setSpanExporter(undefined);
+  });
+
+  test('exports the request span and its children on finish', async () => {
+    const trace = startRequestTrace('POST', options);
+    const value = await trace.span.trace('parse_body', () => 42);
+    await trace.span.trace('replicate.run', async (child) => {
+      child.setAttributes({ attempt: 1 });
+    }, 'client');
+
+    expect(value).toBe(42);
+    expect(exporter.spans).toHaveLength(0);
+    await trace.finish();
+
+    const [parse, run, root] = exporter.spans;
+    expect(root).toMatchObject({ name: 'POST', kind: 'server', status: { code: 'unset' } });
+    expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(root.parentSpanId).toBeUndefined();
+    expect(parse).toMatchObject({ name: 'parse_body', kind: 'internal', traceId: root.traceId, parentSpanId: root.spanId });
+    expect(run).toMatchObject({ name: 'replicate.run', kind: 'client', attributes: { attempt: 1 } });
+    expect(run.endTime).toBeGreaterThanOrEqual(run.startTime);
+  });
+
+  test('marks failed child spans and rethrows', async () => {
+    const trace = startRequestTrace('POST', options);
+
+    await expect(trace.span.trace('replicate.run', async () => {
+      throw new Error('Boom');
+    })).rejects.toThrow('Boom');
+    await trace.finish();
+
+    expect(exporter.spans[0].status).toEqual({ code: 'error', message: 'Boom' });
+  });
+
+  test('continues an incoming trace', async () => {
+    const trace = startRequestTrace('GET', options, `00-${TRACE_ID}-${PARENT_ID}-01`);
+    await trace.finish();
+
+    expect(trace.span.traceId).toBe(TRACE_ID);
+    expect(exporter.spans[0]).toMatchObject({ traceId: TRACE_ID, parentSpanId: PARENT_ID });
+  });
+
+  test('keeps ids but exports nothing for unsampled parents', async () => {
+    const trace = startRequestTrace('GET', options, `00-${TRACE_ID}-${PARENT_ID}-00`);
+    await trace.finish();
+
+    expect(trace.span.traceId).toBe(TRACE_ID);
+    expect(exporter.spans).toHaveLength(0);
+  });
+
+  test('is a no-op when disabled or without an exporter', async () => {
+    const disabled = startRequestTrace('GET', { ...options, enabled: false });
+    expect(await disabled.span.trace('parse_body', () => 'ok')).toBe('ok');
+    await disabled.finish();
+    expect(disabled.span.traceId).toBe('');
+
+    setSpanExporter(undefined);
+    expect(startRequestTrace('GET', options).span.traceId).toBe('');
+    expect(exporter.spans).toHaveLength(0);
+  });
+});
+
+describe('parseTraceparent', () => {
+  test('parses valid headers', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({ traceId: TRACE_ID, spanId: PARENT_ID, sampled: true });
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, sampled: false })).toBe(`00-${TRACE_ID}-${PARENT_ID}-00`);
+  });
+
+  test('ignores malformed and all-zero ids', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('garbage')).toBeUndefined();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeUndefined();
+  });
+});
+
+describe('OTLP export', () => {
+  const span = {
+    traceId: TRACE_ID,
+    spanId: PARENT_ID,
+    name: 'POST /api/replicate',
+    kind: 'server' as const,
+    startTime: 1700000000000.5,
+    endTime: 1700000000120,
+    attributes: { 'http.response.status_code': 200, 'replicate.model': 'owner/model', cached: false, ratio: 0.5 },
+    status: { code: 'unset' as const }
+  };
+
+  test('encodes spans as OTLP JSON', () => {
+    const payload = toOtlpPayload([span], 'frontend-proxy');
+    const [encoded] = payload.resourceSpans[0].scopeSpans[0].spans;
+
+    expect(payload.resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'frontend-proxy' } }]);
+    expect(encoded).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      kind: 2,
+      startTimeUnixNano: '1700000000000500000',
+      endTimeUnixNano: '1700000000120000000',
+      status: { code: 0 }
+    });
+    expect(encoded.attributes).toEqual([
+      { key: 'http.response.status_code', value: { intValue: '200' } },
+      { key: 'replicate.model', value: { stringValue: 'owner/model' } },
+      { key: 'cached', value: { boolValue: false } },
+      { key: 'ratio', value: { doubleValue: 0.5 } }
+    ]);
+  });
+
+  test('posts spans to the collector', async () => {
+    const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}'));
+
+    try {
+      await createOtlpHttpExporter({ url: 'http://collector:4318/', serviceName: 'proxy', headers: { 'x-api-key': 'k' } }).export([span]);
+
+      const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('http://collector:4318/v1/traces');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'x-api-key': 'k' });
+      expect(JSON.parse(String(init.body))).toEqual(toOtlpPayload([span], 'proxy'));
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test('gives up on a collector that does not answer in time', async () => {
+    const fetchSpy = spyOn(globalThis, 'fetch').mockImplementation(((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      })) as unknown as typeof fetch);
+
+    try {
+      await expect(createOtlpHttpExporter({ url: 'http://collector:4318', serviceName: 'proxy', timeoutMs: 20 }).export([span]))
+        .rejects.toThrow('OTLP export timed out after 20ms');
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test('uses an OTLP exporter only when a collector URL is configured', () => {
+    expect(getSpanExporter({ enabled: true, serviceName: 'proxy', exporterHeaders: {}, exporterTimeoutMs: 1000 })).toBeUndefined();
+    const options = { enabled: true, serviceName: 'proxy', exporterUrl: 'http://collector:4318', exporterHeaders: {}, exporterTimeoutMs: 1000 };
+    expect(getSpanExporter(options)).toBe(getSpanExporter({ ...options }));
+  });
+});
+
+describe('loadTracingOptions', () => {
+  test('is disabled by default', () => {
+    expect(loadTracingOptions({})).toEqual({ enabled: false, serviceName: 'replicate-proxy', exporterUrl: undefined, exporterHeaders: {}, exporterTimeoutMs: 1000 });
+  });
+
+  test('reads the standard OTEL variables', () => {
+    expect(loadTracingOptions({
+      TRACING_ENABLED: 'true',
+      OTEL_SERVICE_NAME: 'frontend-proxy',
+      OTEL_EXPORTER_OTLP_ENDPOINT: 'https://otlp.example.com',
+      OTEL_EXPORTER_OTLP_HEADERS: 'x-honeycomb-team=abc%3D,x-env = prod',
+      OTEL_EXPORTER_OTLP_TIMEOUT: '250ms'
+    })).toEqual({
+      enabled: true,
+      serviceName: 'frontend-proxy',
+      exporterUrl: 'https://otlp.example.com',
+      exporterHeaders: { 'x-honeycomb-team': 'abc=', 'x-env': 'prod' },
+      exporterTimeoutMs: 250
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import Replicate from 'replicate';
+import { isMultipartRequest, isAllowedUploadType, parseMultipartRequest, resolveUploadedFiles, UploadLimits } from '../src/uploads';
+import { ReplicateMock } from './test-utils/replicate-mock';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01, 0x02]);
+const limits: UploadLimits = { maxFileSize: 1024, allowedTypes: ['image/*', 'audio/wav'], dataUriMaxSize: 16 };
+
+const encode = async (form: FormData) => {
+  const request = new Request('http://localhost', { method: 'POST', body: form });
+  // Read the boundary header before consuming the body
+  const contentType = request.headers.get('content-type')!;
+  return { body: Buffer.from(await request.arrayBuffer()), contentType };
+};
+
+describe('Uploads', () => {
+  test('isMultipartRequest requires a boundary', () => {
+    expect(isMultipartRequest('multipart/form-data; boundary=abc')).toBe(true);
+    expect(isMultipartRequest('multipart/form-data')).toBe(false);
+    expect(isMultipartRequest('application/json')).toBe(false);
+    expect(isMultipartRequest(undefined)).toBe(false);
+  });
+
+  test('isAllowedUploadType supports wildcards', () => {
+    expect(isAllowedUploadType('image/png', ['image/*'])).toBe(true);
+    expect(isAllowedUploadType('audio/wav', ['audio/wav'])).toBe(true);
+    expect(isAllowedUploadType('audio/mpeg', ['audio/wav'])).toBe(false);
+    expect(isAllowedUploadType('application/pdf', ['*/*'])).toBe(true);
+  });
+
+  describe('parseMultipartRequest', () => {
+    test('collects request fields, input JSON and file parts', async () => {
+      const form = new FormData();
+      form.append('model', 'owner/model');
+      form.append('apiKey', 'test12345678');
+      form.append('cache', 'true');
+      form.append('input', JSON.stringify({ prompt: 'a cat' }));
+      form.append('image', new Blob([PNG], { type: 'image/png' }), 'cat.png');
+      const { body, contentType } = await encode(form);
+
+      const result = await parseMultipartRequest(body, contentType, limits);
+
+      expect(result.body).toEqual({ model: 'owner/model', apiKey: 'test12345678', cache: true, input: { prompt: 'a cat' } });
+      expect(result.files).toEqual([{ field: 'image', filename: 'cat.png', contentType: 'image/png', body: PNG }]);
+    });
+
+    test('sniffs the type of octet-stream parts', async () => {
+      const form = new FormData();
+      form.append('image', new Blob([PNG], { type: 'application/octet-stream' }), 'upload');
+      const { body, contentType } = await encode(form);
+
+      const result = await parseMultipartRequest(body, contentType, limits);
+
+      expect(result.files?.[0].contentType).toBe('image/png');
+    });
+
+    test('rejects oversized files with 413', async () => {
+      const form = new FormData();
+      form.append('image', new Blob([PNG], { type: 'image/png' }), 'cat.png');
+      const { body, contentType } = await encode(form);
+
+      const result = await parseMultipartRequest(body, contentType, { ...limits, maxFileSize: 4 });
+
+      expect(result).toEqual({ error: 'File "image" exceeds the maximum size of 4 bytes', statusCode: 413 });
+    });
+
+    test('rejects disallowed types with 415', async () => {
+      const form = new FormData();
+      form.append('document', new Blob(['%PDF-1.4'], { type: 'application/pdf' }), 'doc.pdf');
+      const { body, contentType } = await encode(form);
+
+      const result = await parseMultipartRequest(body, contentType, limits);
+
+      expect(result).toEqual({ error: 'File "document" has unsupported type application/pdf', statusCode: 415 });
+    });
+
+    test('rejects invalid input JSON and unknown text fields', async () => {
+      const badInput = new FormData();
+      badInput.append('input', '[1, 2]');
+      const unknown = new FormData();
+      unknown.append('prompt', 'a cat');
+
+      const first = await encode(badInput);
+      const second = await encode(unknown);
+
+      expect((await parseMultipartRequest(first.body, first.contentType, limits)).error).toBe('The input field must be a JSON object');
+      expect((await parseMultipartRequest(second.body, second.contentType, limits)).error)
+        .toBe('Unexpected form field "prompt"; send input values in the input JSON field');
+    });
+
+    test('rejects malformed bodies', async () => {
+      const result = await parseMultipartRequest(Buffer.from('not multipart'), 'multipart/form-data; boundary=xyz', limits);
+      expect(result).toEqual({ error: 'Invalid multipart/form-data body', statusCode: 400 });
+    });
+  });
+
+  describe('resolveUploadedFiles', () => {
+    let replicateMock: ReplicateMock;
+
+    beforeEach(() => {
+      replicateMock = new ReplicateMock();
+    });
+
+    afterEach(() => {
+      replicateMock.restore();
+    });
+
+    test('inlines small files and uploads larger ones through the files API', async () => {
+      const large = Buffer.alloc(32, 1);
+      const input = await resolveUploadedFiles(new Replicate({ auth: 'test12345678' }), { prompt: 'a cat' }, [
+        { field: 'mask', filename: 'mask.png', contentType: 'image/png', body: PNG },
+        { field: 'image', filename: 'cat.png', contentType: 'image/png', body: large }
+      ], 16);
+
+      expect(input.prompt).toBe('a cat');
+      expect(input.mask).toBe(`data:image/png;base64,${PNG.toString('base64')}`);
+      expect(input.image).toMatch(/^https:\/\/api\.replicate\.com\/v1\/files\//);
+      const [upload] = replicateMock.getRequests();
+      expect(upload).toMatchObject({ route: '/files', method: 'POST', auth: 'test12345678' });
+    });
+  });
+});
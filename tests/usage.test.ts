@@ -0,0 +1,187 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  parseUsageQuotas,
+  parseUsagePrices,
+  loadUsageOptions,
+  getUsageSubject,
+  findModelPrice,
+  estimateCost,
+  getPredictTime,
+  usageKey,
+  checkUsageQuotas,
+  recordUsage,
+  trackPendingPrediction,
+  recordSettledPrediction,
+  getUsageReport,
+  usageQuotaMessage,
+  createMemoryUsageStore,
+  createDynamoUsageStore,
+  PriceTable,
+  UsageStore
+} from '../src/usage';
+import { DynamoLocal } from './test-utils/dynamo-local';
+
+const prices: PriceTable = {
+  hardware: { 'gpu-a100-large': 0.0014, 'gpu-t4': 0.000225 },
+  models: {
+    'black-forest-labs/flux-schnell': { perPrediction: 0.003 },
+    'meta/*': { hardware: 'gpu-a100-large' },
+    'meta/llama:abc': { perSecond: 0.01 }
+  },
+  default: { hardware: 'gpu-t4' }
+};
+
+// 2026-10-19T12:00:00Z
+const NOON = Date.UTC(2026, 9, 19, 12);
+
+describe('Usage accounting', () => {
+  describe('parseUsageQuotas', () => {
+    test('parses daily and monthly limits', () => {
+      expect(parseUsageQuotas('{"daily":{"predictions":50},"monthly":{"costUsd":20,"predictTimeSeconds":3600}}', 'test'))
+        .toEqual({ daily: { predictions: 50 }, monthly: { costUsd: 20, predictTimeSeconds: 3600 } });
+    });
+
+    test('rejects invalid quotas', () => {
+      expect(() => parseUsageQuotas('[]', 'test')).toThrow('Invalid usage quotas in test: expected an object');
+      expect(() => parseUsageQuotas('{"weekly":{}}', 'test')).toThrow('period "weekly" must be one of: daily, monthly');
+      expect(() => parseUsageQuotas('{"daily":{"tokens":1}}', 'test')).toThrow('"daily.tokens" must be one of: predictions, predictTimeSeconds, costUsd');
+      expect(() => parseUsageQuotas('{"daily":{"costUsd":-1}}', 'test')).toThrow('"daily.costUsd" must be a non-negative number');
+    });
+  });
+
+  describe('parseUsagePrices', () => {
+    test('parses models, hardware and a default', () => {
+      expect(parseUsagePrices(JSON.stringify(prices), 'test')).toEqual(prices);
+    });
+
+    test('rejects invalid prices', () => {
+      expect(() => parseUsagePrices('{"hardware":{"gpu-t4":"cheap"}}', 'test')).toThrow('"hardware" must map hardware names to non-negative USD per second');
+      expect(() => parseUsagePrices('{"models":{"owner/model":{"perSecond":-1}}}', 'test')).toThrow('"models.owner/model.perSecond" must be a non-negative number');
+      expect(() => parseUsagePrices('{"default":{"hardware":"gpu-h100"}}', 'test')).toThrow('"default.hardware" must name an entry in "hardware"');
+    });
+  });
+
+  test('loadUsageOptions turns tracking on with quotas', () => {
+    expect(loadUsageOptions({})).toEqual({ enabled: false, prices: {}, quotas: {} });
+    expect(loadUsageOptions({ USAGE_QUOTAS: '{"daily":{"predictions":5}}' }).enabled).toBe(true);
+    expect(loadUsageOptions({ USAGE_TRACKING: 'true' }).enabled).toBe(true);
+    expect(loadUsageOptions({ USAGE_TRACKING: 'false', USAGE_QUOTAS: '{"daily":{"predictions":5}}' }).enabled).toBe(false);
+  });
+
+  test('getUsageSubject uses the token subject or a hashed API key', () => {
+    expect(getUsageSubject({ sub: 'user-1', exp: 0 }, undefined)).toBe('user-1');
+    const subject = getUsageSubject(undefined, 'r8_secretkey');
+    expect(subject).toMatch(/^key:[0-9a-f]{32}$/);
+    expect(subject).not.toContain('secret');
+  });
+
+  describe('pricing', () => {
+    test('prefers pinned versions, then model names, then owner wildcards, then the default', () => {
+      expect(findModelPrice(prices, 'meta/llama:abc')).toEqual({ perSecond: 0.01 });
+      expect(findModelPrice(prices, 'meta/llama')).toEqual({ hardware: 'gpu-a100-large' });
+      expect(findModelPrice(prices, 'black-forest-labs/flux-schnell')).toEqual({ perPrediction: 0.003 });
+      expect(findModelPrice(prices, 'owner/model')).toEqual({ hardware: 'gpu-t4' });
+      expect(findModelPrice({}, 'owner/model')).toBeUndefined();
+    });
+
+    test('estimates cost from flat, per-second and hardware prices', () => {
+      expect(estimateCost(prices, 'black-forest-labs/flux-schnell', { predictions: 2, predictTimeSeconds: 10 })).toBeCloseTo(0.006);
+      expect(estimateCost(prices, 'meta/llama', { predictions: 1, predictTimeSeconds: 10 })).toBeCloseTo(0.014);
+      expect(estimateCost(prices, 'meta/llama:abc', { predictions: 1, predictTimeSeconds: 10 })).toBeCloseTo(0.1);
+      expect(estimateCost({}, 'owner/model', { predictions: 1, predictTimeSeconds: 10 })).toBe(0);
+    });
+
+    test('getPredictTime reads metrics.predict_time', () => {
+      expect(getPredictTime({ metrics: { predict_time: 2.5 } })).toBe(2.5);
+      expect(getPredictTime({})).toBe(0);
+      expect(getPredictTime(undefined)).toBe(0);
+    });
+  });
+
+  test('usageKey follows UTC days and months', () => {
+    expect(usageKey('user-1', 'daily', NOON)).toBe('usage:user-1:2026-10-19');
+    expect(usageKey('user-1', 'monthly', NOON)).toBe('usage:user-1:2026-10');
+  });
+
+  const storeSuites: Array<[string, () => UsageStore]> = [
+    ['memory store', () => createMemoryUsageStore()],
+    ['DynamoDB store', () => createDynamoUsageStore(new DynamoLocal(), 'usage')]
+  ];
+
+  for (const [name, createStore] of storeSuites) {
+    describe(`with the ${name}`, () => {
+      test('records usage into both periods', async () => {
+        const store = createStore();
+
+        await recordUsage(store, 'user-1', 'meta/llama', { predictions: 1, predictTimeSeconds: 10 }, prices, NOON);
+        await recordUsage(store, 'user-1', 'meta/llama', { predictions: 1, predictTimeSeconds: 5 }, prices, NOON);
+
+        for (const period of ['daily', 'monthly'] as const) {
+          const totals = await store.get(usageKey('user-1', period, NOON));
+          expect(totals).toMatchObject({ predictions: 2, predictTimeSeconds: 15 });
+          expect(totals!.costUsd).toBeCloseTo(0.021);
+        }
+        expect(await store.get(usageKey('user-2', 'daily', NOON))).toBeUndefined();
+      });
+
+      test('rejects once a quota is used up, with time until the period resets', async () => {
+        const store = createStore();
+        const quotas = { daily: { predictions: 2 }, monthly: { costUsd: 0.01 } };
+
+        expect(await checkUsageQuotas(store, 'user-1', quotas, NOON)).toEqual({ allowed: true });
+
+        await recordUsage(store, 'user-1', 'owner/model', { predictions: 2, predictTimeSeconds: 0 }, prices, NOON);
+        expect(await checkUsageQuotas(store, 'user-1', quotas, NOON)).toEqual({
+          allowed: false,
+          period: 'daily',
+          metric: 'predictions',
+          limit: 2,
+          used: 2,
+          retryAfterSeconds: 12 * 60 * 60
+        });
+
+        // The next day only the monthly spend counts
+        const tomorrow = NOON + 24 * 60 * 60 * 1000;
+        await recordUsage(store, 'user-1', 'meta/llama', { predictions: 1, predictTimeSeconds: 10 }, prices, tomorrow);
+        expect(await checkUsageQuotas(store, 'user-1', quotas, tomorrow)).toMatchObject({ allowed: false, period: 'monthly', metric: 'costUsd' });
+      });
+
+      test('charges a pending async prediction once it settles, only once', async () => {
+        const store = createStore();
+        await trackPendingPrediction(store, 'abc123', { subject: 'user-1', model: 'meta/llama' });
+
+        expect(await recordSettledPrediction(store, { id: 'abc123', status: 'processing' }, prices, NOON)).toBeUndefined();
+
+        const charged = await recordSettledPrediction(store, { id: 'abc123', status: 'succeeded', metrics: { predict_time: 10 } }, prices, NOON);
+        expect(charged).toMatchObject({ predictions: 0, predictTimeSeconds: 10 });
+        expect(await recordSettledPrediction(store, { id: 'abc123', status: 'succeeded', metrics: { predict_time: 10 } }, prices, NOON)).toBeUndefined();
+
+        expect(await store.get(usageKey('user-1', 'daily', NOON))).toMatchObject({ predictions: 0, predictTimeSeconds: 10 });
+      });
+    });
+  }
+
+  test('getUsageReport reports totals, limits and what remains', async () => {
+    const store = createMemoryUsageStore();
+    await recordUsage(store, 'user-1', 'black-forest-labs/flux-schnell', { predictions: 3, predictTimeSeconds: 4 }, prices, NOON);
+
+    const report = await getUsageReport(store, 'user-1', { daily: { predictions: 10 } }, NOON);
+
+    expect(report.subject).toBe('user-1');
+    expect(report.daily).toMatchObject({
+      period: '2026-10-19',
+      resetsAt: '2026-10-20T00:00:00.000Z',
+      predictions: 3,
+      predictTimeSeconds: 4,
+      limits: { predictions: 10 },
+      remaining: { predictions: 7 }
+    });
+    expect(report.daily.costUsd).toBeCloseTo(0.009);
+    expect(report.monthly).toMatchObject({ period: '2026-10', resetsAt: '2026-11-01T00:00:00.000Z', predictions: 3, limits: {}, remaining: {} });
+  });
+
+  test('usageQuotaMessage names the period and metric', () => {
+    expect(usageQuotaMessage({ allowed: false, period: 'daily', metric: 'costUsd' })).toBe('Daily spend quota exceeded');
+    expect(usageQuotaMessage({ allowed: false, period: 'monthly', metric: 'predictions' })).toBe('Monthly prediction quota exceeded');
+  });
+});
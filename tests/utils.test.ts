@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test';
-import { withTimeout, sanitizeForLogs, generateCorrelationId, isValidJsonSize } from '../src/utils';
+import { withTimeout, sanitizeForLogs, redact, generateCorrelationId, isValidJsonSize, resolveFileOutputs, getHeader, getBearerToken } from '../src/utils';
 
 describe('Utility Functions', () => {
   describe('withTimeout', () => {
@@ -20,6 +20,22 @@ describe('Utility Functions', () => {
       }
     });
 
+    test('calls onTimeout when the timeout fires', async () => {
+      const promise = new Promise(resolve => setTimeout(resolve, 200));
+      let timedOut = false;
+      
+      await expect(withTimeout(promise, 50, 'Timed out', () => { timedOut = true; })).rejects.toThrow('Timed out');
+      expect(timedOut).toBe(true);
+    });
+
+    test('does not call onTimeout when the promise settles first', async () => {
+      let timedOut = false;
+      
+      await withTimeout(Promise.resolve('done'), 20, 'Timed out', () => { timedOut = true; });
+      await new Promise(resolve => setTimeout(resolve, 40));
+      expect(timedOut).toBe(false);
+    });
+
     test('uses default timeout message', async () => {
       const promise = new Promise(resolve => setTimeout(resolve, 200));
       
@@ -72,6 +88,49 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('redact', () => {
+    test('replaces values at key paths at any depth', () => {
+      const result = redact({
+        apiKey: 'r8_abc',
+        headers: { Authorization: 'Bearer abc' },
+        input: { prompt: 'a cat', negative_prompt: 'blurry', seed: 42 },
+        batch: [{ apiKey: 'r8_def' }]
+      }, ['apiKey', 'headers.authorization', 'input.*prompt']);
+
+      expect(result).toEqual({
+        apiKey: '[REDACTED]',
+        headers: { Authorization: '[REDACTED]' },
+        input: { prompt: '[REDACTED]', negative_prompt: '[REDACTED]', seed: 42 },
+        batch: [{ apiKey: '[REDACTED]' }]
+      });
+    });
+
+    test('anchors dotted paths to their parent key', () => {
+      expect(redact({ prompt: 'kept', input: { prompt: 'hidden' } }, ['input.prompt']))
+        .toEqual({ prompt: 'kept', input: { prompt: '[REDACTED]' } });
+    });
+
+    test('scrubs credentials embedded in strings', () => {
+      expect(redact('Invalid token r8_abcdefghijklmnop', [])).toBe('Invalid token [REDACTED]');
+      expect(redact({ detail: 'Authorization: Bearer abc.def' }, [])).toEqual({ detail: 'Authorization: Bearer [REDACTED]' });
+    });
+
+    test('handles errors, cycles and deep nesting', () => {
+      const cyclic: any = { name: 'loop' };
+      cyclic.self = cyclic;
+
+      expect(redact(new Error('failed'), [])).toEqual({ name: 'Error', message: 'failed' });
+      expect(redact(cyclic, [])).toEqual({ name: 'loop', self: '[Circular]' });
+      expect(redact({ a: { b: { c: 1 } } }, [], 2)).toEqual({ a: { b: '[Truncated]' } });
+    });
+
+    test('does not modify the original value', () => {
+      const original = { apiKey: 'r8_abc' };
+      redact(original, ['apiKey']);
+      expect(original.apiKey).toBe('r8_abc');
+    });
+  });
+
   describe('generateCorrelationId', () => {
     test('generates unique IDs', () => {
       const id1 = generateCorrelationId();
@@ -113,4 +172,48 @@ describe('Utility Functions', () => {
       expect(isValidJsonSize(unicodeString, size - 1)).toBe(false);
     });
   });
+
+  describe('resolveFileOutputs', () => {
+    const fileOutput = (url: string) => ({ url: () => new URL(url) });
+
+    test('converts a single file output to its URL', async () => {
+      const result = await resolveFileOutputs(fileOutput('https://replicate.delivery/a.png'));
+      expect(String(result)).toBe('https://replicate.delivery/a.png');
+    });
+
+    test('converts file outputs inside arrays and keeps other items', async () => {
+      const result = await resolveFileOutputs([fileOutput('https://replicate.delivery/a.png'), 'text']);
+      expect(result.map(String)).toEqual(['https://replicate.delivery/a.png', 'text']);
+    });
+
+    test('returns plain values untouched', async () => {
+      expect(await resolveFileOutputs('hello')).toBe('hello');
+      expect(await resolveFileOutputs(null)).toBeNull();
+      expect(await resolveFileOutputs({ text: 'hi' })).toEqual({ text: 'hi' });
+    });
+  });
+
+  describe('getHeader', () => {
+    test('matches header names case-insensitively', () => {
+      expect(getHeader({ Origin: 'https://a.com' }, 'origin')).toBe('https://a.com');
+      expect(getHeader({ 'content-type': 'text/plain' }, 'Content-Type')).toBe('text/plain');
+    });
+
+    test('returns undefined for missing headers', () => {
+      expect(getHeader({}, 'origin')).toBeUndefined();
+      expect(getHeader(undefined, 'origin')).toBeUndefined();
+    });
+  });
+
+  describe('getBearerToken', () => {
+    test('extracts bearer tokens', () => {
+      expect(getBearerToken({ Authorization: 'Bearer r8_abc12345' })).toBe('r8_abc12345');
+      expect(getBearerToken({ authorization: 'bearer r8_abc12345' })).toBe('r8_abc12345');
+    });
+
+    test('ignores other authorization schemes', () => {
+      expect(getBearerToken({ Authorization: 'Basic dXNlcjpwYXNz' })).toBeUndefined();
+      expect(getBearerToken({})).toBeUndefined();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  createMemoryWebhookStore,
+  createCallbackWebhookSink,
+  defaultWebhookStore,
+  getWebhookSink,
+  setWebhookSink
+} from '../src/webhooks';
+
+const secret = 'whsec_' + Buffer.from('test-signing-secret').toString('base64');
+const body = JSON.stringify({ id: 'abc123', status: 'succeeded', output: ['https://replicate.delivery/a.png'] });
+const now = 1_700_000_000_000;
+const timestamp = String(now / 1000);
+
+describe('Webhooks', () => {
+  describe('verifyWebhookSignature', () => {
+    const sign = (payload: string = body) => `v1,${signWebhookPayload('msg_1', timestamp, payload, secret)}`;
+
+    test('accepts a correctly signed payload', () => {
+      const result = verifyWebhookSignature({
+        id: 'msg_1', timestamp, signature: sign(), body, secret, toleranceSeconds: 300, now
+      });
+      expect(result).toEqual({ isValid: true });
+    });
+
+    test('accepts any matching entry in a multi-signature header', () => {
+      const result = verifyWebhookSignature({
+        id: 'msg_1', timestamp, signature: `v1,bm90LXRoaXMtb25l ${sign()}`, body, secret, toleranceSeconds: 300, now
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    test('rejects tampered bodies', () => {
+      const result = verifyWebhookSignature({
+        id: 'msg_1', timestamp, signature: sign(), body: body.replace('succeeded', 'failed'), secret, toleranceSeconds: 300, now
+      });
+      expect(result).toEqual({ isValid: false, statusCode: 401, error: 'Invalid webhook signature' });
+    });
+
+    test('rejects replays outside the tolerance window', () => {
+      const result = verifyWebhookSignature({
+        id: 'msg_1', timestamp, signature: sign(), body, secret, toleranceSeconds: 300, now: now + 301_000
+      });
+      expect(result.statusCode).toBe(401);
+      expect(result.error).toBe('Webhook timestamp is outside the tolerance window');
+    });
+
+    test('rejects missing headers', () => {
+      const result = verifyWebhookSignature({ id: 'msg_1', body, secret, toleranceSeconds: 300, now });
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
+  describe('sinks', () => {
+    const event = {
+      webhookId: 'msg_1',
+      timestamp: 1700000000,
+      prediction: JSON.parse(body),
+      receivedAt: new Date(now).toISOString()
+    };
+
+    afterEach(() => {
+      setWebhookSink(undefined);
+      defaultWebhookStore.clear();
+    });
+
+    test('memory store keeps the latest event per prediction', async () => {
+      const store = createMemoryWebhookStore();
+      await store.sink(event);
+      await store.sink({ ...event, webhookId: 'msg_2' });
+
+      expect(store.get('abc123')?.webhookId).toBe('msg_2');
+      expect(store.list()).toHaveLength(1);
+    });
+
+    test('callback sink posts the event as JSON', async () => {
+      const calls: any[] = [];
+      const fakeFetch = (async (url: string, init: any) => {
+        calls.push({ url, init });
+        return new Response(null, { status: 204 });
+      }) as any;
+
+      await createCallbackWebhookSink('https://backend.example.com/hooks', fakeFetch)(event);
+
+      expect(calls[0].url).toBe('https://backend.example.com/hooks');
+      expect(JSON.parse(calls[0].init.body).prediction.id).toBe('abc123');
+    });
+
+    test('callback sink throws on failed delivery', async () => {
+      const fakeFetch = (async () => new Response(null, { status: 502 })) as any;
+
+      await expect(createCallbackWebhookSink('https://backend.example.com/hooks', fakeFetch)(event))
+        .rejects.toThrow('Webhook callback failed with status 502');
+    });
+
+    test('getWebhookSink prefers an injected sink', () => {
+      const injected = () => {};
+      setWebhookSink(injected);
+
+      expect(getWebhookSink('https://backend.example.com/hooks')).toBe(injected);
+    });
+
+    test('getWebhookSink falls back to the default memory store', () => {
+      expect(getWebhookSink()).toBe(defaultWebhookStore.sink);
+    });
+  });
+});